@@ -0,0 +1,1082 @@
+import { Knex } from 'knex';
+import {
+    PostgresEntityConfig,
+    Repository,
+    UpsertOptions,
+    PageResult,
+    PageOptions,
+    ReadOptions,
+    FindOptions,
+    FindOneOptions,
+    LockOptions,
+    CursorPageResult,
+    CursorPageOptions,
+    UpdateOptions,
+    StreamOptions,
+    BatchCheckpoint,
+    BatchHandler,
+    BatchOptions,
+    BatchResult,
+    AggregateOptions,
+    AggregateMetric,
+    AggregateRow,
+    DATABASE_KIT_CONSTANTS,
+} from '../contracts/database.contracts';
+import {
+    CursorSortField,
+    normalizeCursorSort,
+    decodeCursor,
+    createCursorPageResult,
+    createPageResult,
+} from '../utils/pagination.utils';
+import { isOperatorObject, mergeFilters, validateFilter } from '../utils/filter.utils';
+import { attachRelations, relationColumns } from '../utils/relation.utils';
+import { normalizeAggregateOptions, toMetricValue } from '../utils/aggregate.utils';
+import { runBatches } from '../utils/batch.utils';
+import { createHookRunner, createTimestamper } from '../utils/hook.utils';
+import { mapEntityFields } from '../utils/entity.utils';
+import { OptimisticLockError } from '../errors/optimistic-lock.error';
+
+/**
+ * SQL dialects served by the shared Knex repository.
+ */
+export type SqlDialect = 'postgres' | 'sqlite' | 'mysql';
+
+/**
+ * Extra wiring for the shared Knex repository.
+ */
+export interface KnexRepositoryOptions {
+    /**
+     * Returns the connection for replica-eligible reads
+     * (`findAll`, `findPage`, `count`, `distinct`, `select`).
+     * Called once per read; reads use the main connection when omitted.
+     */
+    reader?: () => Knex;
+}
+
+/**
+ * Creates a repository for a SQL table on top of a Knex instance or transaction.
+ * Shared by the PostgreSQL, SQLite and MySQL adapters so all of them have the same
+ * filter, soft delete, timestamp, upsert and hook semantics.
+ *
+ * MySQL has no `RETURNING` clause, so on that dialect written rows are read back
+ * by primary key (or by conflict keys for upserts) after the write.
+ *
+ * @param kx - Knex instance or transaction
+ * @param cfg - Configuration for the entity/table
+ * @param dialect - SQL dialect of the connection
+ * @param options - Optional reader for replica-eligible reads
+ * @returns Repository instance with CRUD methods
+ */
+export function createKnexRepository<T = unknown>(
+    kx: Knex | Knex.Transaction,
+    cfg: PostgresEntityConfig<T>,
+    dialect: SqlDialect = 'postgres',
+    options: KnexRepositoryOptions = {},
+): Repository<T> {
+    const table = cfg.table;
+    const pk = cfg.primaryKey || 'id';
+    const allowed = cfg.columns || [];
+    const baseFilter = cfg.defaultFilter || {};
+
+    // Soft delete configuration
+    const softDeleteEnabled = cfg.softDelete ?? false;
+    const softDeleteField = cfg.softDeleteField ?? 'deleted_at';
+
+    // Timestamp configuration
+    const timestampsEnabled = cfg.timestamps ?? false;
+    const createdAtField = cfg.createdAtField ?? 'created_at';
+    const updatedAtField = cfg.updatedAtField ?? 'updated_at';
+
+    // Optimistic locking configuration
+    const versionField = cfg.versionField;
+
+    // Hooks configuration
+    const hooks = cfg.hooks;
+
+    // Picks the connection for a replica-eligible read
+    const readerFor = (readOptions?: ReadOptions): Knex | Knex.Transaction =>
+        options.reader && readOptions?.consistency !== 'primary' ? options.reader() : kx;
+
+    // Batch-loads the included relations, on the same connection as the read they belong to
+    const withRelations = <R>(rows: R[], readOptions?: FindOptions): Promise<R[]> =>
+        attachRelations(rows, readOptions?.include, {
+            relations: cfg.relations,
+            primaryKey: pk,
+            defaultTargetKey: 'id',
+            target: `table "${table}"`,
+            load: (source, field, values, scope) => {
+                const qb = readerFor(readOptions)(source)
+                    .select(relationColumns(field, scope) ?? '*')
+                    .whereIn(field, values as Knex.Value[]);
+                if (scope?.softDeleteField) qb.whereNull(scope.softDeleteField);
+                return qb;
+            },
+        });
+
+    // Create not-deleted filter for soft delete
+    const notDeletedFilter: Record<string, unknown> = softDeleteEnabled
+        ? { [softDeleteField]: { isNull: true } }
+        : {};
+
+    const { addCreatedAt, addUpdatedAt } = createTimestamper(timestampsEnabled, createdAtField, updatedAtField);
+
+    // Helper to start the version at 1 on insert
+    const addInitialVersion = <D extends Record<string, unknown>>(data: D): D => {
+        if (versionField) {
+            return { ...data, [versionField]: 1 };
+        }
+        return data;
+    };
+
+    // Helper to increment the version in the UPDATE itself; callers cannot set it
+    const addVersionIncrement = (data: Record<string, unknown>): Record<string, unknown> => {
+        if (!versionField) return data;
+        return { ...data, [versionField]: kx.raw('?? + 1', [versionField]) };
+    };
+
+    // Hook runners
+    const {
+        runBeforeCreate,
+        runAfterCreate,
+        runBeforeUpdate,
+        runAfterUpdate,
+        runBeforeDelete,
+        runAfterDelete,
+        runBeforeSoftDelete,
+        runAfterSoftDelete,
+        runBeforeRestore,
+        runAfterRestore,
+        hasDeleteHooks,
+        hasSoftDeleteHooks,
+        hasRestoreHooks,
+    } = createHookRunner<T>(hooks);
+
+    const assertFieldAllowed = (field: string): void => {
+        if (allowed.length && !allowed.includes(field)) {
+            throw new Error(
+                `Field "${field}" is not allowed for table "${table}". Add it to columns[] in config.`,
+            );
+        }
+    };
+
+    // Translates a validated filter expression into where clauses.
+    // Logical groups become parenthesised sub-builders so they AND with sibling conditions.
+    const applyExpression = (
+        qb: Knex.QueryBuilder,
+        filter: Record<string, unknown>,
+    ): void => {
+        Object.entries(filter).forEach(([key, value]) => {
+            if (key === '$and') {
+                (value as Record<string, unknown>[]).forEach((sub) => {
+                    qb.where((group) => applyExpression(group, sub));
+                });
+            } else if (key === '$or') {
+                qb.where((group) => {
+                    (value as Record<string, unknown>[]).forEach((sub) => {
+                        group.orWhere((inner) => applyExpression(inner, sub));
+                    });
+                });
+            } else if (key === '$not') {
+                qb.whereNot((group) => applyExpression(group, value as Record<string, unknown>));
+            } else if (isOperatorObject(value)) {
+                const ops = value;
+
+                if (ops.eq !== undefined) qb.where(key, ops.eq);
+                if (ops.ne !== undefined) qb.whereNot(key, ops.ne);
+                if (ops.gt !== undefined) qb.where(key, '>', ops.gt);
+                if (ops.gte !== undefined) qb.where(key, '>=', ops.gte);
+                if (ops.lt !== undefined) qb.where(key, '<', ops.lt);
+                if (ops.lte !== undefined) qb.where(key, '<=', ops.lte);
+                if (ops.in) qb.whereIn(key, ops.in as readonly string[]);
+                if (ops.nin) qb.whereNotIn(key, ops.nin as readonly string[]);
+                // SQLite has no ILIKE; its LIKE is already case-insensitive for ASCII
+                if (ops.like) {
+                    if (dialect === 'sqlite') qb.whereLike(key, `${ops.like}`);
+                    else qb.whereILike(key, `${ops.like}`);
+                }
+                if (ops.isNull === true) qb.whereNull(key);
+                if (ops.isNotNull === true) qb.whereNotNull(key);
+            } else {
+                qb.where(key, value as string | number | boolean);
+            }
+        });
+    };
+
+    const applyFilter = (
+        qb: Knex.QueryBuilder,
+        filter: Record<string, unknown>,
+    ): void => {
+        validateFilter(filter, allowed, { target: `table "${table}"` });
+        applyExpression(qb, filter);
+    };
+
+    const applySort = (
+        qb: Knex.QueryBuilder,
+        sort?: string | Record<string, unknown>,
+    ): void => {
+        if (!sort) return;
+
+        if (typeof sort === 'string') {
+            const parts = sort.split(',');
+            for (const p of parts) {
+                const dir = p.startsWith('-') ? 'desc' : 'asc';
+                const col = p.replace(/^[-+]/, '');
+                assertFieldAllowed(col);
+                qb.orderBy(col, dir);
+            }
+        } else {
+            Object.entries(sort).forEach(([col, dir]) => {
+                assertFieldAllowed(col);
+                const direction =
+                    dir === -1 || String(dir).toLowerCase() === 'desc' ? 'desc' : 'asc';
+                qb.orderBy(col, direction);
+            });
+        }
+    };
+
+    // Restricts the query to rows strictly after (or before) the cursor position
+    const applyKeyset = (
+        qb: Knex.QueryBuilder,
+        fields: CursorSortField[],
+        values: Record<string, unknown>,
+        backward: boolean,
+    ): void => {
+        // NULL sorts before every value (see orderCursor), and comparisons with NULL never match,
+        // so NULL cursor values and NULL rows get IS NULL / IS NOT NULL conditions instead
+        qb.where((outer) => {
+            fields.forEach((current, i) => {
+                const value = values[current.field] ?? null;
+                const ascending = (current.direction === 'asc') !== backward;
+                // Going down, nothing comes after NULL on this column
+                if (!ascending && value === null) return;
+
+                outer.orWhere((inner) => {
+                    fields.slice(0, i).forEach(({ field }) => {
+                        const prior = values[field] ?? null;
+                        if (prior === null) inner.whereNull(field);
+                        else inner.where(field, prior as Knex.Value);
+                    });
+                    // The trailing primary key is never NULL
+                    const nullable = i < fields.length - 1;
+                    if (value === null) {
+                        inner.whereNotNull(current.field);
+                    } else if (ascending || !nullable) {
+                        inner.where(current.field, ascending ? '>' : '<', value as Knex.Value);
+                    } else {
+                        inner.where((past) => past.where(current.field, '<', value as Knex.Value).orWhereNull(current.field));
+                    }
+                });
+            });
+        });
+    };
+
+    // Orders by a keyset column with NULL first ascending and last descending.
+    // MySQL and SQLite already sort NULL that way; PostgreSQL needs it spelled out.
+    const orderCursor = (qb: Knex.QueryBuilder, field: string, ascending: boolean): void => {
+        if (dialect === 'postgres') qb.orderBy(field, ascending ? 'asc' : 'desc', ascending ? 'first' : 'last');
+        else qb.orderBy(field, ascending ? 'asc' : 'desc');
+    };
+
+    // Adds FOR UPDATE / FOR SHARE / FOR NO KEY UPDATE to a read inside a transaction
+    const applyLock = (qb: Knex.QueryBuilder, lockOptions: LockOptions = {}): void => {
+        const { lock, skipLocked, noWait } = lockOptions;
+        if (!lock) {
+            if (skipLocked || noWait) {
+                throw new Error('skipLocked and noWait need a lock mode.');
+            }
+            return;
+        }
+
+        if (dialect === 'sqlite') {
+            throw new Error('Row locks are not supported on SQLite.');
+        }
+        // Outside a transaction the lock would be released as soon as the statement ends
+        if (!(kx as Knex.Transaction).isTransaction) {
+            throw new Error(`lock on table "${table}" needs a transaction. Use a repository from withTransaction().`);
+        }
+        if (skipLocked && noWait) {
+            throw new Error('Use either skipLocked or noWait, not both.');
+        }
+        if (lock === 'noKeyUpdate' && dialect !== 'postgres') {
+            throw new Error('lock "noKeyUpdate" is only supported on PostgreSQL.');
+        }
+
+        if (lock === 'update') qb.forUpdate();
+        else if (lock === 'share') qb.forShare();
+        else qb.forNoKeyUpdate();
+
+        if (skipLocked) qb.skipLocked();
+        if (noWait) qb.noWait();
+    };
+
+    // Merge clause of an upsert: the inserted values, plus a version increment on conflict
+    const versionMerge = (columns: string[]): string[] | Record<string, Knex.Raw> => {
+        if (!versionField) return columns;
+
+        const inserted = (col: string) =>
+            dialect === 'mysql' ? kx.raw('VALUES(??)', [col]) : kx.raw('excluded.??', [col]);
+        return {
+            ...Object.fromEntries(columns.map((col) => [col, inserted(col)])),
+            [versionField]: dialect === 'mysql'
+                ? kx.raw('?? + 1', [versionField])
+                : kx.raw('??.?? + 1', [table, versionField]),
+        };
+    };
+
+    // Builds an atomic INSERT ... ON CONFLICT (...) DO UPDATE for the given rows
+    // (INSERT ... ON DUPLICATE KEY UPDATE on MySQL)
+    const nativeUpsert = async (
+        rows: Record<string, unknown>[],
+        conflictKeys: string[],
+        updateColumns?: string[],
+    ): Promise<Record<string, unknown>[]> => {
+        conflictKeys.forEach(assertFieldAllowed);
+        updateColumns?.forEach(assertFieldAllowed);
+
+        // The conflict keys' unique index still holds soft-deleted rows: upserting one restores it
+        const timestampedRows = rows.map((row) => {
+            const stamped = addInitialVersion(addUpdatedAt(addCreatedAt(row)));
+            return softDeleteEnabled ? { ...stamped, [softDeleteField]: null } : stamped;
+        });
+
+        const providedColumns = Array.from(
+            new Set(timestampedRows.flatMap((row) => Object.keys(row))),
+        );
+        const mergeColumns = (updateColumns ?? providedColumns)
+            .filter((col) => !conflictKeys.includes(col) && col !== createdAtField && col !== versionField);
+        if (updateColumns && timestampsEnabled && !mergeColumns.includes(updatedAtField)) {
+            mergeColumns.push(updatedAtField);
+        }
+        if (updateColumns && softDeleteEnabled && !mergeColumns.includes(softDeleteField)) {
+            mergeColumns.push(softDeleteField);
+        }
+
+        // Merging the conflict keys onto themselves is a no-op that still returns the row
+        const query = kx(table)
+            .insert(timestampedRows)
+            .onConflict(conflictKeys)
+            .merge(versionMerge(mergeColumns.length ? mergeColumns : conflictKeys));
+        if (dialect !== 'mysql') {
+            return query.returning('*');
+        }
+
+        // MySQL matches any unique key and returns no rows, so read them back by conflict keys
+        await query;
+        const tupleKey = (row: Record<string, unknown>) =>
+            JSON.stringify(conflictKeys.map((key) => row[key]));
+        const stored = (await kx(table)
+            .select('*')
+            .whereIn(
+                conflictKeys,
+                timestampedRows.map((row) => conflictKeys.map((key) => row[key] as Knex.Value)),
+            )) as Record<string, unknown>[];
+        const byKey = new Map(stored.map((row) => [tupleKey(row), row]));
+        return timestampedRows
+            .map((row) => byKey.get(tupleKey(row)))
+            .filter((row): row is Record<string, unknown> => !!row);
+    };
+
+    const resolveConflictKeys = (options: UpsertOptions): string[] | undefined => {
+        const conflictKeys = options.conflictKeys ?? cfg.conflictKeys;
+        return conflictKeys?.length ? conflictKeys : undefined;
+    };
+
+    // Resolves the primary keys matched by a filter so bulk operations can fire per-row hooks
+    const findIds = async (filter: Record<string, unknown>): Promise<Array<string | number>> => {
+        const rows = await kx(table)
+            .select([pk])
+            .modify((q) => applyFilter(q, filter));
+        return (rows as Record<string, string | number>[]).map((row) => row[pk]);
+    };
+
+    // Reads rows back by primary key, keeping the order of the given ids
+    const selectByIds = async (
+        q: Knex | Knex.Transaction,
+        ids: Array<string | number>,
+        columns: '*' | string[] = '*',
+    ): Promise<Record<string, unknown>[]> => {
+        if (ids.length === 0) return [];
+        const rows = (await q(table).select(columns).whereIn(pk, ids)) as Record<string, unknown>[];
+        const byId = new Map(rows.map((row) => [String(row[pk]), row]));
+        return ids
+            .map((id) => byId.get(String(id)))
+            .filter((row): row is Record<string, unknown> => !!row);
+    };
+
+    // INSERT ... RETURNING *; on MySQL rows are inserted one by one (inside a
+    // transaction) so each generated id can be read from the insert result
+    const insertReturning = async (
+        data: Record<string, unknown> | Record<string, unknown>[],
+    ): Promise<Record<string, unknown>[]> => {
+        if (dialect !== 'mysql') {
+            return kx(table).insert(data).returning('*');
+        }
+
+        const rows = Array.isArray(data) ? data : [data];
+        const insertAll = async (q: Knex | Knex.Transaction) => {
+            const ids: Array<string | number> = [];
+            for (const row of rows) {
+                const [insertId] = await q(table).insert(row);
+                ids.push((row[pk] as string | number | undefined) ?? insertId);
+            }
+            return selectByIds(q, ids);
+        };
+
+        if (rows.length === 1 || (kx as Knex.Transaction).isTransaction) {
+            return insertAll(kx);
+        }
+        return kx.transaction(insertAll);
+    };
+
+    // UPDATE ... RETURNING; on MySQL the matching ids are selected first and read back afterwards
+    const updateReturning = async (
+        build: () => Knex.QueryBuilder,
+        data: Record<string, unknown>,
+        columns: '*' | string[] = '*',
+    ): Promise<Record<string, unknown>[]> => {
+        if (dialect !== 'mysql') {
+            return build().update(data).returning(columns);
+        }
+
+        const ids = ((await build().select([pk])) as Record<string, string | number>[]).map((row) => row[pk]);
+        if (ids.length === 0) return [];
+        // A concurrent write can make the rows stop matching (e.g. a version check) between both statements
+        const affectedRows = await build().whereIn(pk, ids).update(data);
+        if (affectedRows === 0) return [];
+        return selectByIds(kx, ids, columns);
+    };
+
+    // DELETE ... RETURNING pk; on MySQL the matching ids are selected before deleting
+    const deleteReturningIds = async (build: () => Knex.QueryBuilder): Promise<Array<string | number>> => {
+        if (dialect !== 'mysql') {
+            const rows = (await build().delete().returning([pk])) as Record<string, string | number>[];
+            return rows.map((row) => row[pk]);
+        }
+
+        const ids = ((await build().select([pk])) as Record<string, string | number>[]).map((row) => row[pk]);
+        if (ids.length === 0) return [];
+        await build().whereIn(pk, ids).delete();
+        return ids;
+    };
+
+    // Soft deletes all rows matching the filter, firing soft delete hooks per row
+    const softDeleteWhere = async (filter: Record<string, unknown>): Promise<number> => {
+        if (!hasSoftDeleteHooks) {
+            const affectedRows = await kx(table)
+                .modify((q) => applyFilter(q, filter))
+                .update({ [softDeleteField]: new Date() });
+            return affectedRows;
+        }
+
+        const ids = await findIds(filter);
+        if (ids.length === 0) return 0;
+
+        for (const id of ids) {
+            await runBeforeSoftDelete(id);
+        }
+
+        const rows = await updateReturning(
+            () => kx(table)
+                .whereIn(pk, ids)
+                .modify((q) => applyFilter(q, filter)),
+            { [softDeleteField]: new Date() },
+            [pk],
+        );
+        const deletedIds = new Set(rows.map((row) => String(row[pk])));
+
+        for (const id of ids) {
+            await runAfterSoftDelete(deletedIds.has(String(id)));
+        }
+
+        return rows.length;
+    };
+
+    // Soft deletes a single row by primary key, firing soft delete hooks
+    const softDeleteOne = async (id: string | number): Promise<boolean> => {
+        await runBeforeSoftDelete(id);
+
+        const mergedFilter = mergeFilters(baseFilter, notDeletedFilter);
+        const qb = kx(table).where({ [pk]: id });
+        applyFilter(qb, mergedFilter);
+        const affectedRows = await qb.update({ [softDeleteField]: new Date() });
+        const success = affectedRows > 0;
+
+        await runAfterSoftDelete(success);
+
+        return success;
+    };
+
+    const repo: Repository<T> = {
+        async create(data: Partial<T>): Promise<T> {
+            // Run beforeCreate hook
+            let processedData = await runBeforeCreate(data);
+            processedData = addInitialVersion(addCreatedAt(processedData as Record<string, unknown>)) as Partial<T>;
+
+            const [row] = await insertReturning(processedData as Record<string, unknown>);
+            const entity = row as T;
+
+            // Run afterCreate hook
+            await runAfterCreate(entity);
+
+            return entity;
+        },
+
+        async findById(id: string | number, readOptions?: FindOptions): Promise<T | null> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter);
+            const qb = kx(table)
+                .select('*')
+                .where({ [pk]: id });
+            applyFilter(qb, mergedFilter);
+            applyLock(qb, readOptions);
+            const row = await qb.first();
+
+            // Related rows are read from the primary too, like the row itself
+            const [entity] = await withRelations(row ? [row as T] : [], { ...readOptions, consistency: 'primary' });
+            return entity ?? null;
+        },
+
+        async findAll(filter: Record<string, unknown> = {}, readOptions?: FindOptions): Promise<T[]> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const qb = readerFor(readOptions)(table).select('*');
+            applyFilter(qb, mergedFilter);
+            applyLock(qb, readOptions);
+            const rows = await qb;
+            return withRelations(rows as T[], readOptions);
+        },
+
+        async findOne(filter: Record<string, unknown>, readOptions?: FindOneOptions): Promise<T | null> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const qb = kx(table).select('*');
+            applyFilter(qb, mergedFilter);
+            applyLock(qb, readOptions);
+            const row = await qb.first();
+            return (row as T) || null;
+        },
+
+        async findPage(options: PageOptions = {}): Promise<PageResult<T>> {
+            const { filter = {}, page = 1, limit = 10, sort } = options;
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const reader = readerFor(options);
+
+            const offset = Math.max(0, (page - 1) * limit);
+
+            const qb = reader(table).select('*');
+            applyFilter(qb, mergedFilter);
+            applySort(qb, sort);
+
+            // Only the page rows are locked; PostgreSQL rejects FOR UPDATE on the COUNT
+            const pageQuery = qb.clone().limit(limit).offset(offset);
+            applyLock(pageQuery, options);
+            const data = (await pageQuery) as T[];
+            await withRelations(data, options);
+
+            const countRow = await reader(table)
+                .count<{ count: string }[]>({ count: '*' })
+                .modify((q) => applyFilter(q, mergedFilter));
+            const total = Number(countRow[0]?.count || 0);
+
+            return createPageResult(data, page, limit, total);
+        },
+
+        async findCursor(options: CursorPageOptions = {}): Promise<CursorPageResult<T>> {
+            const { filter = {}, sort, limit = 10, after, before, withTotal = false } = options;
+            if (after && before) {
+                throw new Error('findCursor accepts either "after" or "before", not both.');
+            }
+
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const fields = normalizeCursorSort(sort, pk);
+            fields.filter(({ field }) => field !== pk).forEach(({ field }) => assertFieldAllowed(field));
+
+            const cursor = after ?? before;
+            const direction = after ? 'after' : before ? 'before' : undefined;
+            const backward = direction === 'before';
+
+            const qb = kx(table).select('*');
+            applyFilter(qb, mergedFilter);
+            if (cursor) {
+                applyKeyset(qb, fields, decodeCursor(cursor, fields), backward);
+            }
+            fields.forEach(({ field, direction: dir }) => orderCursor(qb, field, (dir === 'asc') !== backward));
+
+            // Fetch one extra row to detect whether another page exists
+            const rows = (await qb.limit(limit + 1)) as T[];
+
+            let total: number | undefined;
+            if (withTotal) {
+                const countRow = await kx(table)
+                    .count<{ count: string }[]>({ count: '*' })
+                    .modify((q) => applyFilter(q, mergedFilter));
+                total = Number(countRow[0]?.count || 0);
+            }
+
+            return createCursorPageResult(rows, limit, fields, direction, total);
+        },
+
+        async *stream(filter: Record<string, unknown> = {}, options: StreamOptions = {}): AsyncIterable<T> {
+            const { sort, batchSize = DATABASE_KIT_CONSTANTS.DEFAULT_STREAM_BATCH_SIZE } = options;
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const qb = readerFor(options)(table).select('*');
+            applyFilter(qb, mergedFilter);
+            applySort(qb, sort);
+
+            // PostgreSQL reads through a server-side cursor (pg-query-stream), MySQL streams the result set.
+            // Both pause while the consumer is behind; leaving the loop destroys the stream and frees the connection.
+            yield* qb.stream({ batchSize, highWaterMark: batchSize }) as AsyncIterable<T>;
+        },
+
+        async forEachBatch(
+            filter: Record<string, unknown>,
+            batchSize: number,
+            handler: BatchHandler<T>,
+            options: BatchOptions = {},
+        ): Promise<BatchResult> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+
+            return runBatches<T>(batchSize, options, {
+                // Batches feed writes, so they are read from the primary
+                fetch: async (after, limit) => {
+                    const qb = kx(table).select('*');
+                    applyFilter(qb, mergedFilter);
+                    if (after !== undefined) qb.where(pk, '>', after);
+                    return (await qb.orderBy(pk, 'asc').limit(limit)) as T[];
+                },
+                keyOf: (row) => (row as Record<string, unknown>)[pk] as BatchCheckpoint,
+                run: async (rows, batch) => {
+                    if (!options.transaction) {
+                        await handler(rows, { batch, repository: repo });
+                        return;
+                    }
+                    // Inside a transaction, knex nests the batch transaction as a savepoint
+                    await kx.transaction(async (trx) => {
+                        await handler(rows, { batch, repository: createKnexRepository<T>(trx, cfg, dialect) });
+                    });
+                },
+            });
+        },
+
+        async updateById(id: string | number, update: Partial<T>, options: UpdateOptions = {}): Promise<T | null> {
+            const { expectedVersion } = options;
+            if (expectedVersion !== undefined && !versionField) {
+                throw new Error(`expectedVersion needs versionField in the config of table "${table}".`);
+            }
+
+            // Run beforeUpdate hook
+            let processedUpdate = await runBeforeUpdate(update);
+            processedUpdate = addUpdatedAt(processedUpdate as Record<string, unknown>) as Partial<T>;
+
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter);
+            const byId = () => {
+                const qb = kx(table).where({ [pk]: id });
+                applyFilter(qb, mergedFilter);
+                return qb;
+            };
+            const [row] = await updateReturning(
+                () => (expectedVersion !== undefined ? byId().where(versionField!, expectedVersion) : byId()),
+                addVersionIncrement(processedUpdate as Record<string, unknown>),
+            );
+
+            // Nothing matched: a missing row stays null, a stale version is a conflict
+            if (!row && expectedVersion !== undefined) {
+                const current = await byId().select([versionField!]).first();
+                if (current) {
+                    throw new OptimisticLockError(`table "${table}"`, id, expectedVersion, Number(current[versionField!]));
+                }
+            }
+            const entity = (row as T) || null;
+
+            // Run afterUpdate hook
+            await runAfterUpdate(entity);
+
+            return entity;
+        },
+
+        async deleteById(id: string | number): Promise<boolean> {
+            // If soft delete is enabled, update instead of delete
+            if (softDeleteEnabled) {
+                return softDeleteOne(id);
+            }
+
+            // Run beforeDelete hook
+            await runBeforeDelete(id);
+
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter);
+            const qb = kx(table).where({ [pk]: id });
+            applyFilter(qb, mergedFilter);
+            const affectedRows = await qb.delete();
+            const success = affectedRows > 0;
+
+            // Run afterDelete hook
+            await runAfterDelete(success);
+
+            return success;
+        },
+
+        async count(filter: Record<string, unknown> = {}, readOptions?: ReadOptions): Promise<number> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const [{ count }] = await readerFor(readOptions)(table)
+                .count<{ count: string }[]>({ count: '*' })
+                .modify((q) => applyFilter(q, mergedFilter));
+            return Number(count || 0);
+        },
+
+        async exists(filter: Record<string, unknown> = {}): Promise<boolean> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const row = await kx(table)
+                .select([pk])
+                .modify((q) => applyFilter(q, mergedFilter))
+                .first();
+            return !!row;
+        },
+
+        // -----------------------------
+        // Bulk Operations
+        // -----------------------------
+
+        async insertMany(data: Partial<T>[]): Promise<T[]> {
+            if (data.length === 0) return [];
+
+            // Run beforeCreate hook and add createdAt timestamp to each record
+            const timestampedData: Record<string, unknown>[] = [];
+            for (const item of data) {
+                const processedItem = await runBeforeCreate(item, true);
+                timestampedData.push(addInitialVersion(addCreatedAt(processedItem as Record<string, unknown>)));
+            }
+
+            const rows = await insertReturning(timestampedData);
+            const entities = rows as T[];
+
+            // Run afterCreate hook for each created entity
+            for (const entity of entities) {
+                await runAfterCreate(entity);
+            }
+
+            return entities;
+        },
+
+        async updateMany(filter: Record<string, unknown>, update: Partial<T>): Promise<number> {
+            // Run beforeUpdate hook once, the same update applies to every match
+            const processedUpdate = await runBeforeUpdate(update, 'update', true);
+
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const timestampedUpdate = addVersionIncrement(addUpdatedAt(processedUpdate as Record<string, unknown>));
+
+            if (!hooks?.afterUpdate) {
+                const affectedRows = await kx(table)
+                    .modify((q) => applyFilter(q, mergedFilter))
+                    .update(timestampedUpdate);
+
+                return affectedRows;
+            }
+
+            const rows = await updateReturning(
+                () => kx(table).modify((q) => applyFilter(q, mergedFilter)),
+                timestampedUpdate,
+            );
+
+            // Run afterUpdate hook for each updated entity
+            for (const row of rows) {
+                await runAfterUpdate(row as T);
+            }
+
+            return rows.length;
+        },
+
+        async deleteMany(filter: Record<string, unknown>): Promise<number> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+
+            // If soft delete is enabled, update instead of delete
+            if (softDeleteEnabled) {
+                return softDeleteWhere(mergedFilter);
+            }
+
+            if (!hasDeleteHooks) {
+                const affectedRows = await kx(table)
+                    .modify((q) => applyFilter(q, mergedFilter))
+                    .delete();
+
+                return affectedRows;
+            }
+
+            // Run beforeDelete hook for each matched row
+            const ids = await findIds(mergedFilter);
+            if (ids.length === 0) return 0;
+
+            for (const id of ids) {
+                await runBeforeDelete(id);
+            }
+
+            const deleted = await deleteReturningIds(
+                () => kx(table)
+                    .whereIn(pk, ids)
+                    .modify((q) => applyFilter(q, mergedFilter)),
+            );
+            const deletedIds = new Set(deleted.map(String));
+
+            // Run afterDelete hook for each matched row
+            for (const id of ids) {
+                await runAfterDelete(deletedIds.has(String(id)));
+            }
+
+            return deleted.length;
+        },
+
+        // -----------------------------
+        // Advanced Query Operations
+        // -----------------------------
+
+        async upsert(
+            filter: Record<string, unknown>,
+            data: Partial<T>,
+            options: UpsertOptions = {},
+        ): Promise<T> {
+            // Run beforeUpdate hook with the upsert operation
+            const processedData = await runBeforeUpdate(data, 'upsert');
+
+            // Use a single atomic statement when conflict keys are known
+            const conflictKeys = resolveConflictKeys(options);
+            if (conflictKeys) {
+                Object.entries(filter).forEach(([key, value]) => {
+                    if (key.startsWith('$') || isOperatorObject(value)) {
+                        throw new Error(
+                            `upsert with conflictKeys on table "${table}" requires a plain equality filter.`,
+                        );
+                    }
+                    assertFieldAllowed(key);
+                });
+                const [row] = await nativeUpsert(
+                    [{ ...filter, ...processedData } as Record<string, unknown>],
+                    conflictKeys,
+                    options.updateColumns,
+                );
+                const entity = row as T;
+
+                // Run afterUpdate hook
+                await runAfterUpdate(entity);
+
+                return entity;
+            }
+
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+
+            // Try to find existing record
+            const qb = kx(table).select('*');
+            applyFilter(qb, mergedFilter);
+            const existing = await qb.first();
+
+            let entity: T;
+            if (existing) {
+                // Update existing record
+                const timestampedUpdate = addVersionIncrement(addUpdatedAt(processedData as Record<string, unknown>));
+                const [row] = await updateReturning(
+                    () => kx(table).where({ [pk]: existing[pk] }),
+                    timestampedUpdate,
+                );
+                entity = row as T;
+            } else {
+                // Insert new record
+                const timestampedData = addInitialVersion(
+                    addCreatedAt({ ...filter, ...processedData } as Record<string, unknown>),
+                );
+                const [row] = await insertReturning(timestampedData);
+                entity = row as T;
+            }
+
+            // Run afterUpdate hook
+            await runAfterUpdate(entity);
+
+            return entity;
+        },
+
+        async bulkUpsert(rows: Partial<T>[], options: UpsertOptions = {}): Promise<T[]> {
+            if (rows.length === 0) return [];
+
+            const conflictKeys = resolveConflictKeys(options);
+            if (!conflictKeys) {
+                throw new Error(
+                    `bulkUpsert on table "${table}" requires conflictKeys in options or entity config.`,
+                );
+            }
+
+            // Run beforeUpdate hook for each row with the upsert operation
+            const processedRows: Record<string, unknown>[] = [];
+            for (const row of rows) {
+                const processedRow = await runBeforeUpdate(row, 'upsert', true);
+                processedRows.push(processedRow as Record<string, unknown>);
+            }
+
+            const result = await nativeUpsert(processedRows, conflictKeys, options.updateColumns);
+            const entities = result as T[];
+
+            // Run afterUpdate hook for each upserted entity
+            for (const entity of entities) {
+                await runAfterUpdate(entity);
+            }
+
+            return entities;
+        },
+
+        async distinct<K extends keyof T>(
+            field: K,
+            filter: Record<string, unknown> = {},
+            readOptions?: ReadOptions,
+        ): Promise<T[K][]> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const qb = readerFor(readOptions)(table)
+                .distinct(String(field))
+                .modify((q) => applyFilter(q, mergedFilter));
+            const rows = await qb;
+            return rows.map((row: Record<string, unknown>) => row[String(field)] as T[K]);
+        },
+
+        async select<K extends keyof T>(
+            filter: Record<string, unknown>,
+            fields: K[],
+            readOptions?: ReadOptions,
+        ): Promise<Pick<T, K>[]> {
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+            const qb = readerFor(readOptions)(table)
+                .select(fields.map(String))
+                .modify((q) => applyFilter(q, mergedFilter));
+            const rows = await qb;
+            return rows as Pick<T, K>[];
+        },
+
+        async aggregate<
+            G extends string = never,
+            M extends Record<string, AggregateMetric> = Record<string, AggregateMetric>,
+        >(options: AggregateOptions<Record<string, unknown>, G, M>): Promise<AggregateRow<T, G, M>[]> {
+            const { groupBy, metrics, having, sort, limit } = normalizeAggregateOptions(
+                options,
+                allowed,
+                `table "${table}"`,
+            );
+            const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, options.filter ?? {});
+            const reader = readerFor(options);
+
+            const grouped = reader(table).select(groupBy);
+            metrics.forEach(({ name, fn, field }) => {
+                (grouped[fn] as (columns: Record<string, string>) => Knex.QueryBuilder)({ [name]: field });
+            });
+            applyFilter(grouped, mergedFilter);
+            if (groupBy.length) grouped.groupBy(groupBy);
+
+            // Metric aliases cannot be used in HAVING on every dialect, so filter the grouped rows instead
+            const qb = having
+                ? reader.select('*').from(grouped.as('aggregated')).modify((q) => applyExpression(q, having))
+                : grouped;
+            sort.forEach(({ field, direction }) => qb.orderBy(field, direction));
+            if (limit !== undefined) qb.limit(limit);
+
+            const rows = (await qb) as Record<string, unknown>[];
+            return rows.map((row) => {
+                const result: Record<string, unknown> = {};
+                groupBy.forEach((field) => {
+                    result[field] = row[field];
+                });
+                metrics.forEach((metric) => {
+                    result[metric.name] = toMetricValue(metric, row[metric.name]);
+                });
+                return result as AggregateRow<T, G, M>;
+            });
+        },
+
+        // -----------------------------
+        // Soft Delete Operations
+        // -----------------------------
+
+        softDelete: softDeleteEnabled
+            ? async (id: string | number): Promise<boolean> => softDeleteOne(id)
+            : undefined,
+
+        softDeleteMany: softDeleteEnabled
+            ? async (filter: Record<string, unknown>): Promise<number> => {
+                const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+                return softDeleteWhere(mergedFilter);
+            }
+            : undefined,
+
+        restore: softDeleteEnabled
+            ? async (id: string | number): Promise<T | null> => {
+                // Run beforeRestore hook
+                await runBeforeRestore(id);
+
+                const deletedFilter = { [softDeleteField]: { isNotNull: true } };
+                const mergedFilter = mergeFilters(baseFilter, deletedFilter);
+                const [row] = await updateReturning(() => {
+                    const qb = kx(table).where({ [pk]: id });
+                    applyFilter(qb, mergedFilter);
+                    return qb;
+                }, { [softDeleteField]: null });
+                const entity = (row as T) || null;
+
+                // Run afterRestore hook
+                await runAfterRestore(entity);
+
+                return entity;
+            }
+            : undefined,
+
+        restoreMany: softDeleteEnabled
+            ? async (filter: Record<string, unknown>): Promise<number> => {
+                const deletedFilter = { [softDeleteField]: { isNotNull: true } };
+                const mergedFilter = mergeFilters(baseFilter, deletedFilter, filter);
+
+                if (!hasRestoreHooks) {
+                    const affectedRows = await kx(table)
+                        .modify((q) => applyFilter(q, mergedFilter))
+                        .update({ [softDeleteField]: null });
+                    return affectedRows;
+                }
+
+                // Run beforeRestore hook for each matched row
+                const ids = await findIds(mergedFilter);
+                if (ids.length === 0) return 0;
+
+                for (const id of ids) {
+                    await runBeforeRestore(id);
+                }
+
+                const rows = await updateReturning(
+                    () => kx(table)
+                        .whereIn(pk, ids)
+                        .modify((q) => applyFilter(q, mergedFilter)),
+                    { [softDeleteField]: null },
+                );
+
+                // Run afterRestore hook for each restored entity
+                for (const row of rows) {
+                    await runAfterRestore(row as T);
+                }
+
+                return rows.length;
+            }
+            : undefined,
+
+        findAllWithDeleted: softDeleteEnabled
+            ? async (filter: Record<string, unknown> = {}): Promise<T[]> => {
+                // Ignore soft delete filter, include all records
+                const mergedFilter = mergeFilters(baseFilter, filter);
+                const qb = kx(table).select('*');
+                applyFilter(qb, mergedFilter);
+                const rows = await qb;
+                return rows as T[];
+            }
+            : undefined,
+
+        findDeleted: softDeleteEnabled
+            ? async (filter: Record<string, unknown> = {}): Promise<T[]> => {
+                // Only find deleted records
+                const deletedFilter = { [softDeleteField]: { isNotNull: true } };
+                const mergedFilter = mergeFilters(baseFilter, deletedFilter, filter);
+                const qb = kx(table).select('*');
+                applyFilter(qb, mergedFilter);
+                const rows = await qb;
+                return rows as T[];
+            }
+            : undefined,
+    };
+
+    return cfg.fieldNames ? mapEntityFields(repo, cfg.fieldNames) : repo;
+}
@@ -0,0 +1,488 @@
+import { InMemoryAdapter, fromMongoRepositoryOptions, fromPostgresEntityConfig } from './memory.adapter';
+import { OptimisticLockError } from '../errors/optimistic-lock.error';
+
+interface TestUser {
+    id: number;
+    name: string;
+    age?: number | null;
+    email?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+    deletedAt?: Date | null;
+}
+
+describe('InMemoryAdapter', () => {
+    let adapter: InMemoryAdapter;
+
+    beforeEach(() => {
+        adapter = new InMemoryAdapter();
+        adapter.connect();
+    });
+
+    const seed = async () => {
+        const repo = adapter.createRepository<TestUser>({ name: 'users' });
+        await repo.insertMany([
+            { name: 'Alice', age: 30, email: 'alice@example.com' },
+            { name: 'bob', age: 25, email: 'bob@test.com' },
+            { name: 'Carol', age: null, email: 'carol@example.com' },
+        ]);
+        return repo;
+    };
+
+    describe('connection', () => {
+        it('should report connection state and health', async () => {
+            await expect(adapter.healthCheck()).resolves.toMatchObject({ healthy: true, type: 'memory' });
+
+            await adapter.disconnect();
+
+            expect(adapter.isConnected()).toBe(false);
+            await expect(adapter.healthCheck()).resolves.toMatchObject({ healthy: false });
+        });
+
+        it('should clear every collection on reset', async () => {
+            const repo = await seed();
+
+            adapter.reset();
+
+            await expect(repo.count()).resolves.toBe(0);
+            await expect(repo.create({ name: 'Dave' })).resolves.toMatchObject({ id: 1 });
+        });
+    });
+
+    describe('createRepository', () => {
+        it('should generate ids and return copies of stored rows', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users' });
+
+            const created = await repo.create({ name: 'Alice' });
+            created.name = 'changed';
+
+            expect(created.id).toBe(1);
+            await expect(repo.findById(1)).resolves.toEqual({ id: 1, name: 'Alice' });
+            await expect(repo.findById('1')).resolves.toEqual({ id: 1, name: 'Alice' });
+        });
+
+        it('should reject duplicate primary keys', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users' });
+            await repo.create({ id: 5, name: 'Alice' });
+
+            await expect(repo.create({ id: 5, name: 'Bob' })).rejects.toThrow(
+                'Duplicate primary key "5" in collection "users".',
+            );
+            await expect(repo.create({ name: 'Carol' })).resolves.toMatchObject({ id: 6 });
+        });
+
+        it('should evaluate filter operators and logical groups', async () => {
+            const repo = await seed();
+
+            const names = async (filter: Record<string, unknown>) =>
+                (await repo.findAll(filter)).map((u) => u.name);
+
+            await expect(names({ age: { gte: 25, lt: 30 } })).resolves.toEqual(['bob']);
+            await expect(names({ age: { isNull: true } })).resolves.toEqual(['Carol']);
+            await expect(names({ name: { like: 'a%' } })).resolves.toEqual(['Alice']);
+            await expect(names({ name: { in: ['bob', 'Carol'] } })).resolves.toEqual(['bob', 'Carol']);
+            await expect(
+                names({ $or: [{ age: { gt: 26 } }, { email: { like: '%@test.com' } }] }),
+            ).resolves.toEqual(['Alice', 'bob']);
+            await expect(names({ $not: { name: 'Alice' } })).resolves.toEqual(['bob', 'Carol']);
+        });
+
+        it('should validate filters against columns', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users', columns: ['id', 'name'] });
+
+            await expect(repo.findAll({ age: 1 })).rejects.toThrow(
+                'Field "age" is not allowed for collection "users"',
+            );
+            await expect(repo.findAll({ name: { regex: 'a' } })).rejects.toThrow('Unknown filter operator "regex"');
+        });
+
+        it('should apply the default filter', async () => {
+            await seed();
+            const repo = adapter.createRepository<TestUser>({
+                name: 'users',
+                defaultFilter: { age: { isNotNull: true } },
+            });
+
+            await expect(repo.count()).resolves.toBe(2);
+            await expect(repo.findById(3)).resolves.toBeNull();
+        });
+
+        it('should sort and paginate with findPage', async () => {
+            const repo = await seed();
+
+            const result = await repo.findPage({ sort: '-age', page: 1, limit: 2 });
+
+            expect(result.data.map((u) => u.name)).toEqual(['Alice', 'bob']);
+            expect(result).toMatchObject({ page: 1, limit: 2, total: 3, pages: 2 });
+        });
+
+        it('should page forwards and backwards with findCursor', async () => {
+            const repo = await seed();
+
+            const first = await repo.findCursor({ sort: { name: 'asc' }, limit: 2, withTotal: true });
+            const second = await repo.findCursor({ sort: { name: 'asc' }, limit: 2, after: first.nextCursor! });
+            const back = await repo.findCursor({ sort: { name: 'asc' }, limit: 2, before: second.prevCursor! });
+
+            expect(first.data.map((u) => u.name)).toEqual(['Alice', 'Carol']);
+            expect(first.total).toBe(3);
+            expect(second.data.map((u) => u.name)).toEqual(['bob']);
+            expect(second.hasNext).toBe(false);
+            expect(back.data.map((u) => u.name)).toEqual(['Alice', 'Carol']);
+        });
+
+        it('should stream matching rows in sort order', async () => {
+            const repo = await seed();
+            await repo.deleteById(2);
+
+            const names: string[] = [];
+            for await (const user of repo.stream({ name: { ne: 'nobody' } }, { sort: '-name' })) {
+                names.push(user.name);
+            }
+
+            expect(names).toEqual(['Carol', 'Alice']);
+        });
+
+        it('should update and delete matching rows', async () => {
+            const repo = await seed();
+
+            await expect(repo.updateById(1, { age: 31 })).resolves.toMatchObject({ id: 1, age: 31 });
+            await expect(repo.updateMany({ age: { isNull: true } }, { age: 40 })).resolves.toBe(1);
+            await expect(repo.deleteMany({ age: { gte: 31 } })).resolves.toBe(2);
+            await expect(repo.deleteById(2)).resolves.toBe(true);
+            await expect(repo.deleteById(2)).resolves.toBe(false);
+            await expect(repo.exists()).resolves.toBe(false);
+        });
+
+        it('should support distinct and select', async () => {
+            const repo = await seed();
+            await repo.create({ name: 'Alice', age: 30 });
+
+            await expect(repo.distinct('name')).resolves.toEqual(['Alice', 'bob', 'Carol']);
+            await expect(repo.select({ age: 25 }, ['name'])).resolves.toEqual([{ name: 'bob' }]);
+        });
+    });
+
+    describe('aggregate', () => {
+        it('should group matching rows with SQL semantics', async () => {
+            const orders = adapter.createRepository<{ id: number; status: string; amount: number | null }>({
+                name: 'orders',
+                softDelete: true,
+            });
+            await orders.insertMany([
+                { status: 'paid', amount: 100 },
+                { status: 'paid', amount: 50 },
+                { status: 'paid', amount: null },
+                { status: 'open', amount: 20 },
+                { status: 'refunded', amount: 500 },
+            ]);
+            await orders.deleteById(5);
+
+            const rows = await orders.aggregate({
+                groupBy: ['status'],
+                metrics: { n: { count: '*' }, priced: { count: 'amount' }, total: { sum: 'amount' }, top: { max: 'amount' } },
+                sort: '-total',
+            });
+
+            expect(rows).toEqual([
+                { status: 'paid', n: 3, priced: 2, total: 150, top: 100 },
+                { status: 'open', n: 1, priced: 1, total: 20, top: 20 },
+            ]);
+            await expect(
+                orders.aggregate({
+                    groupBy: ['status'],
+                    metrics: { avg: { avg: 'amount' } },
+                    having: { avg: { gt: 50 } },
+                    limit: 1,
+                }),
+            ).resolves.toEqual([{ status: 'paid', avg: 75 }]);
+            await expect(
+                orders.aggregate({ filter: { status: 'none' }, metrics: { n: { count: '*' }, total: { sum: 'amount' } } }),
+            ).resolves.toEqual([{ n: 0, total: null }]);
+        });
+    });
+
+    describe('relations', () => {
+        it('should attach belongsTo rows to findById, findAll and findPage results', async () => {
+            const users = adapter.createRepository<TestUser>({ name: 'users' });
+            const posts = adapter.createRepository<{ id: number; user_id: number | null; author?: TestUser | null }>({
+                name: 'posts',
+                relations: { author: { type: 'belongsTo', target: 'users', foreignKey: 'user_id' } },
+            });
+            const ada = await users.create({ name: 'Ada' });
+            await posts.insertMany([{ user_id: ada.id }, { user_id: null }]);
+
+            await expect(posts.findById(1, { include: ['author'] })).resolves.toMatchObject({ author: ada });
+            expect((await posts.findAll({}, { include: ['author'] })).map((post) => post.author)).toEqual([ada, null]);
+            expect((await posts.findPage({ limit: 1, include: ['author'] })).data[0].author).toEqual(ada);
+            await expect(posts.findById(1)).resolves.not.toHaveProperty('author');
+        });
+
+        it('should attach only the target columns and skip soft-deleted targets', async () => {
+            const users = adapter.createRepository<TestUser>({ name: 'users', softDelete: true });
+            const posts = adapter.createRepository<{ id: number; user_id: number; author?: unknown }>({
+                name: 'posts',
+                relations: {
+                    author: {
+                        type: 'belongsTo',
+                        target: 'users',
+                        foreignKey: 'user_id',
+                        columns: ['name'],
+                        softDeleteField: 'deletedAt',
+                    },
+                },
+            });
+            const ada = await users.create({ name: 'Ada', email: 'ada@example.com' });
+            const bob = await users.create({ name: 'Bob', email: 'bob@example.com' });
+            await users.deleteById(bob.id);
+            await posts.insertMany([{ user_id: ada.id }, { user_id: bob.id }]);
+
+            const result = await posts.findAll({}, { include: ['author'] });
+
+            expect(result.map((post) => post.author)).toEqual([{ name: 'Ada', id: ada.id }, null]);
+        });
+
+        it('should reject unknown relations even without results', async () => {
+            const posts = adapter.createRepository({ name: 'posts' });
+
+            await expect(posts.findById(1, { include: ['author'] })).rejects.toThrow(
+                'Unknown relation "author" for collection "posts". Declare it in relations in config.',
+            );
+        });
+    });
+
+    describe('upsert', () => {
+        it('should insert when nothing matches and update otherwise', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users' });
+
+            const inserted = await repo.upsert({ email: 'a@example.com' }, { name: 'Alice' });
+            const updated = await repo.upsert({ email: 'a@example.com' }, { name: 'Alicia' });
+
+            expect(updated).toEqual({ ...inserted, name: 'Alicia' });
+            await expect(repo.count()).resolves.toBe(1);
+        });
+
+        it('should match bulkUpsert rows on conflictKeys', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users', conflictKeys: ['email'] });
+            await repo.create({ name: 'Alice', email: 'a@example.com' });
+
+            const rows = await repo.bulkUpsert(
+                [
+                    { name: 'Alicia', email: 'a@example.com', age: 30 },
+                    { name: 'Bob', email: 'b@example.com' },
+                ],
+                { updateColumns: ['name'] },
+            );
+
+            expect(rows).toEqual([
+                { id: 1, name: 'Alicia', email: 'a@example.com' },
+                { id: 2, name: 'Bob', email: 'b@example.com' },
+            ]);
+        });
+
+        it('should restore soft-deleted rows matched on conflictKeys', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users', conflictKeys: ['email'], softDelete: true });
+            const alice = await repo.create({ name: 'Alice', email: 'a@example.com' });
+            await repo.softDelete!(alice.id);
+
+            const [row] = await repo.bulkUpsert([{ name: 'Alicia', email: 'a@example.com' }]);
+
+            expect(row).toMatchObject({ id: alice.id, name: 'Alicia', deletedAt: null });
+            await expect(repo.count()).resolves.toBe(1);
+        });
+
+        it('should require conflictKeys for bulkUpsert', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users' });
+
+            await expect(repo.bulkUpsert([{ name: 'Alice' }])).rejects.toThrow('requires conflictKeys');
+        });
+    });
+
+    describe('Soft Delete and Timestamps', () => {
+        it('should hide soft deleted rows and restore them', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users', softDelete: true });
+            await repo.insertMany([{ name: 'Alice' }, { name: 'Bob' }]);
+
+            await expect(repo.deleteById(1)).resolves.toBe(true);
+            await expect(repo.findAll()).resolves.toEqual([{ id: 2, name: 'Bob' }]);
+            await expect(repo.findDeleted!()).resolves.toEqual([
+                { id: 1, name: 'Alice', deletedAt: expect.any(Date) },
+            ]);
+            await expect(repo.findAllWithDeleted!()).resolves.toHaveLength(2);
+
+            await expect(repo.restore!(1)).resolves.toMatchObject({ id: 1, deletedAt: null });
+            await expect(repo.softDeleteMany!({})).resolves.toBe(2);
+            await expect(repo.restoreMany!({ name: 'Bob' })).resolves.toBe(1);
+            await expect(repo.count()).resolves.toBe(1);
+        });
+
+        it('should set createdAt and updatedAt', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users', timestamps: true });
+
+            const created = await repo.create({ name: 'Alice' });
+            const updated = await repo.updateById(created.id, { name: 'Alicia' });
+
+            expect(created.createdAt).toBeInstanceOf(Date);
+            expect(created.updatedAt).toBeUndefined();
+            expect(updated?.updatedAt).toBeInstanceOf(Date);
+            await expect(repo.findAll({ createdAt: { lte: new Date() } })).resolves.toHaveLength(1);
+        });
+    });
+
+    describe('Repository Hooks', () => {
+        it('should run create, update and delete hooks', async () => {
+            const calls: string[] = [];
+            const repo = adapter.createRepository<TestUser>({
+                name: 'users',
+                softDelete: true,
+                hooks: {
+                    beforeCreate: ({ data }) => ({ ...data, name: data.name?.toUpperCase() }),
+                    afterCreate: (entity) => void calls.push(`created:${entity.name}`),
+                    beforeUpdate: ({ data, operation, isBulk }) => {
+                        calls.push(`update:${operation}:${isBulk}`);
+                        return data;
+                    },
+                    beforeDelete: (id) => void calls.push(`delete:${id}`),
+                    afterSoftDelete: (success) => void calls.push(`softDeleted:${success}`),
+                },
+            });
+
+            await repo.create({ name: 'alice' });
+            await repo.updateMany({}, { age: 1 });
+            await repo.deleteMany({});
+
+            expect(calls).toEqual(['created:ALICE', 'update:update:true', 'delete:1', 'softDeleted:true']);
+        });
+    });
+
+    describe('withTransaction', () => {
+        it('should keep changes when the callback succeeds', async () => {
+            const result = await adapter.withTransaction(async (ctx) => {
+                const repo = ctx.createRepository<TestUser>({ name: 'users' });
+                return repo.create({ name: 'Alice' });
+            });
+
+            expect(result).toEqual({ id: 1, name: 'Alice' });
+            await expect(adapter.createRepository({ name: 'users' }).count()).resolves.toBe(1);
+        });
+
+        it('should roll back every change when the callback throws', async () => {
+            const repo = await seed();
+
+            await expect(
+                adapter.withTransaction(async (ctx) => {
+                    const users = ctx.createRepository<TestUser>({ name: 'users' });
+                    await users.deleteMany({});
+                    await users.create({ name: 'Dave' });
+                    throw new Error('boom');
+                }),
+            ).rejects.toThrow('boom');
+
+            expect((await repo.findAll()).map((u) => u.name)).toEqual(['Alice', 'bob', 'Carol']);
+            await expect(repo.create({ name: 'Dave' })).resolves.toMatchObject({ id: 4 });
+        });
+
+        it('should run transactions one at a time', async () => {
+            const order: string[] = [];
+            const run = (label: string) =>
+                adapter.withTransaction(async () => {
+                    order.push(`start:${label}`);
+                    await new Promise((resolve) => setTimeout(resolve, 5));
+                    order.push(`end:${label}`);
+                });
+
+            await Promise.all([run('a'), run('b')]);
+
+            expect(order).toEqual(['start:a', 'end:a', 'start:b', 'end:b']);
+        });
+    });
+
+    describe('versionField', () => {
+        it('should version rows and reject stale updates', async () => {
+            const repo = adapter.createRepository<TestUser & { version?: number }>({ name: 'users', versionField: 'version' });
+            const created = await repo.create({ name: 'Alice' });
+
+            const updated = await repo.updateById(created.id, { name: 'Alicia' }, { expectedVersion: 1 });
+            await repo.updateMany({}, { age: 30 });
+
+            expect(created.version).toBe(1);
+            expect(updated?.version).toBe(2);
+            await expect(repo.updateById(created.id, { name: 'Stale' }, { expectedVersion: 2 })).rejects.toThrow(
+                new OptimisticLockError('collection "users"', created.id, 2, 3),
+            );
+            await expect(repo.updateById(99, { name: 'Nobody' }, { expectedVersion: 1 })).resolves.toBeNull();
+            await expect(repo.findById(created.id)).resolves.toMatchObject({ name: 'Alicia', version: 3 });
+        });
+    });
+
+    describe('forEachBatch', () => {
+        it('should walk rows in primary key order and resume from a checkpoint', async () => {
+            const repo = adapter.createRepository<TestUser>({ name: 'users', softDelete: true });
+            await repo.insertMany(['a', 'b', 'c', 'd', 'e'].map((name) => ({ name })));
+            await repo.deleteById(2);
+
+            const seen: number[][] = [];
+            const first = await repo.forEachBatch({}, 2, (rows) => {
+                seen.push(rows.map((row) => row.id));
+            });
+            const resumed = await repo.forEachBatch({ name: { ne: 'e' } }, 2, () => undefined, { startAfter: 3 });
+
+            expect(seen).toEqual([[1, 3], [4, 5]]);
+            expect(first).toEqual({ batches: 2, processed: 4, checkpoint: 5 });
+            expect(resumed).toEqual({ batches: 1, processed: 1, checkpoint: 4 });
+        });
+
+        it('should roll back only the failed batch when transactions are on', async () => {
+            const repo = await seed();
+
+            await expect(
+                repo.forEachBatch({}, 2, async (rows, { repository }) => {
+                    for (const row of rows) {
+                        await repository.updateById(row.id, { age: 99 });
+                    }
+                    if (rows.some((row) => row.name === 'Carol')) throw new Error('boom');
+                }, { transaction: true }),
+            ).rejects.toThrow('boom');
+
+            expect((await repo.findAll()).map((u) => u.age)).toEqual([99, 99, null]);
+        });
+
+        it('should run batches in the current transaction when the repository belongs to one', async () => {
+            await seed();
+
+            await expect(
+                adapter.withTransaction(async (ctx) => {
+                    const repo = ctx.createRepository<TestUser>({ name: 'users' });
+                    await repo.forEachBatch({}, 2, async (rows, { repository }) => {
+                        expect(repository).toBe(repo);
+                        for (const row of rows) {
+                            await repository.updateById(row.id, { age: 1 });
+                        }
+                    }, { transaction: true });
+                    throw new Error('rollback');
+                }),
+            ).rejects.toThrow('rollback');
+
+            const repo = adapter.createRepository<TestUser>({ name: 'users' });
+            expect((await repo.findAll()).map((u) => u.age)).not.toContain(1);
+        });
+    });
+
+    describe('config mapping', () => {
+        it('should keep snake_case defaults for postgres entity configs', () => {
+            expect(fromPostgresEntityConfig({ table: 'orders', softDelete: true })).toMatchObject({
+                name: 'orders',
+                softDeleteField: 'deleted_at',
+                createdAtField: 'created_at',
+            });
+        });
+
+        it('should key mongo repositories by _id', () => {
+            expect(fromMongoRepositoryOptions({ model: { modelName: 'User' }, timestamps: true })).toEqual({
+                name: 'User',
+                primaryKey: '_id',
+                timestamps: true,
+            });
+            expect(() => fromMongoRepositoryOptions({ model: {} })).toThrow('modelName');
+        });
+    });
+});
@@ -0,0 +1,933 @@
+import { randomBytes } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common';
+import {
+    MemoryDatabaseConfig,
+    MemoryEntityConfig,
+    MemoryTransactionContext,
+    MongoRepositoryOptions,
+    PostgresEntityConfig,
+    Repository,
+    FindOptions,
+    UpdateOptions,
+    UpsertOptions,
+    PageResult,
+    PageOptions,
+    CursorPageResult,
+    CursorPageOptions,
+    StreamOptions,
+    BatchCheckpoint,
+    BatchHandler,
+    BatchOptions,
+    BatchResult,
+    AggregateOptions,
+    AggregateMetric,
+    AggregateRow,
+    TransactionOptions,
+    TransactionCallback,
+    HealthCheckResult,
+} from '../contracts/database.contracts';
+import {
+    CursorSortField,
+    normalizeCursorSort,
+    decodeCursor,
+    createCursorPageResult,
+    createPageResult,
+    parseSortString,
+} from '../utils/pagination.utils';
+import {
+    compareValues,
+    isOperatorObject,
+    matchesFilter,
+    mergeFilters,
+    validateFilter,
+} from '../utils/filter.utils';
+import { attachRelations, relationColumns } from '../utils/relation.utils';
+import { AggregateMetricSpec, normalizeAggregateOptions } from '../utils/aggregate.utils';
+import { runBatches } from '../utils/batch.utils';
+import { createHookRunner, createTimestamper } from '../utils/hook.utils';
+import { mapEntityFields } from '../utils/entity.utils';
+import { OptimisticLockError } from '../errors/optimistic-lock.error';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Deep copies plain objects, arrays and dates; other instances are shared.
+ * Unlike structuredClone, values keep the caller's realm and class prototypes.
+ */
+function cloneValue<V>(value: V): V {
+    if (value instanceof Date) {
+        return new Date(value.getTime()) as V;
+    }
+    if (Array.isArray(value)) {
+        return value.map(cloneValue) as V;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, nested]) => [key, cloneValue(nested)]),
+        ) as V;
+    }
+    return value;
+}
+
+/**
+ * Computes one aggregate metric over the rows of a group, with SQL semantics:
+ * null values are skipped, and sum/avg/min/max of no values is null.
+ */
+function computeMetric({ fn, field }: AggregateMetricSpec, rows: Row[]): unknown {
+    if (fn === 'count' && field === '*') return rows.length;
+
+    const values = rows.map((row) => row[field]).filter((value) => value !== null && value !== undefined);
+    if (fn === 'count') return values.length;
+    if (values.length === 0) return null;
+
+    if (fn === 'min' || fn === 'max') {
+        const sorted = [...values].sort(compareValues);
+        return cloneValue(fn === 'min' ? sorted[0] : sorted[sorted.length - 1]);
+    }
+
+    const sum = values.reduce((total: number, value) => total + Number(value), 0);
+    return fn === 'sum' ? sum : sum / values.length;
+}
+
+interface StoreSnapshot {
+    collections: Map<string, Map<string, Row>>;
+    sequences: Map<string, number>;
+}
+
+/**
+ * Maps a PostgreSQL entity config onto the in-memory store, keeping its snake_case defaults.
+ *
+ * @param cfg - PostgreSQL entity configuration
+ * @returns Equivalent in-memory entity configuration
+ */
+export function fromPostgresEntityConfig<T>(cfg: PostgresEntityConfig<T>): MemoryEntityConfig<T> {
+    return {
+        ...cfg,
+        name: cfg.table,
+        softDeleteField: cfg.softDeleteField ?? 'deleted_at',
+        createdAtField: cfg.createdAtField ?? 'created_at',
+        updatedAtField: cfg.updatedAtField ?? 'updated_at',
+    };
+}
+
+/**
+ * Maps MongoDB repository options onto the in-memory store.
+ * The collection is named after the model (or `collection`, or `name`) and keyed by `_id`.
+ *
+ * @param options - MongoDB repository options
+ * @returns Equivalent in-memory entity configuration
+ */
+export function fromMongoRepositoryOptions<T>(options: MongoRepositoryOptions<T>): MemoryEntityConfig<T> {
+    const { model, name: modelName, collection, ...rest } = options;
+    const compiled = model as { modelName?: string; collection?: { name?: string } } | undefined;
+    const name = collection ?? compiled?.collection?.name ?? modelName ?? compiled?.modelName;
+    if (!name) {
+        throw new Error('In-memory repositories need a Mongoose model with a modelName, or a name.');
+    }
+
+    return { ...rest, name, primaryKey: '_id' };
+}
+
+/**
+ * In-memory adapter for DatabaseKit.
+ * Implements the full Repository contract on top of plain JavaScript maps,
+ * so application tests can run without MongoDB or PostgreSQL.
+ *
+ * Rows are deep-copied on every read and write. Transactions snapshot the whole
+ * store and restore it when the callback throws; they run one at a time.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new InMemoryAdapter({ type: 'memory' });
+ * const repo = adapter.createRepository<User>({ name: 'users', timestamps: true });
+ * await repo.create({ email: 'john@example.com' });
+ * ```
+ */
+@Injectable()
+export class InMemoryAdapter {
+    private readonly logger = new Logger(InMemoryAdapter.name);
+    private readonly config: MemoryDatabaseConfig;
+    private collections = new Map<string, Map<string, Row>>();
+    private sequences = new Map<string, number>();
+    private connected = false;
+    private transactionQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(config: MemoryDatabaseConfig = { type: 'memory' }) {
+        this.config = config;
+    }
+
+    /**
+     * Marks the store as connected. There is nothing to open.
+     */
+    connect(): void {
+        if (!this.connected) {
+            this.connected = true;
+            this.logger.log(`In-memory store ready${this.config.connectionString ? ` (${this.config.connectionString})` : ''}`);
+        }
+    }
+
+    /**
+     * Marks the store as disconnected. Stored data is kept until reset().
+     */
+    async disconnect(): Promise<void> {
+        this.connected = false;
+    }
+
+    /**
+     * Checks if the store is connected.
+     */
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * Removes every collection and resets generated ids.
+     * Call between tests to start from an empty store.
+     */
+    reset(): void {
+        this.collections.clear();
+        this.sequences.clear();
+    }
+
+    /**
+     * Performs a health check on the in-memory store.
+     *
+     * @returns Health check result with status and response time
+     */
+    async healthCheck(): Promise<HealthCheckResult> {
+        return {
+            healthy: this.connected,
+            responseTimeMs: 0,
+            type: 'memory',
+            ...(this.connected ? {} : { error: 'In-memory store is not connected' }),
+        };
+    }
+
+    /**
+     * Creates a repository for an in-memory collection.
+     * The repository provides a standardized CRUD interface.
+     *
+     * @param cfg - Configuration for the entity/collection
+     * @param inTransaction - Set for repositories handed out by withTransaction()
+     * @returns Repository instance with CRUD methods
+     */
+    createRepository<T = unknown>(cfg: MemoryEntityConfig<T>, inTransaction = false): Repository<T> {
+        const name = cfg.name;
+        const pk = cfg.primaryKey || 'id';
+        const allowed = cfg.columns || [];
+        const baseFilter = cfg.defaultFilter || {};
+
+        // Soft delete configuration
+        const softDeleteEnabled = cfg.softDelete ?? false;
+        const softDeleteField = cfg.softDeleteField ?? 'deletedAt';
+
+        // Timestamp configuration
+        const timestampsEnabled = cfg.timestamps ?? false;
+        const createdAtField = cfg.createdAtField ?? 'createdAt';
+        const updatedAtField = cfg.updatedAtField ?? 'updatedAt';
+
+        // Runs a batch handler in its own transaction, or in the current one: transactions are
+        // serialized, so starting another from inside a transaction would wait for it forever
+        const inBatchTransaction = (work: (repository: Repository<T>) => Promise<void>): Promise<void> =>
+            inTransaction
+                ? work(repo)
+                : this.withTransaction((ctx) => work(ctx.createRepository<T>(cfg as MemoryEntityConfig)));
+
+        // Optimistic locking configuration
+        const versionField = cfg.versionField;
+
+        // Hooks configuration
+        const hooks = cfg.hooks;
+
+        // Create not-deleted filter for soft delete
+        const notDeletedFilter: Row = softDeleteEnabled
+            ? { [softDeleteField]: { isNull: true } }
+            : {};
+        const deletedFilter: Row = { [softDeleteField]: { isNotNull: true } };
+
+        // Resolved on every call so reset() and transaction rollbacks are picked up
+        const collection = (): Map<string, Row> => {
+            let rows = this.collections.get(name);
+            if (!rows) {
+                rows = new Map();
+                this.collections.set(name, rows);
+            }
+            return rows;
+        };
+
+        const toEntity = (row: Row): T => cloneValue(row) as T;
+
+        // Attaches the included relations, scanning each related collection once
+        const withRelations = (rows: T[], options?: FindOptions): Promise<T[]> =>
+            attachRelations(rows, options?.include, {
+                relations: cfg.relations,
+                primaryKey: pk,
+                defaultTargetKey: pk === '_id' ? '_id' : 'id',
+                target: `collection "${name}"`,
+                load: async (source, field, values, scope) => {
+                    const wanted = new Set(values.map(String));
+                    const columns = relationColumns(field, scope);
+                    const softDeleted = scope?.softDeleteField;
+                    return [...(this.collections.get(source)?.values() ?? [])]
+                        .filter((row) => wanted.has(String(row[field])))
+                        .filter((row) => !softDeleted || row[softDeleted] === null || row[softDeleted] === undefined)
+                        .map((row) => cloneValue(columns
+                            ? Object.fromEntries(columns.filter((column) => column in row).map((column) => [column, row[column]]))
+                            : row));
+                },
+            });
+
+        const { addCreatedAt, addUpdatedAt } = createTimestamper(timestampsEnabled, createdAtField, updatedAtField);
+
+        // Hook runners
+        const {
+            runBeforeCreate,
+            runAfterCreate,
+            runBeforeUpdate,
+            runAfterUpdate,
+            runBeforeDelete,
+            runAfterDelete,
+            runBeforeSoftDelete,
+            runAfterSoftDelete,
+            runBeforeRestore,
+            runAfterRestore,
+        } = createHookRunner<T>(hooks);
+
+        const assertFieldAllowed = (field: string): void => {
+            if (allowed.length && !allowed.includes(field)) {
+                throw new Error(
+                    `Field "${field}" is not allowed for collection "${name}". Add it to columns[] in config.`,
+                );
+            }
+        };
+
+        // Returns the stored rows matching a filter, in insertion order
+        const query = (filter: Row): Row[] => {
+            validateFilter(filter, allowed, { target: `collection "${name}"` });
+            return Array.from(collection().values()).filter((row) => matchesFilter(row, filter));
+        };
+
+        const findStored = (id: string | number, filter: Row): Row | undefined => {
+            validateFilter(filter, allowed, { target: `collection "${name}"` });
+            const row = collection().get(String(id));
+            return row && matchesFilter(row, filter) ? row : undefined;
+        };
+
+        const sortRows = (rows: Row[], sort?: string | Record<string, unknown>): Row[] => {
+            if (!sort) return rows;
+
+            const entries = typeof sort === 'string' ? Object.entries(parseSortString(sort)) : Object.entries(sort);
+            entries.forEach(([field]) => assertFieldAllowed(field));
+
+            return [...rows].sort((a, b) => {
+                for (const [field, dir] of entries) {
+                    const order = compareValues(a[field], b[field]);
+                    if (order !== 0) {
+                        return dir === -1 || String(dir).toLowerCase() === 'desc' ? -order : order;
+                    }
+                }
+                return 0;
+            });
+        };
+
+        // Keeps rows strictly after (or before) the cursor position
+        const isPastCursor = (
+            row: Row,
+            fields: CursorSortField[],
+            values: Row,
+            backward: boolean,
+        ): boolean => {
+            for (const { field, direction } of fields) {
+                const order = compareValues(row[field], values[field]);
+                if (order !== 0) {
+                    const ascending = (direction === 'asc') !== backward;
+                    return ascending ? order > 0 : order < 0;
+                }
+            }
+            return false;
+        };
+
+        const generateId = (): string | number => {
+            if (pk === '_id') {
+                return randomBytes(12).toString('hex');
+            }
+            const next = (this.sequences.get(name) ?? 0) + 1;
+            this.sequences.set(name, next);
+            return next;
+        };
+
+        const insertRow = (data: Row): Row => {
+            const row = cloneValue(data);
+            if (versionField) row[versionField] = 1;
+            if (row[pk] === undefined || row[pk] === null) {
+                row[pk] = generateId();
+            } else if (typeof row[pk] === 'number') {
+                // Keep generated ids ahead of explicitly provided ones
+                this.sequences.set(name, Math.max(this.sequences.get(name) ?? 0, row[pk] as number));
+            }
+
+            const key = String(row[pk]);
+            if (collection().has(key)) {
+                throw new Error(`Duplicate primary key "${key}" in collection "${name}".`);
+            }
+
+            collection().set(key, row);
+            return row;
+        };
+
+        const updateRow = (row: Row, update: Row): Row => {
+            const changes = cloneValue(update);
+            delete changes[pk];
+            if (versionField) changes[versionField] = Number(row[versionField] ?? 0) + 1;
+            Object.assign(row, changes);
+            return row;
+        };
+
+        const resolveConflictKeys = (options: UpsertOptions): string[] | undefined => {
+            const conflictKeys = options.conflictKeys ?? cfg.conflictKeys;
+            return conflictKeys?.length ? conflictKeys : undefined;
+        };
+
+        const pickKeys = (row: Row, keys: string[]): Row =>
+            Object.fromEntries(keys.map((key) => [key, row[key]]));
+
+        // Updates the first row matching the filter, or inserts a new one.
+        // Conflict keys act like a unique index, which soft-deleted rows still hold: a match on them is restored.
+        const upsertRow = (filter: Row, insert: Row, update: Row, updateColumns?: string[], byConflictKeys = false): Row => {
+            const [existing] = query(mergeFilters(baseFilter, byConflictKeys ? {} : notDeletedFilter, filter));
+
+            if (existing) {
+                const changes = updateColumns ? pickKeys(update, updateColumns) : { ...update };
+                if (byConflictKeys && softDeleteEnabled) changes[softDeleteField] = null;
+                return updateRow(existing, addUpdatedAt(changes));
+            }
+
+            return insertRow(addUpdatedAt(addCreatedAt(insert)));
+        };
+
+        // Soft deletes all rows matching the filter, firing soft delete hooks per row
+        const softDeleteWhere = async (filter: Row): Promise<number> => {
+            const rows = query(filter);
+
+            for (const row of rows) {
+                await runBeforeSoftDelete(row[pk] as string | number);
+            }
+
+            const now = new Date();
+            let affected = 0;
+            for (const row of rows) {
+                // A hook may have removed or changed the row in the meantime
+                const success = !!findStored(row[pk] as string | number, filter);
+                if (success) {
+                    row[softDeleteField] = now;
+                    affected++;
+                }
+                await runAfterSoftDelete(success);
+            }
+
+            return affected;
+        };
+
+        // Soft deletes a single row by primary key, firing soft delete hooks
+        const softDeleteOne = async (id: string | number): Promise<boolean> => {
+            await runBeforeSoftDelete(id);
+
+            const row = findStored(id, mergeFilters(baseFilter, notDeletedFilter));
+            if (row) {
+                row[softDeleteField] = new Date();
+            }
+            const success = !!row;
+
+            await runAfterSoftDelete(success);
+
+            return success;
+        };
+
+        const restoreOne = (row: Row): T => {
+            row[softDeleteField] = null;
+            return toEntity(row);
+        };
+
+        const repo: Repository<T> = {
+            async create(data: Partial<T>): Promise<T> {
+                // Run beforeCreate hook
+                let processedData = await runBeforeCreate(data);
+                processedData = addCreatedAt(processedData as Row) as Partial<T>;
+
+                const entity = toEntity(insertRow(processedData as Row));
+
+                // Run afterCreate hook
+                await runAfterCreate(entity);
+
+                return entity;
+            },
+
+            async findById(id: string | number, options?: FindOptions): Promise<T | null> {
+                const row = findStored(id, mergeFilters(baseFilter, notDeletedFilter));
+                const [entity] = await withRelations(row ? [toEntity(row)] : [], options);
+                return entity ?? null;
+            },
+
+            async findAll(filter: Row = {}, options?: FindOptions): Promise<T[]> {
+                return withRelations(query(mergeFilters(baseFilter, notDeletedFilter, filter)).map(toEntity), options);
+            },
+
+            async findOne(filter: Row): Promise<T | null> {
+                const [row] = query(mergeFilters(baseFilter, notDeletedFilter, filter));
+                return row ? toEntity(row) : null;
+            },
+
+            async findPage(options: PageOptions = {}): Promise<PageResult<T>> {
+                const { filter = {}, page = 1, limit = 10, sort } = options;
+                const rows = sortRows(query(mergeFilters(baseFilter, notDeletedFilter, filter)), sort);
+
+                const offset = Math.max(0, (page - 1) * limit);
+                const data = await withRelations(rows.slice(offset, offset + limit).map(toEntity), options);
+
+                return createPageResult(data, page, limit, rows.length);
+            },
+
+            async findCursor(options: CursorPageOptions = {}): Promise<CursorPageResult<T>> {
+                const { filter = {}, sort, limit = 10, after, before, withTotal = false } = options;
+                if (after && before) {
+                    throw new Error('findCursor accepts either "after" or "before", not both.');
+                }
+
+                const fields = normalizeCursorSort(sort, pk);
+                fields.filter(({ field }) => field !== pk).forEach(({ field }) => assertFieldAllowed(field));
+
+                const cursor = after ?? before;
+                const direction = after ? 'after' : before ? 'before' : undefined;
+                const backward = direction === 'before';
+
+                const matched = query(mergeFilters(baseFilter, notDeletedFilter, filter));
+                const values = cursor ? decodeCursor(cursor, fields) : undefined;
+                const rows = (values ? matched.filter((row) => isPastCursor(row, fields, values, backward)) : matched)
+                    .sort((a, b) => {
+                        for (const { field, direction: dir } of fields) {
+                            const order = compareValues(a[field], b[field]);
+                            if (order !== 0) {
+                                return (dir === 'asc') !== backward ? order : -order;
+                            }
+                        }
+                        return 0;
+                    })
+                    // Take one extra row to detect whether another page exists
+                    .slice(0, limit + 1)
+                    .map(toEntity);
+
+                return createCursorPageResult(rows, limit, fields, direction, withTotal ? matched.length : undefined);
+            },
+
+            async *stream(filter: Row = {}, options: StreamOptions = {}): AsyncIterable<T> {
+                const rows = sortRows(query(mergeFilters(baseFilter, notDeletedFilter, filter)), options.sort);
+                for (const row of rows) {
+                    yield toEntity(row);
+                }
+            },
+
+            async forEachBatch(
+                filter: Row,
+                batchSize: number,
+                handler: BatchHandler<T>,
+                options: BatchOptions = {},
+            ): Promise<BatchResult> {
+                const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+
+                return runBatches<T>(batchSize, options, {
+                    fetch: async (after, limit) =>
+                        query(mergedFilter)
+                            .filter((row) => after === undefined || compareValues(row[pk], after) > 0)
+                            .sort((a, b) => compareValues(a[pk], b[pk]))
+                            .slice(0, limit)
+                            .map(toEntity),
+                    keyOf: (row) => (row as Row)[pk] as BatchCheckpoint,
+                    run: async (rows, batch) => {
+                        if (!options.transaction) {
+                            await handler(rows, { batch, repository: repo });
+                            return;
+                        }
+                        await inBatchTransaction(async (repository) => {
+                            await handler(rows, { batch, repository });
+                        });
+                    },
+                });
+            },
+
+            async updateById(id: string | number, update: Partial<T>, options: UpdateOptions = {}): Promise<T | null> {
+                const { expectedVersion } = options;
+                if (expectedVersion !== undefined && !versionField) {
+                    throw new Error(`expectedVersion needs versionField in the config of collection "${name}".`);
+                }
+
+                // Run beforeUpdate hook
+                let processedUpdate = await runBeforeUpdate(update);
+                processedUpdate = addUpdatedAt(processedUpdate as Row) as Partial<T>;
+
+                const row = findStored(id, mergeFilters(baseFilter, notDeletedFilter));
+                if (row && expectedVersion !== undefined && row[versionField!] !== expectedVersion) {
+                    throw new OptimisticLockError(`collection "${name}"`, id, expectedVersion, Number(row[versionField!]));
+                }
+                const entity = row ? toEntity(updateRow(row, processedUpdate as Row)) : null;
+
+                // Run afterUpdate hook
+                await runAfterUpdate(entity);
+
+                return entity;
+            },
+
+            async deleteById(id: string | number): Promise<boolean> {
+                // If soft delete is enabled, update instead of delete
+                if (softDeleteEnabled) {
+                    return softDeleteOne(id);
+                }
+
+                // Run beforeDelete hook
+                await runBeforeDelete(id);
+
+                const row = findStored(id, mergeFilters(baseFilter, notDeletedFilter));
+                const success = !!row && collection().delete(String(id));
+
+                // Run afterDelete hook
+                await runAfterDelete(success);
+
+                return success;
+            },
+
+            async count(filter: Row = {}): Promise<number> {
+                return query(mergeFilters(baseFilter, notDeletedFilter, filter)).length;
+            },
+
+            async exists(filter: Row = {}): Promise<boolean> {
+                return query(mergeFilters(baseFilter, notDeletedFilter, filter)).length > 0;
+            },
+
+            // -----------------------------
+            // Bulk Operations
+            // -----------------------------
+
+            async insertMany(data: Partial<T>[]): Promise<T[]> {
+                if (data.length === 0) return [];
+
+                // Run beforeCreate hook and add createdAt timestamp to each record
+                const timestampedData: Row[] = [];
+                for (const item of data) {
+                    const processedItem = await runBeforeCreate(item, true);
+                    timestampedData.push(addCreatedAt(processedItem as Row));
+                }
+
+                // Insert all rows or none, like a single multi-row INSERT
+                const keys = timestampedData.map((row) => row[pk]);
+                const duplicate = keys.find((key, i) => key !== undefined && key !== null && keys.indexOf(key) !== i);
+                if (duplicate !== undefined) {
+                    throw new Error(`Duplicate primary key "${String(duplicate)}" in collection "${name}".`);
+                }
+                const existing = keys.find((key) => key !== undefined && key !== null && collection().has(String(key)));
+                if (existing !== undefined) {
+                    throw new Error(`Duplicate primary key "${String(existing)}" in collection "${name}".`);
+                }
+
+                const entities = timestampedData.map((row) => toEntity(insertRow(row)));
+
+                // Run afterCreate hook for each created entity
+                for (const entity of entities) {
+                    await runAfterCreate(entity);
+                }
+
+                return entities;
+            },
+
+            async updateMany(filter: Row, update: Partial<T>): Promise<number> {
+                // Run beforeUpdate hook once, the same update applies to every match
+                const processedUpdate = await runBeforeUpdate(update, 'update', true);
+                const timestampedUpdate = addUpdatedAt(processedUpdate as Row);
+
+                const rows = query(mergeFilters(baseFilter, notDeletedFilter, filter));
+                const entities = rows.map((row) => toEntity(updateRow(row, timestampedUpdate)));
+
+                // Run afterUpdate hook for each updated entity
+                for (const entity of entities) {
+                    await runAfterUpdate(entity);
+                }
+
+                return entities.length;
+            },
+
+            async deleteMany(filter: Row): Promise<number> {
+                const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+
+                // If soft delete is enabled, update instead of delete
+                if (softDeleteEnabled) {
+                    return softDeleteWhere(mergedFilter);
+                }
+
+                const ids = query(mergedFilter).map((row) => row[pk] as string | number);
+
+                // Run beforeDelete hook for each matched row
+                for (const id of ids) {
+                    await runBeforeDelete(id);
+                }
+
+                let affected = 0;
+                for (const id of ids) {
+                    const success = !!findStored(id, mergedFilter) && collection().delete(String(id));
+                    if (success) affected++;
+
+                    // Run afterDelete hook for each matched row
+                    await runAfterDelete(success);
+                }
+
+                return affected;
+            },
+
+            // -----------------------------
+            // Advanced Query Operations
+            // -----------------------------
+
+            async upsert(
+                filter: Row,
+                data: Partial<T>,
+                options: UpsertOptions = {},
+            ): Promise<T> {
+                // Run beforeUpdate hook with the upsert operation
+                const processedData = await runBeforeUpdate(data, 'upsert');
+
+                const row = { ...filter, ...processedData } as Row;
+                let entity: T;
+
+                // Conflict keys act like a unique index: match on their values only
+                const conflictKeys = resolveConflictKeys(options);
+                if (conflictKeys) {
+                    Object.entries(filter).forEach(([key, value]) => {
+                        if (key.startsWith('$') || isOperatorObject(value)) {
+                            throw new Error(
+                                `upsert with conflictKeys on collection "${name}" requires a plain equality filter.`,
+                            );
+                        }
+                        assertFieldAllowed(key);
+                    });
+                    entity = toEntity(upsertRow(pickKeys(row, conflictKeys), row, row, options.updateColumns, true));
+                } else {
+                    entity = toEntity(upsertRow(filter, row, processedData as Row, options.updateColumns));
+                }
+
+                // Run afterUpdate hook
+                await runAfterUpdate(entity);
+
+                return entity;
+            },
+
+            async bulkUpsert(rows: Partial<T>[], options: UpsertOptions = {}): Promise<T[]> {
+                if (rows.length === 0) return [];
+
+                const conflictKeys = resolveConflictKeys(options);
+                if (!conflictKeys) {
+                    throw new Error(
+                        `bulkUpsert on collection "${name}" requires conflictKeys in options or entity config.`,
+                    );
+                }
+                conflictKeys.forEach(assertFieldAllowed);
+
+                // Run beforeUpdate hook for each row with the upsert operation
+                const processedRows: Row[] = [];
+                for (const row of rows) {
+                    const processedRow = await runBeforeUpdate(row, 'upsert', true);
+                    processedRows.push(processedRow as Row);
+                }
+
+                const entities = processedRows.map((row) =>
+                    toEntity(upsertRow(pickKeys(row, conflictKeys), row, row, options.updateColumns, true)),
+                );
+
+                // Run afterUpdate hook for each upserted entity
+                for (const entity of entities) {
+                    await runAfterUpdate(entity);
+                }
+
+                return entities;
+            },
+
+            async distinct<K extends keyof T>(field: K, filter: Row = {}): Promise<T[K][]> {
+                const values: T[K][] = [];
+                for (const row of query(mergeFilters(baseFilter, notDeletedFilter, filter))) {
+                    const value = row[String(field)] as T[K];
+                    if (!values.some((existing) => compareValues(existing, value) === 0)) {
+                        values.push(cloneValue(value));
+                    }
+                }
+                return values;
+            },
+
+            async select<K extends keyof T>(filter: Row, fields: K[]): Promise<Pick<T, K>[]> {
+                return query(mergeFilters(baseFilter, notDeletedFilter, filter)).map((row) =>
+                    cloneValue(pickKeys(row, fields.map(String))) as Pick<T, K>,
+                );
+            },
+
+            async aggregate<
+                G extends string = never,
+                M extends Record<string, AggregateMetric> = Record<string, AggregateMetric>,
+            >(options: AggregateOptions<Row, G, M>): Promise<AggregateRow<T, G, M>[]> {
+                const { groupBy, metrics, having, sort, limit } = normalizeAggregateOptions(
+                    options,
+                    allowed,
+                    `collection "${name}"`,
+                );
+
+                const groups = new Map<string, Row[]>();
+                for (const row of query(mergeFilters(baseFilter, notDeletedFilter, options.filter ?? {}))) {
+                    const key = JSON.stringify(groupBy.map((field) => row[field] ?? null));
+                    groups.set(key, [...(groups.get(key) ?? []), row]);
+                }
+                // Without groupBy, a single row summarizes every match, even when nothing matched
+                if (groupBy.length === 0 && groups.size === 0) groups.set('[]', []);
+
+                let rows: Row[] = [...groups.values()].map((members) => ({
+                    ...Object.fromEntries(groupBy.map((field) => [field, cloneValue(members[0][field] ?? null)])),
+                    ...Object.fromEntries(metrics.map((metric) => [metric.name, computeMetric(metric, members)])),
+                }));
+
+                if (having) rows = rows.filter((row) => matchesFilter(row, having));
+                if (sort.length) {
+                    rows.sort((a, b) => {
+                        for (const { field, direction } of sort) {
+                            const order = compareValues(a[field], b[field]);
+                            if (order !== 0) return direction === 'desc' ? -order : order;
+                        }
+                        return 0;
+                    });
+                }
+
+                return (limit !== undefined ? rows.slice(0, limit) : rows) as AggregateRow<T, G, M>[];
+            },
+
+            // -----------------------------
+            // Soft Delete Operations
+            // -----------------------------
+
+            softDelete: softDeleteEnabled
+                ? async (id: string | number): Promise<boolean> => softDeleteOne(id)
+                : undefined,
+
+            softDeleteMany: softDeleteEnabled
+                ? async (filter: Row): Promise<number> => {
+                    const mergedFilter = mergeFilters(baseFilter, notDeletedFilter, filter);
+                    return softDeleteWhere(mergedFilter);
+                }
+                : undefined,
+
+            restore: softDeleteEnabled
+                ? async (id: string | number): Promise<T | null> => {
+                    // Run beforeRestore hook
+                    await runBeforeRestore(id);
+
+                    const row = findStored(id, mergeFilters(baseFilter, deletedFilter));
+                    const entity = row ? restoreOne(row) : null;
+
+                    // Run afterRestore hook
+                    await runAfterRestore(entity);
+
+                    return entity;
+                }
+                : undefined,
+
+            restoreMany: softDeleteEnabled
+                ? async (filter: Row): Promise<number> => {
+                    const mergedFilter = mergeFilters(baseFilter, deletedFilter, filter);
+                    const rows = query(mergedFilter);
+
+                    // Run beforeRestore hook for each matched row
+                    for (const row of rows) {
+                        await runBeforeRestore(row[pk] as string | number);
+                    }
+
+                    const entities = rows.map(restoreOne);
+
+                    // Run afterRestore hook for each restored entity
+                    for (const entity of entities) {
+                        await runAfterRestore(entity);
+                    }
+
+                    return entities.length;
+                }
+                : undefined,
+
+            findAllWithDeleted: softDeleteEnabled
+                ? async (filter: Row = {}): Promise<T[]> => {
+                    // Ignore soft delete filter, include all records
+                    return query(mergeFilters(baseFilter, filter)).map(toEntity);
+                }
+                : undefined,
+
+            findDeleted: softDeleteEnabled
+                ? async (filter: Row = {}): Promise<T[]> => {
+                    // Only find deleted records
+                    return query(mergeFilters(baseFilter, deletedFilter, filter)).map(toEntity);
+                }
+                : undefined,
+        };
+
+        return cfg.fieldNames ? mapEntityFields(repo, cfg.fieldNames) : repo;
+    }
+
+    /**
+     * Executes a callback within an in-memory transaction.
+     * The store is snapshotted first and restored if the callback throws.
+     * Transactions are serialized, so do not start one from inside another.
+     *
+     * @param callback - Function to execute within the transaction
+     * @param _options - Accepted for API compatibility; isolation, timeout and retries do not apply in memory
+     * @returns Result of the callback function
+     *
+     * @example
+     * ```typescript
+     * await adapter.withTransaction(async (ctx) => {
+     *   const usersRepo = ctx.createRepository<User>({ name: 'users' });
+     *   await usersRepo.create({ name: 'John' });
+     *   throw new Error('rollback'); // users is left unchanged
+     * });
+     * ```
+     */
+    async withTransaction<TResult>(
+        callback: TransactionCallback<MemoryTransactionContext, TResult>,
+        _options: TransactionOptions = {},
+    ): Promise<TResult> {
+        const run = async (): Promise<TResult> => {
+            const snapshot = this.snapshot();
+            try {
+                const result = await callback({
+                    transaction: undefined,
+                    createRepository: <T>(config: MemoryEntityConfig) => this.createRepository<T>(config, true),
+                });
+
+                this.logger.debug('Transaction committed successfully');
+                return result;
+            } catch (error) {
+                this.restore(snapshot);
+                this.logger.warn(`Transaction rolled back: ${(error as Error).message}`);
+                throw error;
+            }
+        };
+
+        const result = this.transactionQueue.then(run, run);
+        this.transactionQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    private snapshot(): StoreSnapshot {
+        return {
+            collections: new Map(
+                Array.from(this.collections, ([name, rows]) => [
+                    name,
+                    new Map(Array.from(rows, ([key, row]) => [key, cloneValue(row)])),
+                ]),
+            ),
+            sequences: new Map(this.sequences),
+        };
+    }
+
+    private restore(snapshot: StoreSnapshot): void {
+        this.collections = snapshot.collections;
+        this.sequences = snapshot.sequences;
+    }
+}
@@ -0,0 +1,125 @@
+import { MongoMigrationRunner } from './mongo-migration.runner';
+import { MongoAdapter } from './mongo.adapter';
+import { MongoMigration } from '../contracts/database.contracts';
+
+describe('MongoMigrationRunner', () => {
+    const createDb = (applied: Array<{ name: string; batch: number }> = []) => {
+        const changelog = {
+            find: jest.fn(() => ({
+                sort: jest.fn(() => ({ toArray: jest.fn().mockResolvedValue([...applied]) })),
+            })),
+            insertOne: jest.fn().mockResolvedValue({}),
+            deleteOne: jest.fn().mockResolvedValue({}),
+        };
+        const locks = {
+            updateOne: jest.fn().mockResolvedValue({}),
+            deleteOne: jest.fn().mockResolvedValue({}),
+        };
+        const db = {
+            collection: jest.fn((name: string) =>
+                name === '_databasekit_migrations_lock' ? locks : changelog,
+            ),
+        };
+        return { db, changelog, locks };
+    };
+
+    const createAdapter = (db: unknown) =>
+        ({
+            connect: jest.fn().mockResolvedValue(undefined),
+            getDb: jest.fn(() => db),
+            createRepository: jest.fn(),
+            withTransaction: jest.fn(async (cb: (ctx: unknown) => Promise<unknown>) =>
+                cb({ transaction: 'session', createRepository: jest.fn() }),
+            ),
+        }) as unknown as MongoAdapter;
+
+    const createMigration = (name: string): MongoMigration & { up: jest.Mock; down: jest.Mock } => ({
+        name,
+        up: jest.fn(),
+        down: jest.fn(),
+    });
+
+    it('should report applied and pending migrations', async () => {
+        const { db } = createDb([{ name: '001_init', batch: 1 }]);
+        const runner = new MongoMigrationRunner(createAdapter(db), {
+            migrations: [createMigration('002_index'), createMigration('001_init')],
+        });
+
+        await expect(runner.status()).resolves.toEqual({
+            completed: ['001_init'],
+            pending: ['002_index'],
+        });
+    });
+
+    it('should apply pending migrations in a new batch while holding the lock', async () => {
+        const { db, changelog, locks } = createDb([{ name: '001_init', batch: 1 }]);
+        const first = createMigration('001_init');
+        const second = createMigration('002_index');
+        const runner = new MongoMigrationRunner(createAdapter(db), { migrations: [first, second] });
+
+        const result = await runner.up();
+
+        expect(first.up).not.toHaveBeenCalled();
+        expect(second.up).toHaveBeenCalledWith(
+            expect.objectContaining({ db, transaction: undefined }),
+        );
+        expect(changelog.insertOne).toHaveBeenCalledWith(
+            expect.objectContaining({ name: '002_index', batch: 2 }),
+        );
+        expect(locks.updateOne).toHaveBeenCalledWith(
+            expect.objectContaining({ _id: 'lock' }),
+            expect.any(Object),
+            { upsert: true },
+        );
+        expect(locks.deleteOne).toHaveBeenCalledWith(expect.objectContaining({ _id: 'lock' }));
+        expect(result).toEqual({ batch: 2, migrations: ['002_index'] });
+    });
+
+    it('should run scripts inside a transaction when transactional is enabled', async () => {
+        const { db } = createDb();
+        const migration = createMigration('001_init');
+        const adapter = createAdapter(db);
+        const runner = new MongoMigrationRunner(adapter, { migrations: [migration], transactional: true });
+
+        await runner.up();
+
+        expect(adapter.withTransaction).toHaveBeenCalled();
+        expect(migration.up).toHaveBeenCalledWith(expect.objectContaining({ db, transaction: 'session' }));
+    });
+
+    it('should revert the latest migrations and remove them from the changelog', async () => {
+        const { db, changelog } = createDb([
+            { name: '001_init', batch: 1 },
+            { name: '002_index', batch: 2 },
+        ]);
+        const first = createMigration('001_init');
+        const second = createMigration('002_index');
+        const runner = new MongoMigrationRunner(createAdapter(db), { migrations: [first, second] });
+
+        const result = await runner.down(1);
+
+        expect(second.down).toHaveBeenCalled();
+        expect(first.down).not.toHaveBeenCalled();
+        expect(changelog.deleteOne).toHaveBeenCalledWith({ name: '002_index' });
+        expect(result).toEqual({ batch: 2, migrations: ['002_index'] });
+    });
+
+    it('should fail when the lock is held past lockTimeoutMs', async () => {
+        const { db, locks } = createDb();
+        locks.updateOne.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: 11000 }));
+        const runner = new MongoMigrationRunner(createAdapter(db), { migrations: [], lockTimeoutMs: 0 });
+
+        await expect(runner.up()).rejects.toThrow('Could not acquire MongoDB migration lock within 0ms.');
+    });
+
+    it('should release the lock when a migration fails', async () => {
+        const { db, changelog, locks } = createDb();
+        const migration = createMigration('001_init');
+        migration.up.mockRejectedValue(new Error('boom'));
+        const runner = new MongoMigrationRunner(createAdapter(db), { migrations: [migration] });
+
+        await expect(runner.up()).rejects.toThrow('boom');
+        expect(changelog.insertOne).not.toHaveBeenCalled();
+        expect(locks.deleteOne).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,296 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { hostname } from 'os';
+import * as path from 'path';
+import type mongoose from 'mongoose';
+import {
+    MigrationResult,
+    MigrationStatus,
+    MongoMigration,
+    MongoMigrationContext,
+    MongoMigrationOptions,
+    MongoRepositoryOptions,
+} from '../contracts/database.contracts';
+import type { MongoAdapter } from './mongo.adapter';
+
+type Db = mongoose.mongo.Db;
+
+interface ChangelogEntry {
+    name: string;
+    batch: number;
+    appliedAt: Date;
+}
+
+interface LockDocument {
+    _id: string;
+    owner: string;
+    lockedAt: Date;
+    expiresAt: Date;
+}
+
+const LOCK_ID = 'lock';
+const LOCK_RETRY_MS = 500;
+
+/**
+ * Versioned data and index migrations for MongoDB.
+ *
+ * Applied migrations are recorded in a changelog collection
+ * (`_databasekit_migrations` by default). A lock document in
+ * `<collection>_lock` ensures only one instance migrates at a time.
+ *
+ * @example
+ * ```typescript
+ * // migrations/20240101000000_add_email_index.ts
+ * export async function up({ db }: MongoMigrationContext) {
+ *   await (db as Db).collection('users').createIndex({ email: 1 }, { unique: true });
+ * }
+ * export async function down({ db }: MongoMigrationContext) {
+ *   await (db as Db).collection('users').dropIndex('email_1');
+ * }
+ * ```
+ */
+export class MongoMigrationRunner {
+    private readonly logger = new Logger(MongoMigrationRunner.name);
+    private readonly directory: string;
+    private readonly collectionName: string;
+    private readonly extension: 'ts' | 'js';
+    private readonly transactional: boolean;
+    private readonly lockTimeoutMs: number;
+    private readonly lockTtlMs: number;
+
+    constructor(
+        private readonly adapter: MongoAdapter,
+        private readonly options: MongoMigrationOptions = {},
+    ) {
+        this.directory = options.directory ?? './migrations';
+        this.collectionName = options.collectionName ?? '_databasekit_migrations';
+        this.extension = options.extension ?? 'ts';
+        this.transactional = options.transactional ?? false;
+        this.lockTimeoutMs = options.lockTimeoutMs ?? 60000;
+        this.lockTtlMs = options.lockTtlMs ?? 600000;
+    }
+
+    /**
+     * Lists applied and pending migrations.
+     *
+     * @returns Completed and pending migration names
+     */
+    async status(): Promise<MigrationStatus> {
+        const db = await this.getDb();
+        const [migrations, applied] = await Promise.all([this.loadMigrations(), this.getApplied(db)]);
+        const appliedNames = new Set(applied.map((entry) => entry.name));
+
+        return {
+            completed: applied.map((entry) => entry.name),
+            pending: migrations.filter((m) => !appliedNames.has(m.name)).map((m) => m.name),
+        };
+    }
+
+    /**
+     * Applies all pending migrations as a new batch.
+     *
+     * @returns The batch number and the applied migration names
+     */
+    async up(): Promise<MigrationResult> {
+        const db = await this.getDb();
+
+        return this.withLock(db, async () => {
+            const [migrations, applied] = await Promise.all([this.loadMigrations(), this.getApplied(db)]);
+            const appliedNames = new Set(applied.map((entry) => entry.name));
+            const pending = migrations.filter((m) => !appliedNames.has(m.name));
+            const lastBatch = applied.reduce((max, entry) => Math.max(max, entry.batch), 0);
+
+            if (!pending.length) {
+                this.logger.log('Database is up to date');
+                return { batch: lastBatch, migrations: [] };
+            }
+
+            const batch = lastBatch + 1;
+            const changelog = db.collection<ChangelogEntry>(this.collectionName);
+
+            for (const migration of pending) {
+                await this.run(db, migration, 'up');
+                await changelog.insertOne({ name: migration.name, batch, appliedAt: new Date() });
+                this.logger.log(`Applied migration ${migration.name}`);
+            }
+
+            return { batch, migrations: pending.map((m) => m.name) };
+        });
+    }
+
+    /**
+     * Reverts the most recently applied migrations one at a time.
+     *
+     * @param steps - Number of migrations to undo (default: 1)
+     * @returns The last batch touched and the reverted migration names
+     */
+    async down(steps = 1): Promise<MigrationResult> {
+        if (!Number.isInteger(steps) || steps < 1) {
+            throw new Error(`rollback steps must be a positive integer, got ${steps}.`);
+        }
+
+        const db = await this.getDb();
+
+        return this.withLock(db, async () => {
+            const [migrations, applied] = await Promise.all([this.loadMigrations(), this.getApplied(db)]);
+            const byName = new Map(migrations.map((m) => [m.name, m]));
+            const changelog = db.collection<ChangelogEntry>(this.collectionName);
+            const reverted: string[] = [];
+            let batch = 0;
+
+            for (const entry of applied.reverse().slice(0, steps)) {
+                const migration = byName.get(entry.name);
+                if (!migration) {
+                    throw new Error(`Migration "${entry.name}" is recorded as applied but its script is missing.`);
+                }
+                if (!migration.down) {
+                    throw new Error(`Migration "${entry.name}" has no down() and cannot be rolled back.`);
+                }
+
+                await this.run(db, migration, 'down');
+                await changelog.deleteOne({ name: entry.name });
+                this.logger.log(`Reverted migration ${entry.name}`);
+
+                reverted.push(entry.name);
+                batch = entry.batch;
+            }
+
+            return { batch, migrations: reverted };
+        });
+    }
+
+    /**
+     * Creates a new, timestamped migration file in the configured directory.
+     *
+     * @param name - Descriptive migration name (e.g. "add_email_index")
+     * @returns Path of the created file
+     */
+    async make(name: string): Promise<string> {
+        const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+        const file = path.resolve(this.directory, `${timestamp}_${name}.${this.extension}`);
+        const template = this.extension === 'ts'
+            ? [
+                "import { MongoMigrationContext } from '@ciscode/database-kit';",
+                '',
+                'export async function up({ db }: MongoMigrationContext): Promise<void> {}',
+                '',
+                'export async function down({ db }: MongoMigrationContext): Promise<void> {}',
+                '',
+            ]
+            : [
+                'exports.up = async ({ db }) => {};',
+                '',
+                'exports.down = async ({ db }) => {};',
+                '',
+            ];
+
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, template.join('\n'), { flag: 'wx' });
+
+        return file;
+    }
+
+    private async getDb(): Promise<Db> {
+        await this.adapter.connect();
+        return this.adapter.getDb();
+    }
+
+    private async getApplied(db: Db): Promise<ChangelogEntry[]> {
+        return db
+            .collection<ChangelogEntry>(this.collectionName)
+            .find({}, { projection: { _id: 0 } })
+            .sort({ batch: 1, name: 1 })
+            .toArray();
+    }
+
+    /**
+     * Returns migrations in name order, from `options.migrations` or the directory.
+     */
+    private async loadMigrations(): Promise<MongoMigration[]> {
+        if (this.options.migrations) {
+            return [...this.options.migrations].sort((a, b) => a.name.localeCompare(b.name));
+        }
+
+        let files: string[];
+        try {
+            files = await fs.readdir(this.directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const scripts = files
+            .filter((file) => /\.(c?js|ts)$/.test(file) && !file.endsWith('.d.ts'))
+            .sort();
+
+        const migrations: MongoMigration[] = [];
+        for (const file of scripts) {
+            const mod = await import(path.resolve(this.directory, file));
+            const script = (mod.default && typeof mod.default.up === 'function' ? mod.default : mod) as
+                Partial<MongoMigration>;
+
+            if (typeof script.up !== 'function') {
+                throw new Error(`Migration file "${file}" must export an up() function.`);
+            }
+
+            migrations.push({ name: file, up: script.up, down: script.down });
+        }
+
+        return migrations;
+    }
+
+    private async run(db: Db, migration: MongoMigration, direction: 'up' | 'down'): Promise<void> {
+        const script = migration[direction]!.bind(migration);
+
+        if (this.transactional) {
+            await this.adapter.withTransaction(async (ctx) => {
+                await script({ ...ctx, db });
+            });
+            return;
+        }
+
+        const context: MongoMigrationContext = {
+            transaction: undefined,
+            createRepository: <T>(opts: MongoRepositoryOptions) => this.adapter.createRepository<T>(opts),
+            db,
+        };
+        await script(context);
+    }
+
+    /**
+     * Runs the callback while holding the migration lock document.
+     * Waits up to `lockTimeoutMs` for another instance; locks older than `lockTtlMs` are taken over.
+     */
+    private async withLock<R>(db: Db, callback: () => Promise<R>): Promise<R> {
+        const locks = db.collection<LockDocument>(`${this.collectionName}_lock`);
+        const owner = `${hostname()}:${process.pid}:${randomUUID()}`;
+        const deadline = Date.now() + this.lockTimeoutMs;
+
+        for (;;) {
+            const now = new Date();
+            try {
+                // Matches only a missing or stale lock; a live lock makes the upsert collide on _id
+                await locks.updateOne(
+                    { _id: LOCK_ID, expiresAt: { $lt: now } },
+                    { $set: { owner, lockedAt: now, expiresAt: new Date(now.getTime() + this.lockTtlMs) } },
+                    { upsert: true },
+                );
+                break;
+            } catch (error) {
+                if ((error as { code?: number }).code !== 11000) throw error;
+            }
+
+            if (Date.now() >= deadline) {
+                throw new Error(`Could not acquire MongoDB migration lock within ${this.lockTimeoutMs}ms.`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+        }
+
+        try {
+            return await callback();
+        } finally {
+            await locks.deleteOne({ _id: LOCK_ID, owner });
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import { MongoAdapter } from './mongo.adapter';
 import { MongoDatabaseConfig, MongoTransactionContext } from '../contracts/database.contracts';
+import { OptimisticLockError } from '../errors/optimistic-lock.error';
 
 // Mock mongoose
 jest.mock('mongoose', () => {
@@ -13,13 +14,16 @@ jest.mock('mongoose', () => {
     const mockConnection = {
         readyState: 0,
         on: jest.fn(),
+        openUri: jest.fn(),
+        close: jest.fn().mockResolvedValue(undefined),
+        startSession: jest.fn().mockResolvedValue(mockSession),
+        models: {} as Record<string, unknown>,
+        model: jest.fn((name: string) => ({ modelName: name })),
     };
+    mockConnection.openUri.mockResolvedValue(mockConnection);
 
     return {
-        connect: jest.fn().mockResolvedValue({}),
-        disconnect: jest.fn().mockResolvedValue(undefined),
-        startSession: jest.fn().mockResolvedValue(mockSession),
-        connection: mockConnection,
+        createConnection: jest.fn(() => mockConnection),
         set: jest.fn(),
     };
 });
@@ -57,7 +61,8 @@ describe('MongoAdapter', () => {
         it('should connect to MongoDB', async () => {
             const mongoose = await import('mongoose');
             await adapter.connect();
-            expect(mongoose.connect).toHaveBeenCalledWith(
+            expect(mongoose.createConnection).toHaveBeenCalledWith();
+            expect(adapter.getConnection().openUri).toHaveBeenCalledWith(
                 mockConfig.connectionString,
                 expect.objectContaining({
                     maxPoolSize: 10,
@@ -67,19 +72,18 @@ describe('MongoAdapter', () => {
         });
 
         it('should reuse existing connection', async () => {
-            const mongoose = await import('mongoose');
             await adapter.connect();
             await adapter.connect();
-            expect(mongoose.connect).toHaveBeenCalledTimes(1);
+            expect(adapter.getConnection().openUri).toHaveBeenCalledTimes(1);
         });
     });
 
     describe('disconnect', () => {
-        it('should disconnect from MongoDB', async () => {
-            const mongoose = await import('mongoose');
+        it('should close the adapter connection', async () => {
             await adapter.connect();
+            const connection = adapter.getConnection();
             await adapter.disconnect();
-            expect(mongoose.disconnect).toHaveBeenCalled();
+            expect(connection.close).toHaveBeenCalled();
         });
     });
 
@@ -180,11 +184,313 @@ describe('MongoAdapter', () => {
             expect(mockModel.deleteMany).toHaveBeenCalledWith({ status: 'deleted' }, {});
             expect(result).toBe(3);
         });
+
+        it('should pass updateColumns through $set and the rest through $setOnInsert on upsert', async () => {
+            const mockModel = {
+                findOneAndUpdate: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue({ _id: '1', email: 'a@b.c', name: 'A', role: 'user' }),
+                    }),
+                }),
+            };
+
+            const repo = adapter.createRepository({ model: mockModel });
+            await repo.upsert({ email: 'a@b.c' }, { name: 'A', role: 'user' }, { updateColumns: ['name'] });
+
+            expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+                { email: 'a@b.c' },
+                { $set: { name: 'A' }, $setOnInsert: { role: 'user' } },
+                { upsert: true, new: true },
+            );
+        });
+
+        it('should bulkUpsert documents with bulkWrite keyed on conflictKeys', async () => {
+            const mockDocs = [
+                { _id: '2', email: 'd@e.f', name: 'D' },
+                { _id: '1', email: 'a@b.c', name: 'A' },
+            ];
+            const mockModel = {
+                bulkWrite: jest.fn().mockResolvedValue({}),
+                find: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue(mockDocs),
+                    }),
+                }),
+            };
+
+            const afterUpdate = jest.fn();
+            const repo = adapter.createRepository({ model: mockModel, hooks: { afterUpdate } });
+            const result = await repo.bulkUpsert(
+                [{ email: 'a@b.c', name: 'A' }, { email: 'd@e.f', name: 'D' }],
+                { conflictKeys: ['email'] },
+            );
+
+            expect(mockModel.bulkWrite).toHaveBeenCalledWith(
+                [
+                    { updateOne: { filter: { email: 'a@b.c' }, update: { $set: { name: 'A' } }, upsert: true } },
+                    { updateOne: { filter: { email: 'd@e.f' }, update: { $set: { name: 'D' } }, upsert: true } },
+                ],
+                {},
+            );
+            expect(mockModel.find).toHaveBeenCalledWith({ $or: [{ email: 'a@b.c' }, { email: 'd@e.f' }] });
+            expect(result).toEqual([mockDocs[1], mockDocs[0]]);
+            expect(afterUpdate).toHaveBeenCalledTimes(2);
+        });
+
+        it('should restore soft-deleted documents matched by bulkUpsert', async () => {
+            const mockModel = {
+                bulkWrite: jest.fn().mockResolvedValue({}),
+                find: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue([{ _id: '1', email: 'a@b.c' }]),
+                    }),
+                }),
+            };
+
+            const repo = adapter.createRepository({ model: mockModel, softDelete: true });
+            await repo.bulkUpsert([{ email: 'a@b.c', name: 'A', deletedAt: new Date() } as never], {
+                conflictKeys: ['email'],
+            });
+
+            expect(mockModel.bulkWrite.mock.calls[0][0][0].updateOne).toEqual({
+                filter: { email: 'a@b.c' },
+                update: { $set: { name: 'A' }, $unset: { deletedAt: 1 } },
+                upsert: true,
+            });
+            expect(mockModel.find).toHaveBeenCalledWith({ $or: [{ email: 'a@b.c' }] });
+        });
+
+        it('should fall back to the repository conflictKeys on bulkUpsert', async () => {
+            const mockModel = {
+                bulkWrite: jest.fn().mockResolvedValue({}),
+                find: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue([{ _id: '1', email: 'a@b.c' }]),
+                    }),
+                }),
+            };
+
+            const repo = adapter.createRepository({ model: mockModel, conflictKeys: ['email'] });
+            await repo.bulkUpsert([{ email: 'a@b.c', name: 'A' }]);
+
+            expect(mockModel.bulkWrite.mock.calls[0][0][0].updateOne.filter).toEqual({ email: 'a@b.c' });
+        });
+
+        it('should reject bulkUpsert rows without a conflict key value', async () => {
+            const mockModel = { modelName: 'User', bulkWrite: jest.fn() };
+
+            const repo = adapter.createRepository({ model: mockModel });
+
+            await expect(repo.bulkUpsert([{ _id: '1', name: 'A' }, { name: 'B' }])).rejects.toThrow(
+                'bulkUpsert on collection "User" needs a value for conflict key "_id" in every row.',
+            );
+            expect(mockModel.bulkWrite).not.toHaveBeenCalled();
+        });
+
+        it('should return empty array when bulkUpsert with empty data', async () => {
+            const mockModel = {
+                bulkWrite: jest.fn(),
+            };
+
+            const repo = adapter.createRepository({ model: mockModel });
+            const result = await repo.bulkUpsert([]);
+
+            expect(result).toEqual([]);
+            expect(mockModel.bulkWrite).not.toHaveBeenCalled();
+        });
+
+        it('should findCursor with keyset filter, sort and extra document', async () => {
+            const mockDocs = [{ _id: 'b', name: 'B' }, { _id: 'c', name: 'C' }];
+            const query = {
+                sort: jest.fn().mockReturnThis(),
+                limit: jest.fn().mockReturnThis(),
+                lean: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue(mockDocs),
+                }),
+            };
+            const mockModel = {
+                find: jest.fn().mockReturnValue(query),
+                countDocuments: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue(10),
+                }),
+            };
+
+            const repo = adapter.createRepository({ model: mockModel, softDelete: true });
+            const cursor = Buffer.from(JSON.stringify({ name: 'A', _id: 'a' })).toString('base64url');
+            const result = await repo.findCursor({
+                filter: { status: 'active' },
+                sort: { name: 1 },
+                limit: 1,
+                after: cursor,
+                withTotal: true,
+            });
+
+            expect(mockModel.find).toHaveBeenCalledWith({
+                $and: [
+                    { status: 'active', deletedAt: { $eq: null } },
+                    { $or: [{ name: { $gt: 'A' } }, { name: 'A', _id: { $gt: 'a' } }] },
+                ],
+            });
+            expect(query.sort).toHaveBeenCalledWith({ name: 1, _id: 1 });
+            expect(query.limit).toHaveBeenCalledWith(2);
+            expect(result.data).toEqual([{ _id: 'b', name: 'B' }]);
+            expect(result.hasNext).toBe(true);
+            expect(result.hasPrev).toBe(true);
+            expect(result.total).toBe(10);
+        });
+
+        it('should page past null sort values in the keyset filter', async () => {
+            const query = {
+                sort: jest.fn().mockReturnThis(),
+                limit: jest.fn().mockReturnThis(),
+                lean: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue([]),
+                }),
+            };
+            const mockModel = { find: jest.fn().mockReturnValue(query) };
+            const encode = (values: Record<string, unknown>) =>
+                Buffer.from(JSON.stringify(values)).toString('base64url');
+
+            const repo = adapter.createRepository({ model: mockModel });
+            await repo.findCursor({ sort: { name: 1 }, after: encode({ name: null, _id: 'a' }) });
+            await repo.findCursor({ sort: { name: -1 }, after: encode({ name: 'B', _id: 'a' }) });
+            await repo.findCursor({ sort: { name: -1 }, after: encode({ name: null, _id: 'a' }) });
+
+            expect(mockModel.find).toHaveBeenNthCalledWith(1, {
+                $and: [{}, { $or: [{ name: { $ne: null } }, { name: null, _id: { $gt: 'a' } }] }],
+            });
+            expect(mockModel.find).toHaveBeenNthCalledWith(2, {
+                $and: [
+                    {},
+                    { $or: [{ $or: [{ name: { $lt: 'B' } }, { name: null }] }, { name: 'B', _id: { $lt: 'a' } }] },
+                ],
+            });
+            expect(mockModel.find).toHaveBeenNthCalledWith(3, {
+                $and: [{}, { $or: [{ name: null, _id: { $lt: 'a' } }] }],
+            });
+        });
+
+        it('should reject findCursor sort fields outside columns', async () => {
+            const mockModel = { find: jest.fn() };
+
+            const repo = adapter.createRepository({ model: mockModel, columns: ['name'] });
+
+            await expect(repo.findCursor({ sort: '-secret' })).rejects.toThrow(
+                'Field "secret" is not allowed',
+            );
+            expect(mockModel.find).not.toHaveBeenCalled();
+        });
+
+        it('should translate portable filter expressions to MongoDB operators', async () => {
+            const mockModel = {
+                find: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue([]),
+                    }),
+                }),
+            };
+
+            const repo = adapter.createRepository({ model: mockModel });
+            await repo.findAll({
+                age: { gte: 18, lt: 65 },
+                $or: [{ role: { in: ['admin', 'owner'] } }, { deletedAt: { isNull: true } }],
+                $not: { email: { like: '%@example.com' } },
+            });
+
+            expect(mockModel.find).toHaveBeenCalledWith({
+                age: { $gte: 18, $lt: 65 },
+                $or: [{ role: { $in: ['admin', 'owner'] } }, { deletedAt: { $eq: null } }],
+                $nor: [{ email: { $regex: /^.*@example\.com$/i } }],
+            });
+        });
+
+        it('should pass native MongoDB operators through unchanged', async () => {
+            const mockModel = {
+                countDocuments: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue(3),
+                }),
+            };
+
+            const repo = adapter.createRepository({ model: mockModel });
+            await repo.count({ name: { $regex: '^J' }, $expr: { $gt: ['$a', '$b'] } });
+
+            expect(mockModel.countDocuments).toHaveBeenCalledWith({
+                name: { $regex: '^J' },
+                $expr: { $gt: ['$a', '$b'] },
+            });
+        });
+
+        it('should reject filter fields outside the columns whitelist', async () => {
+            const mockModel = { find: jest.fn(), modelName: 'User' };
+
+            const repo = adapter.createRepository({ model: mockModel, columns: ['name'] });
+
+            await expect(repo.findAll({ $or: [{ name: 'A' }, { password: 'x' }] })).rejects.toThrow(
+                'Field "password" is not allowed for collection "User"',
+            );
+            expect(mockModel.find).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Model binding', () => {
+        it('should register a schema under its name on the adapter connection', () => {
+            const schema = { paths: {} };
+            adapter.createRepository({ schema, name: 'User', collection: 'people' });
+
+            expect(adapter.getConnection().model).toHaveBeenCalledWith('User', schema, 'people');
+        });
+
+        it('should re-register models compiled on another connection', () => {
+            const schema = { paths: {} };
+            const globalModel = {
+                db: { name: 'global' },
+                schema,
+                modelName: 'Order',
+                collection: { name: 'orders' },
+            };
+
+            adapter.createRepository({ model: globalModel });
+
+            expect(adapter.getConnection().model).toHaveBeenCalledWith('Order', schema, 'orders');
+        });
+
+        it('should use models already bound to the adapter connection as they are', () => {
+            const connection = adapter.getConnection();
+            const boundModel = { db: connection, schema: {}, modelName: 'Invoice', find: jest.fn() };
+
+            adapter.createRepository({ model: boundModel });
+
+            expect(connection.model).not.toHaveBeenCalled();
+        });
+
+        it('should require a model or a schema with a name', () => {
+            expect(() => adapter.createRepository({ schema: {} })).toThrow(
+                'Mongo repositories need either a "model" or a "schema" and a "name".',
+            );
+        });
+
+        it('should keep adapters on separate connections', async () => {
+            const mongoose = await import('mongoose');
+            const other = new MongoAdapter({ type: 'mongo', connectionString: 'mongodb://localhost:27017/other' });
+
+            await adapter.connect();
+            await other.connect();
+
+            expect(mongoose.createConnection).toHaveBeenCalledTimes(2);
+            expect(adapter.getConnection().openUri).toHaveBeenCalledWith(
+                'mongodb://localhost:27017/testdb',
+                expect.any(Object),
+            );
+            expect(other.getConnection().openUri).toHaveBeenCalledWith(
+                'mongodb://localhost:27017/other',
+                expect.any(Object),
+            );
+            await other.disconnect();
+        });
     });
 
     describe('withTransaction', () => {
         it('should execute callback within transaction', async () => {
-            const mongoose = await import('mongoose');
             const mockCallback = jest.fn().mockResolvedValue({ success: true });
 
             // Need to connect first
@@ -192,7 +498,7 @@ describe('MongoAdapter', () => {
 
             await adapter.withTransaction(mockCallback);
 
-            expect(mongoose.startSession).toHaveBeenCalled();
+            expect(adapter.getConnection().startSession).toHaveBeenCalled();
             expect(mockCallback).toHaveBeenCalledWith(
                 expect.objectContaining({
                     transaction: expect.any(Object),
@@ -202,10 +508,9 @@ describe('MongoAdapter', () => {
         });
 
         it('should commit transaction on success', async () => {
-            const mongoose = await import('mongoose');
             await adapter.connect();
 
-            const mockSession = await mongoose.startSession();
+            const mockSession = await adapter.getConnection().startSession();
             await adapter.withTransaction(async () => 'result');
 
             expect(mockSession.commitTransaction).toHaveBeenCalled();
@@ -213,10 +518,9 @@ describe('MongoAdapter', () => {
         });
 
         it('should abort transaction on error', async () => {
-            const mongoose = await import('mongoose');
             await adapter.connect();
 
-            const mockSession = await mongoose.startSession();
+            const mockSession = await adapter.getConnection().startSession();
             const error = new Error('Test error');
 
             await expect(
@@ -238,26 +542,549 @@ describe('MongoAdapter', () => {
                 return 'done';
             });
 
-            expect(capturedContext).toBeDefined();
-            expect(capturedContext!.transaction).toBeDefined();
-            expect(typeof capturedContext!.createRepository).toBe('function');
+            expect(capturedContext).toBeDefined();
+            expect(capturedContext!.transaction).toBeDefined();
+            expect(typeof capturedContext!.createRepository).toBe('function');
+        });
+
+        it('should respect transaction options', async () => {
+            await adapter.connect();
+
+            const mockSession = await adapter.getConnection().startSession();
+
+            await adapter.withTransaction(
+                async () => 'result',
+                { timeout: 10000, retries: 0 },
+            );
+
+            expect(mockSession.startTransaction).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    maxCommitTimeMS: 10000,
+                }),
+            );
+        });
+    });
+
+    describe('Read and Write Concerns', () => {
+        const createQuery = (result: unknown) => {
+            const query = {
+                read: jest.fn(),
+                readConcern: jest.fn(),
+                session: jest.fn(),
+                select: jest.fn(),
+                lean: jest.fn(),
+                exec: jest.fn().mockResolvedValue(result),
+            };
+            query.read.mockReturnValue(query);
+            query.readConcern.mockReturnValue(query);
+            query.session.mockReturnValue(query);
+            query.select.mockReturnValue(query);
+            query.lean.mockReturnValue(query);
+            return query;
+        };
+
+        it('should pass connection-level settings when opening the connection', async () => {
+            const configured = new MongoAdapter({
+                ...mockConfig,
+                readPreference: 'secondaryPreferred',
+                readConcern: 'majority',
+                writeConcern: { w: 'majority', wtimeout: 5000 },
+            });
+
+            await configured.connect();
+
+            expect(configured.getConnection().openUri).toHaveBeenCalledWith(
+                mockConfig.connectionString,
+                expect.objectContaining({
+                    readPreference: 'secondaryPreferred',
+                    readConcern: { level: 'majority' },
+                    writeConcern: { w: 'majority', wtimeout: 5000 },
+                }),
+            );
+        });
+
+        it('should apply the repository read preference and let calls override it', async () => {
+            const query = createQuery([]);
+            const mockModel = { find: jest.fn().mockReturnValue(query) };
+            const repo = adapter.createRepository({
+                model: mockModel,
+                readPreference: 'secondary',
+                readConcern: 'local',
+            });
+
+            await repo.findAll({});
+            await repo.findAll({}, { readPreference: 'nearest', readConcern: 'majority' });
+            await repo.findAll({}, { consistency: 'primary' });
+
+            expect(query.read.mock.calls).toEqual([['secondary'], ['nearest'], ['primary']]);
+            expect(query.readConcern.mock.calls).toEqual([['local'], ['majority'], ['local']]);
+        });
+
+        it('should not touch the query when no read settings are configured', async () => {
+            const query = createQuery({ _id: '1' });
+            const mockModel = { findOne: jest.fn().mockReturnValue(query) };
+            const repo = adapter.createRepository({ model: mockModel });
+
+            await repo.findById('1');
+
+            expect(query.read).not.toHaveBeenCalled();
+            expect(query.readConcern).not.toHaveBeenCalled();
+        });
+
+        it('should read ids from the primary before bulk writes when reads default to secondaries', async () => {
+            const query = createQuery([{ _id: '1' }]);
+            const mockModel = {
+                find: jest.fn().mockReturnValue(query),
+                deleteMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+                }),
+            };
+            const repo = adapter.createRepository({
+                model: mockModel,
+                readPreference: 'secondaryPreferred',
+                hooks: { beforeDelete: jest.fn() },
+            });
+
+            await repo.deleteMany({ status: 'stale' });
+
+            expect(query.read).toHaveBeenCalledWith('primary');
+        });
+
+        it('should pass the write concern per call, falling back to the repository', async () => {
+            const mockModel = {
+                create: jest.fn().mockResolvedValue([{ _id: '1', name: 'A' }]),
+                updateMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 2 }),
+                }),
+            };
+            const repo = adapter.createRepository({ model: mockModel, writeConcern: { w: 1 } });
+
+            await repo.create({ name: 'A' }, { writeConcern: { w: 'majority', j: true } });
+            await repo.updateMany({ status: 'active' }, { status: 'archived' });
+
+            expect(mockModel.create).toHaveBeenCalledWith(
+                [{ name: 'A' }],
+                { writeConcern: { w: 'majority', j: true } },
+            );
+            expect(mockModel.updateMany).toHaveBeenCalledWith(
+                { status: 'active' },
+                { status: 'archived' },
+                { writeConcern: { w: 1 } },
+            );
+        });
+
+        it('should pass the write concern per call to soft delete and restore', async () => {
+            const writeResult = { exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }) };
+            const mockModel = {
+                updateOne: jest.fn().mockReturnValue(writeResult),
+                updateMany: jest.fn().mockReturnValue(writeResult),
+                findOneAndUpdate: jest.fn().mockReturnValue(createQuery({ _id: '1' })),
+            };
+            const repo = adapter.createRepository({ model: mockModel, softDelete: true, writeConcern: { w: 1 } });
+            const majority = { writeConcern: { w: 'majority' as const } };
+
+            await repo.softDelete!('1', majority);
+            await repo.softDeleteMany!({ status: 'old' }, majority);
+            await repo.restore!('1', majority);
+            await repo.restoreMany!({ status: 'old' });
+
+            expect(mockModel.updateOne).toHaveBeenCalledWith(
+                expect.any(Object),
+                expect.any(Object),
+                { writeConcern: { w: 'majority' } },
+            );
+            expect(mockModel.updateMany).toHaveBeenNthCalledWith(
+                1,
+                expect.any(Object),
+                expect.any(Object),
+                { writeConcern: { w: 'majority' } },
+            );
+            expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+                expect.any(Object),
+                expect.any(Object),
+                { new: true, writeConcern: { w: 'majority' } },
+            );
+            expect(mockModel.updateMany).toHaveBeenNthCalledWith(
+                2,
+                expect.any(Object),
+                expect.any(Object),
+                { writeConcern: { w: 1 } },
+            );
+        });
+
+        it('should use only the session inside transactions', async () => {
+            const query = createQuery([]);
+            const mockModel = {
+                find: jest.fn().mockReturnValue(query),
+                updateMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+                }),
+            };
+            const session = {} as never;
+            const repo = adapter.createRepository(
+                { model: mockModel, readPreference: 'secondary', writeConcern: { w: 'majority' } },
+                session,
+            );
+
+            await repo.findAll({}, { readConcern: 'majority' });
+            await repo.updateMany({}, { status: 'x' }, { writeConcern: { w: 1 } });
+
+            expect(query.session).toHaveBeenCalledWith(session);
+            expect(query.read).not.toHaveBeenCalled();
+            expect(query.readConcern).not.toHaveBeenCalled();
+            expect(mockModel.updateMany).toHaveBeenCalledWith({}, { status: 'x' }, { session });
+        });
+
+        it('should start transactions on the primary with the configured concerns', async () => {
+            const configured = new MongoAdapter({
+                ...mockConfig,
+                readPreference: 'secondary',
+                readConcern: 'local',
+                writeConcern: { w: 1 },
+            });
+            await configured.connect();
+            const mockSession = await configured.getConnection().startSession();
+
+            await configured.withTransaction(async () => 'done', { readConcern: 'snapshot' });
+
+            expect(mockSession.startTransaction).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    readPreference: 'primary',
+                    readConcern: { level: 'snapshot' },
+                    writeConcern: { w: 1 },
+                }),
+            );
+        });
+    });
+
+    describe('Optimistic Locking', () => {
+        const createLockingModel = (updated: unknown, current: unknown) => {
+            const currentQuery = {
+                select: jest.fn(),
+                read: jest.fn(),
+                lean: jest.fn(),
+                exec: jest.fn().mockResolvedValue(current),
+            };
+            currentQuery.select.mockReturnValue(currentQuery);
+            currentQuery.read.mockReturnValue(currentQuery);
+            currentQuery.lean.mockReturnValue(currentQuery);
+            return {
+                findOneAndUpdate: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue(updated) }),
+                }),
+                findOne: jest.fn().mockReturnValue(currentQuery),
+            };
+        };
+
+        it('should match the expected version and $inc it', async () => {
+            const mockModel = createLockingModel({ _id: '1', name: 'New', version: 4 }, null);
+            const repo = adapter.createRepository({ model: mockModel, versionField: 'version' });
+
+            await repo.updateById('1', { name: 'New' }, { expectedVersion: 3 });
+
+            expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+                { _id: '1', version: 3 },
+                { $set: { name: 'New' }, $inc: { version: 1 } },
+                { new: true },
+            );
+            expect(mockModel.findOne).not.toHaveBeenCalled();
+        });
+
+        it('should keep update operators and add the version to $inc', async () => {
+            const mockModel = {
+                ...createLockingModel({ _id: '1', views: 2, version: 2 }, null),
+                updateMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+                }),
+            };
+            const repo = adapter.createRepository({ model: mockModel, versionField: 'version' });
+
+            await repo.updateById('1', { $inc: { views: 1 }, $push: { tags: 'a' }, name: 'New' } as never);
+            await repo.updateMany({}, { $inc: { views: 1, version: 5 } } as never);
+
+            expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+                { _id: '1' },
+                { $inc: { views: 1, version: 1 }, $push: { tags: 'a' }, $set: { name: 'New' } },
+                { new: true },
+            );
+            expect(mockModel.updateMany).toHaveBeenCalledWith(
+                {},
+                { $inc: { views: 1, version: 1 } },
+                {},
+            );
+        });
+
+        it('should throw OptimisticLockError when the document has another version', async () => {
+            const mockModel = createLockingModel(null, { _id: '1', version: 7 });
+            const repo = adapter.createRepository({ model: mockModel, versionField: 'version', softDelete: true });
+
+            await expect(repo.updateById('1', { name: 'New' }, { expectedVersion: 3 })).rejects.toThrow(
+                OptimisticLockError,
+            );
+            expect(mockModel.findOne).toHaveBeenCalledWith({ _id: '1', deletedAt: { $eq: null } });
+        });
+
+        it('should return null when the document does not exist', async () => {
+            const mockModel = createLockingModel(null, null);
+            const repo = adapter.createRepository({ model: mockModel, versionField: 'version' });
+
+            await expect(repo.updateById('1', { name: 'New' }, { expectedVersion: 3 })).resolves.toBeNull();
+        });
+
+        it('should $inc the version on upsert instead of setting it', async () => {
+            const mockModel = createLockingModel({ _id: '1', version: 1 }, null);
+            const repo = adapter.createRepository({ model: mockModel, versionField: 'version' });
+
+            await repo.upsert({ email: 'a@b.c' }, { name: 'A', version: 9 } as never);
+
+            expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+                { email: 'a@b.c' },
+                { $set: { name: 'A' }, $inc: { version: 1 } },
+                { upsert: true, new: true },
+            );
+        });
+    });
+
+    describe('Row Locking', () => {
+        it('should reject lock options before querying', async () => {
+            const mockModel = { modelName: 'Job', find: jest.fn(), findOne: jest.fn() };
+            const repo = adapter.createRepository({ model: mockModel });
+
+            await expect(repo.findAll({}, { lock: 'update' })).rejects.toThrow(
+                'Row locks are not supported on MongoDB (collection "Job").',
+            );
+            await expect(repo.findOne({ status: 'queued' }, { skipLocked: true })).rejects.toThrow(
+                'Row locks are not supported on MongoDB',
+            );
+            expect(mockModel.find).not.toHaveBeenCalled();
+            expect(mockModel.findOne).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('stream', () => {
+        const createStreamQuery = (docs: unknown[]) => {
+            const cursor = {
+                close: jest.fn().mockResolvedValue(undefined),
+                async *[Symbol.asyncIterator]() {
+                    yield* docs;
+                },
+            };
+            const query = {
+                batchSize: jest.fn(),
+                sort: jest.fn(),
+                read: jest.fn(),
+                session: jest.fn(),
+                lean: jest.fn(),
+                cursor: jest.fn().mockReturnValue(cursor),
+            };
+            query.batchSize.mockReturnValue(query);
+            query.sort.mockReturnValue(query);
+            query.read.mockReturnValue(query);
+            query.session.mockReturnValue(query);
+            query.lean.mockReturnValue(query);
+            return { query, cursor };
+        };
+
+        it('should iterate a lean cursor in batches and close it when the loop stops', async () => {
+            const { query, cursor } = createStreamQuery([{ _id: '1' }, { _id: '2' }, { _id: '3' }]);
+            const mockModel = { find: jest.fn().mockReturnValue(query) };
+            const repo = adapter.createRepository({ model: mockModel, softDelete: true, readPreference: 'secondary' });
+
+            const seen: unknown[] = [];
+            for await (const doc of repo.stream({ status: 'active' }, { sort: '-createdAt', batchSize: 2 })) {
+                seen.push(doc);
+                if (seen.length === 2) break;
+            }
+
+            expect(mockModel.find).toHaveBeenCalledWith({ status: 'active', deletedAt: { $eq: null } });
+            expect(query.batchSize).toHaveBeenCalledWith(2);
+            expect(query.sort).toHaveBeenCalledWith({ createdAt: 'desc' });
+            expect(query.read).toHaveBeenCalledWith('secondary');
+            expect(seen).toEqual([{ _id: '1' }, { _id: '2' }]);
+            expect(cursor.close).toHaveBeenCalled();
+        });
+
+        it('should read inside the transaction session', async () => {
+            const { query } = createStreamQuery([{ _id: '1' }]);
+            const session = {} as never;
+            const repo = adapter.createRepository({ model: { find: jest.fn().mockReturnValue(query) } }, session);
+
+            for await (const _doc of repo.stream()) {
+                // drain
+            }
+
+            expect(query.session).toHaveBeenCalledWith(session);
+            expect(query.batchSize).toHaveBeenCalledWith(1000);
+        });
+    });
+
+    describe('forEachBatch', () => {
+        it('should read _id keyset batches from the primary and pass the handler the repository', async () => {
+            const createBatchQuery = (docs: unknown[]) => {
+                const query = {
+                    sort: jest.fn(),
+                    limit: jest.fn(),
+                    read: jest.fn(),
+                    lean: jest.fn(),
+                    exec: jest.fn().mockResolvedValue(docs),
+                };
+                query.sort.mockReturnValue(query);
+                query.limit.mockReturnValue(query);
+                query.read.mockReturnValue(query);
+                query.lean.mockReturnValue(query);
+                return query;
+            };
+            const firstQuery = createBatchQuery([{ _id: { toString: () => 'a1' } }, { _id: { toString: () => 'a2' } }]);
+            const find = jest.fn()
+                .mockReturnValueOnce(firstQuery)
+                .mockReturnValueOnce(createBatchQuery([]));
+            const repo = adapter.createRepository({ model: { find }, softDelete: true, readPreference: 'secondary' });
+
+            const handler = jest.fn();
+            const result = await repo.forEachBatch({ status: 'active' }, 2, handler);
+
+            expect(find).toHaveBeenNthCalledWith(1, { status: 'active', deletedAt: { $eq: null } });
+            expect(find).toHaveBeenNthCalledWith(2, {
+                $and: [{ status: 'active', deletedAt: { $eq: null } }, { _id: { $gt: 'a2' } }],
+            });
+            expect(firstQuery.read).toHaveBeenCalledWith('primary');
+            expect(handler).toHaveBeenCalledWith(expect.any(Array), { batch: 0, repository: repo });
+            expect(result).toEqual({ batches: 1, processed: 2, checkpoint: 'a2' });
+        });
+    });
+
+    describe('aggregate', () => {
+        const createAggregate = (result: unknown[]) => {
+            const aggregate = { read: jest.fn(), exec: jest.fn().mockResolvedValue(result) };
+            aggregate.read.mockReturnValue(aggregate);
+            return aggregate;
+        };
+
+        it('should run a $group pipeline on the cast, soft-delete aware filter', async () => {
+            const aggregate = createAggregate([{ status: 'paid', total: 150, n: 3, shipped: 2 }]);
+            const mockModel = {
+                modelName: 'Order',
+                find: jest.fn(() => ({ cast: jest.fn((_model: unknown) => ({ customer: 'c1', deletedAt: { $eq: null } })) })),
+                aggregate: jest.fn().mockReturnValue(aggregate),
+            };
+            const repo = adapter.createRepository({ model: mockModel, softDelete: true, readPreference: 'secondary' });
+
+            const rows = await repo.aggregate({
+                filter: { customer: 'c1' },
+                groupBy: ['status'],
+                metrics: { total: { sum: 'amount' }, n: { count: '*' }, shipped: { count: 'shippedAt' } },
+                having: { total: { gt: 100 } },
+                sort: { total: 'desc' },
+                limit: 10,
+            });
+
+            expect(mockModel.find).toHaveBeenCalledWith({ customer: 'c1', deletedAt: { $eq: null } });
+            expect(mockModel.aggregate).toHaveBeenCalledWith([
+                { $match: { customer: 'c1', deletedAt: { $eq: null } } },
+                {
+                    $group: {
+                        _id: { g0: '$status' },
+                        total: { $sum: '$amount' },
+                        n: { $sum: 1 },
+                        shipped: { $sum: { $cond: [{ $gt: ['$shippedAt', null] }, 1, 0] } },
+                    },
+                },
+                { $project: { _id: 0, status: '$_id.g0', total: 1, n: 1, shipped: 1 } },
+                { $match: { total: { $gt: 100 } } },
+                { $sort: { total: -1 } },
+                { $limit: 10 },
+            ]);
+            expect(aggregate.read).toHaveBeenCalledWith('secondary');
+            expect(rows).toEqual([{ status: 'paid', total: 150, n: 3, shipped: 2 }]);
+        });
+
+        it('should return one summary row without groupBy even when nothing matches', async () => {
+            const mockModel = {
+                modelName: 'Order',
+                find: jest.fn(() => ({ cast: jest.fn(() => ({})) })),
+                aggregate: jest.fn().mockReturnValue(createAggregate([])),
+            };
+            const repo = adapter.createRepository({ model: mockModel });
+
+            await expect(
+                repo.aggregate({ metrics: { n: { count: '*' }, total: { sum: 'amount' } } }),
+            ).resolves.toEqual([{ n: 0, total: null }]);
+        });
+    });
+
+    describe('Relations', () => {
+        it('should load included relations with one $in query per collection', async () => {
+            const posts = [
+                { _id: 'p1', authorId: 'u1' },
+                { _id: 'p2', authorId: 'u1' },
+            ];
+            const query = {
+                read: jest.fn(),
+                lean: jest.fn(),
+                exec: jest.fn().mockResolvedValue(posts),
+            };
+            query.read.mockReturnValue(query);
+            query.lean.mockReturnValue(query);
+            const find = jest.fn(() => ({ toArray: jest.fn().mockResolvedValue([{ _id: 'u1', name: 'Ada' }]) }));
+            const collection = jest.fn(() => ({ find }));
+            Object.assign(adapter.getConnection(), { db: { collection } });
+
+            const repo = adapter.createRepository<{ _id: string; author?: unknown }>({
+                model: { find: jest.fn().mockReturnValue(query), modelName: 'Post' },
+                readPreference: 'secondary',
+                relations: { author: { type: 'belongsTo', target: 'users', foreignKey: 'authorId' } },
+            });
+
+            const result = await repo.findAll({}, { include: ['author'] });
+
+            expect(collection).toHaveBeenCalledWith('users');
+            expect(find).toHaveBeenCalledTimes(1);
+            expect(find).toHaveBeenCalledWith({ _id: { $in: ['u1'] } }, { readPreference: 'secondary' });
+            expect(result.map((post) => post.author)).toEqual([
+                { _id: 'u1', name: 'Ada' },
+                { _id: 'u1', name: 'Ada' },
+            ]);
         });
 
-        it('should respect transaction options', async () => {
-            const mongoose = await import('mongoose');
-            await adapter.connect();
+        it('should project the target columns and skip soft-deleted targets', async () => {
+            const query = {
+                lean: jest.fn(),
+                exec: jest.fn().mockResolvedValue([{ _id: 'p1', authorId: 'u1' }]),
+            };
+            query.lean.mockReturnValue(query);
+            const find = jest.fn(() => ({ toArray: jest.fn().mockResolvedValue([]) }));
+            Object.assign(adapter.getConnection(), { db: { collection: jest.fn(() => ({ find })) } });
 
-            const mockSession = await mongoose.startSession();
+            const repo = adapter.createRepository({
+                model: { find: jest.fn().mockReturnValue(query), modelName: 'Post' },
+                relations: {
+                    author: {
+                        type: 'belongsTo',
+                        target: 'users',
+                        foreignKey: 'authorId',
+                        columns: ['name'],
+                        softDeleteField: 'deletedAt',
+                    },
+                },
+            });
 
-            await adapter.withTransaction(
-                async () => 'result',
-                { timeout: 10000, retries: 0 },
+            await repo.findAll({}, { include: ['author'] });
+
+            expect(find).toHaveBeenCalledWith(
+                { _id: { $in: ['u1'] }, deletedAt: { $eq: null } },
+                { projection: { name: 1, _id: 1 } },
             );
+        });
 
-            expect(mockSession.startTransaction).toHaveBeenCalledWith(
-                expect.objectContaining({
-                    maxCommitTimeMS: 10000,
-                }),
+        it('should reject relations that are not declared', async () => {
+            const query = { lean: jest.fn(), exec: jest.fn().mockResolvedValue([]) };
+            query.lean.mockReturnValue(query);
+            const repo = adapter.createRepository({
+                model: { find: jest.fn().mockReturnValue(query), modelName: 'Post', collection: { name: 'posts' } },
+            });
+
+            await expect(repo.findAll({}, { include: ['author'] })).rejects.toThrow(
+                'Unknown relation "author" for collection "posts". Declare it in relations in config.',
             );
         });
     });
@@ -566,4 +1393,444 @@ describe('MongoAdapter', () => {
             );
         });
     });
+
+    describe('Repository Hooks', () => {
+        it('should call beforeCreate hook and use modified data', async () => {
+            const mockDoc = { _id: '1', name: 'MODIFIED', toObject: () => ({ _id: '1', name: 'MODIFIED' }) };
+            const mockModel = {
+                create: jest.fn().mockResolvedValue(mockDoc),
+            };
+
+            const beforeCreate = jest.fn().mockImplementation((context) => ({
+                ...context.data,
+                name: 'MODIFIED',
+            }));
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { beforeCreate } });
+            await repo.create({ name: 'Original' });
+
+            expect(beforeCreate).toHaveBeenCalledWith({
+                data: { name: 'Original' },
+                operation: 'create',
+                isBulk: false,
+            });
+            expect(mockModel.create).toHaveBeenCalledWith({ name: 'MODIFIED' });
+        });
+
+        it('should call afterCreate hook with created entity', async () => {
+            const mockDoc = { _id: '1', name: 'Test', toObject: () => ({ _id: '1', name: 'Test' }) };
+            const mockModel = {
+                create: jest.fn().mockResolvedValue(mockDoc),
+            };
+
+            const afterCreate = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { afterCreate } });
+            await repo.create({ name: 'Test' });
+
+            expect(afterCreate).toHaveBeenCalledWith({ _id: '1', name: 'Test' });
+        });
+
+        it('should call create hooks per item on insertMany', async () => {
+            const mockDocs = [
+                { _id: '1', name: 'JOHN', toObject: () => ({ _id: '1', name: 'JOHN' }) },
+                { _id: '2', name: 'JANE', toObject: () => ({ _id: '2', name: 'JANE' }) },
+            ];
+            const mockModel = {
+                insertMany: jest.fn().mockResolvedValue(mockDocs),
+            };
+
+            const beforeCreate = jest.fn().mockImplementation((context) => ({
+                ...context.data,
+                name: String(context.data.name).toUpperCase(),
+            }));
+            const afterCreate = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { beforeCreate, afterCreate } });
+            await repo.insertMany([{ name: 'John' }, { name: 'Jane' }]);
+
+            expect(beforeCreate).toHaveBeenCalledTimes(2);
+            expect(beforeCreate).toHaveBeenCalledWith({
+                data: { name: 'John' },
+                operation: 'create',
+                isBulk: true,
+            });
+            expect(mockModel.insertMany).toHaveBeenCalledWith([{ name: 'JOHN' }, { name: 'JANE' }]);
+            expect(afterCreate).toHaveBeenCalledTimes(2);
+            expect(afterCreate).toHaveBeenCalledWith({ _id: '2', name: 'JANE' });
+        });
+
+        it('should call update hooks on updateById', async () => {
+            const mockModel = {
+                findOneAndUpdate: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue({ _id: '1', name: 'UPDATED' }),
+                    }),
+                }),
+            };
+
+            const beforeUpdate = jest.fn().mockImplementation((context) => ({
+                ...context.data,
+                name: 'UPDATED',
+            }));
+            const afterUpdate = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { beforeUpdate, afterUpdate } });
+            await repo.updateById('1', { name: 'Original' });
+
+            expect(beforeUpdate).toHaveBeenCalledWith({
+                data: { name: 'Original' },
+                operation: 'update',
+                isBulk: false,
+            });
+            expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+                { _id: '1' },
+                { name: 'UPDATED' },
+                { new: true },
+            );
+            expect(afterUpdate).toHaveBeenCalledWith({ _id: '1', name: 'UPDATED' });
+        });
+
+        it('should call afterUpdate with null when entity not found', async () => {
+            const mockModel = {
+                findOneAndUpdate: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue(null),
+                    }),
+                }),
+            };
+
+            const afterUpdate = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { afterUpdate } });
+            await repo.updateById('999', { name: 'Missing' });
+
+            expect(afterUpdate).toHaveBeenCalledWith(null);
+        });
+
+        it('should call update hooks for each matched document on updateMany', async () => {
+            const mockModel = {
+                find: jest.fn()
+                    .mockReturnValueOnce({
+                        select: jest.fn().mockReturnValue({
+                            lean: jest.fn().mockReturnValue({
+                                exec: jest.fn().mockResolvedValue([{ _id: '1' }, { _id: '2' }]),
+                            }),
+                        }),
+                    })
+                    .mockReturnValueOnce({
+                        lean: jest.fn().mockReturnValue({
+                            exec: jest.fn().mockResolvedValue([
+                                { _id: '1', status: 'inactive' },
+                                { _id: '2', status: 'inactive' },
+                            ]),
+                        }),
+                    }),
+                updateMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 2 }),
+                }),
+            };
+
+            const beforeUpdate = jest.fn().mockImplementation((context) => context.data);
+            const afterUpdate = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { beforeUpdate, afterUpdate } });
+            const result = await repo.updateMany({ status: 'active' }, { status: 'inactive' });
+
+            expect(result).toBe(2);
+            expect(beforeUpdate).toHaveBeenCalledTimes(1);
+            expect(beforeUpdate).toHaveBeenCalledWith({
+                data: { status: 'inactive' },
+                operation: 'update',
+                isBulk: true,
+            });
+            expect(mockModel.updateMany).toHaveBeenCalledWith(
+                { status: 'active', _id: { $in: ['1', '2'] } },
+                { status: 'inactive' },
+                {},
+            );
+            expect(afterUpdate).toHaveBeenCalledTimes(2);
+        });
+
+        it('should call update hooks with upsert operation on upsert', async () => {
+            const mockModel = {
+                findOneAndUpdate: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue({ _id: '1', email: 'a@b.c', name: 'A' }),
+                    }),
+                }),
+            };
+
+            const beforeUpdate = jest.fn().mockImplementation((context) => context.data);
+            const afterUpdate = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { beforeUpdate, afterUpdate } });
+            await repo.upsert({ email: 'a@b.c' }, { name: 'A' });
+
+            expect(beforeUpdate).toHaveBeenCalledWith({
+                data: { name: 'A' },
+                operation: 'upsert',
+                isBulk: false,
+            });
+            expect(afterUpdate).toHaveBeenCalledWith({ _id: '1', email: 'a@b.c', name: 'A' });
+        });
+
+        it('should call delete hooks on deleteById', async () => {
+            const mockModel = {
+                findByIdAndDelete: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue({ _id: '1' }),
+                    }),
+                }),
+            };
+
+            const beforeDelete = jest.fn();
+            const afterDelete = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { beforeDelete, afterDelete } });
+            const result = await repo.deleteById('1');
+
+            expect(result).toBe(true);
+            expect(beforeDelete).toHaveBeenCalledWith('1');
+            expect(afterDelete).toHaveBeenCalledWith(true);
+        });
+
+        it('should call afterDelete with false when entity not found', async () => {
+            const mockModel = {
+                findByIdAndDelete: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue(null),
+                    }),
+                }),
+            };
+
+            const afterDelete = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { afterDelete } });
+            await repo.deleteById('999');
+
+            expect(afterDelete).toHaveBeenCalledWith(false);
+        });
+
+        it('should call delete hooks for each matched document on deleteMany', async () => {
+            const mockModel = {
+                find: jest.fn().mockReturnValue({
+                    select: jest.fn().mockReturnValue({
+                        lean: jest.fn().mockReturnValue({
+                            exec: jest.fn().mockResolvedValue([{ _id: '1' }, { _id: '2' }]),
+                        }),
+                    }),
+                }),
+                deleteMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ deletedCount: 2 }),
+                }),
+            };
+
+            const beforeDelete = jest.fn();
+            const afterDelete = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { beforeDelete, afterDelete } });
+            const result = await repo.deleteMany({ status: 'old' });
+
+            expect(result).toBe(2);
+            expect(beforeDelete).toHaveBeenNthCalledWith(1, '1');
+            expect(beforeDelete).toHaveBeenNthCalledWith(2, '2');
+            expect(mockModel.deleteMany).toHaveBeenCalledWith(
+                { status: 'old', _id: { $in: ['1', '2'] } },
+                {},
+            );
+            expect(afterDelete).toHaveBeenCalledTimes(2);
+        });
+
+        it('should pass each id its own result to afterDelete when only some documents were deleted', async () => {
+            const findResult = (docs: unknown[]) => ({
+                select: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue(docs),
+                    }),
+                }),
+            });
+            const mockModel = {
+                find: jest.fn()
+                    .mockReturnValueOnce(findResult([{ _id: '1' }, { _id: '2' }, { _id: '3' }]))
+                    .mockReturnValueOnce(findResult([{ _id: '2' }])),
+                deleteMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ deletedCount: 2 }),
+                }),
+            };
+
+            const afterDelete = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, hooks: { afterDelete } });
+            await repo.deleteMany({ status: 'old' });
+
+            expect(mockModel.find).toHaveBeenLastCalledWith({ _id: { $in: ['1', '2', '3'] } });
+            expect(afterDelete.mock.calls).toEqual([[true], [false], [true]]);
+        });
+
+        it('should pass each id its own result to afterSoftDelete when only some documents were soft deleted', async () => {
+            const findResult = (docs: unknown[]) => ({
+                select: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue(docs),
+                    }),
+                }),
+            });
+            const mockModel = {
+                find: jest.fn()
+                    .mockReturnValueOnce(findResult([{ _id: '1' }, { _id: '2' }]))
+                    .mockReturnValueOnce(findResult([{ _id: '1' }])),
+                updateMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+                }),
+            };
+
+            const afterSoftDelete = jest.fn();
+
+            const repo = adapter.createRepository({ model: mockModel, softDelete: true, hooks: { afterSoftDelete } });
+            await repo.softDeleteMany!({ status: 'old' });
+
+            expect(mockModel.find).toHaveBeenLastCalledWith({ deletedAt: { $eq: null }, _id: { $in: ['1', '2'] } });
+            expect(afterSoftDelete.mock.calls).toEqual([[false], [true]]);
+        });
+
+        it('should call delete hooks on softDelete', async () => {
+            const mockModel = {
+                updateOne: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+                }),
+            };
+
+            const beforeDelete = jest.fn();
+            const afterDelete = jest.fn();
+
+            const repo = adapter.createRepository({
+                model: mockModel,
+                softDelete: true,
+                hooks: { beforeDelete, afterDelete },
+            });
+            await repo.softDelete!('123');
+
+            expect(beforeDelete).toHaveBeenCalledWith('123');
+            expect(afterDelete).toHaveBeenCalledWith(true);
+        });
+
+        it('should call delete hooks per document on softDeleteMany', async () => {
+            const mockModel = {
+                find: jest.fn().mockReturnValue({
+                    select: jest.fn().mockReturnValue({
+                        lean: jest.fn().mockReturnValue({
+                            exec: jest.fn().mockResolvedValue([{ _id: '1' }]),
+                        }),
+                    }),
+                }),
+                updateMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+                }),
+            };
+
+            const beforeDelete = jest.fn();
+
+            const repo = adapter.createRepository({
+                model: mockModel,
+                softDelete: true,
+                hooks: { beforeDelete },
+            });
+            const result = await repo.softDeleteMany!({ status: 'old' });
+
+            expect(result).toBe(1);
+            expect(beforeDelete).toHaveBeenCalledWith('1');
+            expect(mockModel.updateMany).toHaveBeenCalledWith(
+                { status: 'old', deletedAt: { $eq: null }, _id: { $in: ['1'] } },
+                expect.objectContaining({ deletedAt: expect.any(Date) }),
+                {},
+            );
+        });
+
+        it('should call soft delete hooks around delete hooks on softDelete', async () => {
+            const mockModel = {
+                updateOne: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+                }),
+            };
+
+            const calls: string[] = [];
+            const hooks = {
+                beforeDelete: jest.fn(() => { calls.push('beforeDelete'); }),
+                beforeSoftDelete: jest.fn(() => { calls.push('beforeSoftDelete'); }),
+                afterSoftDelete: jest.fn(() => { calls.push('afterSoftDelete'); }),
+                afterDelete: jest.fn(() => { calls.push('afterDelete'); }),
+            };
+
+            const repo = adapter.createRepository({ model: mockModel, softDelete: true, hooks });
+            await repo.deleteById('123');
+
+            expect(hooks.beforeSoftDelete).toHaveBeenCalledWith('123');
+            expect(hooks.afterSoftDelete).toHaveBeenCalledWith(true);
+            expect(calls).toEqual(['beforeDelete', 'beforeSoftDelete', 'afterSoftDelete', 'afterDelete']);
+        });
+
+        it('should call restore hooks on restore', async () => {
+            const mockModel = {
+                findOneAndUpdate: jest.fn().mockReturnValue({
+                    lean: jest.fn().mockReturnValue({
+                        exec: jest.fn().mockResolvedValue({ _id: '123', name: 'Test' }),
+                    }),
+                }),
+            };
+
+            const beforeRestore = jest.fn();
+            const afterRestore = jest.fn();
+
+            const repo = adapter.createRepository({
+                model: mockModel,
+                softDelete: true,
+                hooks: { beforeRestore, afterRestore },
+            });
+            await repo.restore!('123');
+
+            expect(beforeRestore).toHaveBeenCalledWith('123');
+            expect(afterRestore).toHaveBeenCalledWith({ _id: '123', name: 'Test' });
+        });
+
+        it('should call restore hooks per document on restoreMany', async () => {
+            const mockModel = {
+                find: jest.fn()
+                    .mockReturnValueOnce({
+                        select: jest.fn().mockReturnValue({
+                            lean: jest.fn().mockReturnValue({
+                                exec: jest.fn().mockResolvedValue([{ _id: '1' }, { _id: '2' }]),
+                            }),
+                        }),
+                    })
+                    .mockReturnValueOnce({
+                        lean: jest.fn().mockReturnValue({
+                            exec: jest.fn().mockResolvedValue([{ _id: '1' }, { _id: '2' }]),
+                        }),
+                    }),
+                updateMany: jest.fn().mockReturnValue({
+                    exec: jest.fn().mockResolvedValue({ modifiedCount: 2 }),
+                }),
+            };
+
+            const beforeRestore = jest.fn();
+            const afterRestore = jest.fn();
+
+            const repo = adapter.createRepository({
+                model: mockModel,
+                softDelete: true,
+                hooks: { beforeRestore, afterRestore },
+            });
+            const result = await repo.restoreMany!({ status: 'archived' });
+
+            expect(result).toBe(2);
+            expect(beforeRestore).toHaveBeenCalledTimes(2);
+            expect(mockModel.updateMany).toHaveBeenCalledWith(
+                { status: 'archived', deletedAt: { $ne: null }, _id: { $in: ['1', '2'] } },
+                { $unset: { deletedAt: 1 } },
+                {},
+            );
+            expect(afterRestore).toHaveBeenCalledTimes(2);
+        });
+    });
 });
@@ -1,34 +1,102 @@
-import mongoose, { ConnectOptions, Model, ClientSession } from 'mongoose';
+import mongoose, {
+    ConnectOptions,
+    Connection,
+    Model,
+    Schema,
+    ClientSession,
+    AnyBulkWriteOperation,
+    PipelineStage,
+} from 'mongoose';
 import { Injectable, Logger } from '@nestjs/common';
 import {
     MongoDatabaseConfig,
     MongoRepositoryOptions,
     MongoTransactionContext,
+    MongoReadPreference,
+    MongoReadConcern,
+    MongoWriteConcern,
     Repository,
+    ReadOptions,
+    FindOptions,
+    FindOneOptions,
+    LockOptions,
+    WriteOptions,
+    UpdateOptions,
+    UpsertOptions,
     PageResult,
     PageOptions,
+    CursorPageResult,
+    CursorPageOptions,
+    StreamOptions,
+    BatchHandler,
+    BatchOptions,
+    BatchResult,
+    AggregateOptions,
+    AggregateMetric,
+    AggregateRow,
     TransactionOptions,
     TransactionCallback,
     HealthCheckResult,
     DATABASE_KIT_CONSTANTS,
 } from '../contracts/database.contracts';
+import {
+    CursorSortField,
+    normalizeCursorSort,
+    decodeCursor,
+    createCursorPageResult,
+    createPageResult,
+    parseSortString,
+} from '../utils/pagination.utils';
+import { matchesFilter, toMongoFilter, validateFilter } from '../utils/filter.utils';
+import { attachRelations, relationColumns } from '../utils/relation.utils';
+import { AggregateMetricSpec, normalizeAggregateOptions, toMetricValue } from '../utils/aggregate.utils';
+import { runBatches } from '../utils/batch.utils';
+import { createHookRunner, createTimestamper } from '../utils/hook.utils';
+import { mapEntityFields } from '../utils/entity.utils';
+import { OptimisticLockError } from '../errors/optimistic-lock.error';
+import { MongoMigrationRunner } from './mongo-migration.runner';
+
+/**
+ * Query methods used to route a read to a session or to replica set members.
+ */
+interface RoutableQuery<Q> {
+    session(session: ClientSession): Q;
+    read(mode: MongoReadPreference): Q;
+    readConcern(level: MongoReadConcern): Q;
+}
+
+/**
+ * Translates an aggregate metric into a `$group` accumulator.
+ * Counting a field only counts documents where it is set and not null.
+ */
+function toAccumulator({ fn, field }: AggregateMetricSpec): Record<string, unknown> {
+    if (fn === 'count') {
+        return { $sum: field === '*' ? 1 : { $cond: [{ $gt: [`$${field}`, null] }, 1, 0] } };
+    }
+    return { [`$${fn}`]: `$${field}` };
+}
 
 /**
  * MongoDB adapter for DatabaseKit.
  * Handles MongoDB connection and repository creation via Mongoose.
+ *
+ * Each adapter owns a Mongoose `Connection` created with `mongoose.createConnection()`,
+ * so several adapters can talk to different databases in the same process.
+ * The global `mongoose.connection` is never used.
  * 
  * @example
  * ```typescript
  * const adapter = new MongoAdapter({ type: 'mongo', connectionString: 'mongodb://...' });
  * await adapter.connect();
- * const repo = adapter.createRepository({ model: UserModel });
+ * const repo = adapter.createRepository({ name: 'User', schema: UserSchema });
  * ```
  */
 @Injectable()
 export class MongoAdapter {
     private readonly logger = new Logger(MongoAdapter.name);
     private readonly config: MongoDatabaseConfig;
-    private connectionPromise?: Promise<typeof mongoose>;
+    private connection?: Connection;
+    private connectionPromise?: Promise<Connection>;
 
     constructor(config: MongoDatabaseConfig) {
         this.config = config;
@@ -40,9 +108,9 @@ export class MongoAdapter {
      * Connection is lazy-loaded and cached for reuse.
      * 
      * @param options - Additional Mongoose connection options
-     * @returns Promise resolving to mongoose instance
+     * @returns Promise resolving to this adapter's connection
      */
-    async connect(options: ConnectOptions = {}): Promise<typeof mongoose> {
+    async connect(options: ConnectOptions = {}): Promise<Connection> {
         if (!this.connectionPromise) {
             this.logger.log('Connecting to MongoDB...');
 
@@ -54,36 +122,45 @@ export class MongoAdapter {
             const socketTimeoutMS = this.config.socketTimeoutMS ?? 45000;
             const maxIdleTimeMS = poolConfig.idleTimeoutMs ?? 30000;
 
-            this.connectionPromise = mongoose.connect(this.config.connectionString, {
-                maxPoolSize,
-                minPoolSize,
-                serverSelectionTimeoutMS,
-                socketTimeoutMS,
-                maxIdleTimeMS,
-                ...options,
-            });
+            const connection = this.getConnection();
 
-            mongoose.connection.on('connected', () => {
+            connection.on('connected', () => {
                 this.logger.log('Successfully connected to MongoDB');
             });
 
-            mongoose.connection.on('error', (err) => {
+            connection.on('error', (err) => {
                 this.logger.error('MongoDB connection error', err?.message || err);
             });
 
-            mongoose.connection.on('disconnected', () => {
+            connection.on('disconnected', () => {
                 this.logger.warn('MongoDB disconnected');
             });
+
+            this.connectionPromise = connection.openUri(this.config.connectionString, {
+                maxPoolSize,
+                minPoolSize,
+                serverSelectionTimeoutMS,
+                socketTimeoutMS,
+                maxIdleTimeMS,
+                ...(this.config.readPreference && { readPreference: this.config.readPreference }),
+                ...(this.config.readConcern && { readConcern: { level: this.config.readConcern } }),
+                ...(this.config.writeConcern && { writeConcern: this.config.writeConcern }),
+                ...options,
+            });
         }
 
         return this.connectionPromise;
     }
 
     /**
-     * Gracefully disconnects from MongoDB.
+     * Gracefully closes this adapter's connection.
+     * Models registered on it are dropped with it.
      */
     async disconnect(): Promise<void> {
-        await mongoose.disconnect();
+        if (this.connection) {
+            await this.connection.close();
+            this.connection = undefined;
+        }
         this.connectionPromise = undefined;
         this.logger.log('Disconnected from MongoDB');
     }
@@ -92,7 +169,19 @@ export class MongoAdapter {
      * Checks if connected to MongoDB.
      */
     isConnected(): boolean {
-        return mongoose.connection.readyState === 1;
+        return this.connection?.readyState === 1;
+    }
+
+    /**
+     * Returns this adapter's Mongoose connection.
+     * The connection is created unopened on first use, so models can be
+     * registered before connect(); their operations are buffered until it opens.
+     */
+    getConnection(): Connection {
+        if (!this.connection) {
+            this.connection = mongoose.createConnection();
+        }
+        return this.connection;
     }
 
     /**
@@ -123,7 +212,7 @@ export class MongoAdapter {
             }
 
             // Send ping command to verify connection
-            const admin = mongoose.connection.db?.admin();
+            const admin = this.connection?.db?.admin();
             const pingResult = await admin?.ping();
 
             if (!pingResult?.ok) {
@@ -156,17 +245,70 @@ export class MongoAdapter {
         }
     }
 
+    /**
+     * Returns the native MongoDB database handle.
+     * Throws if not connected.
+     */
+    getDb(): mongoose.mongo.Db {
+        const db = this.connection?.db;
+        if (!db) {
+            throw new Error('MongoDB not connected. Call connect() first.');
+        }
+        return db;
+    }
+
+    /**
+     * Creates a migration runner configured from `MongoDatabaseConfig.migrations`.
+     *
+     * @returns Migration runner bound to this adapter
+     */
+    createMigrationRunner(): MongoMigrationRunner {
+        return new MongoMigrationRunner(this, this.config.migrations);
+    }
+
+    /**
+     * Returns the model a repository works with, bound to this adapter's connection.
+     * Models compiled on another connection (e.g. with the global `mongoose.model()`)
+     * are registered again on this connection from their schema.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private resolveModel(opts: MongoRepositoryOptions<unknown>): Model<any> {
+        const connection = this.getConnection();
+
+        if (opts.model) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const model = opts.model as Model<any>;
+            if (!model.db || model.db === connection || !model.schema || !model.modelName) {
+                return model;
+            }
+            return connection.models[model.modelName]
+                ?? connection.model(model.modelName, model.schema, opts.collection ?? model.collection?.name);
+        }
+
+        if (!opts.schema || !opts.name) {
+            throw new Error('Mongo repositories need either a "model" or a "schema" and a "name".');
+        }
+
+        return connection.models[opts.name]
+            ?? connection.model(opts.name, opts.schema as Schema, opts.collection);
+    }
+
     /**
      * Creates a repository for a Mongoose model.
      * The repository provides a standardized CRUD interface.
+     * Pass either a `model` or a `schema` with a `name`; the model is bound to this adapter's connection.
+     *
+     * Reads and writes use the repository's `readPreference`, `readConcern` and
+     * `writeConcern` (falling back to the connection's), unless a call passes its own.
+     * Inside a transaction the session's settings apply and these are ignored,
+     * because MongoDB rejects per-operation concerns in transactions.
      * 
      * @param opts - Options containing the Mongoose model
      * @param session - Optional MongoDB session for transaction support
      * @returns Repository instance with CRUD methods
      */
-    createRepository<T = unknown>(opts: MongoRepositoryOptions, session?: ClientSession): Repository<T> {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const model = opts.model as Model<any>;
+    createRepository<T = unknown>(opts: MongoRepositoryOptions<T>, session?: ClientSession): Repository<T> {
+        const model = this.resolveModel(opts as MongoRepositoryOptions<unknown>);
         const softDeleteEnabled = opts.softDelete ?? false;
         const softDeleteField = opts.softDeleteField ?? 'deletedAt';
 
@@ -180,68 +322,338 @@ export class MongoAdapter {
             ? { [softDeleteField]: { $eq: null } }
             : {};
 
-        // Helper to add createdAt timestamp
-        const addCreatedAt = <D extends Record<string, unknown>>(data: D): D => {
-            if (timestampsEnabled) {
-                return { ...data, [createdAtField]: new Date() };
+        const { addCreatedAt, addUpdatedAt } = createTimestamper(timestampsEnabled, createdAtField, updatedAtField);
+
+        // Optimistic locking: the version starts at 1 and every update increments it with $inc
+        const versionField = opts.versionField;
+        const addInitialVersion = <D extends Record<string, unknown>>(data: D): D => {
+            if (versionField) {
+                return { ...data, [versionField]: 1 };
             }
             return data;
         };
+        // Keeps the caller's update operators, folds plain fields into $set and strips the version from both
+        const withVersionIncrement = (update: Record<string, unknown>): Record<string, unknown> => {
+            if (!versionField) return update;
+
+            const operators: Record<string, Record<string, unknown>> = {};
+            const fields: Record<string, unknown> = {};
+            Object.entries(update).forEach(([key, value]) => {
+                if (key.startsWith('$')) operators[key] = { ...(value as Record<string, unknown>) };
+                else fields[key] = value;
+            });
+            if (Object.keys(fields).length > 0) {
+                operators.$set = { ...operators.$set, ...fields };
+            }
+            Object.values(operators).forEach((fieldsOfOperator) => delete fieldsOfOperator[versionField]);
 
-        // Helper to add updatedAt timestamp
-        const addUpdatedAt = <D extends Record<string, unknown>>(data: D): D => {
-            if (timestampsEnabled) {
-                return { ...data, [updatedAtField]: new Date() };
+            return { ...operators, $inc: { ...operators.$inc, [versionField]: 1 } };
+        };
+
+        // Describes the collection in error messages
+        const target = `collection "${model.collection?.name ?? model.modelName}"`;
+
+        // Validates a portable filter expression and translates it to a MongoDB query
+        const columns = opts.columns ?? [];
+        const toFilter = (filter: Record<string, unknown>): Record<string, unknown> => {
+            validateFilter(filter, columns, {
+                allowNativeOperators: true,
+                target,
+            });
+            return toMongoFilter(filter);
+        };
+
+        // Effective read preference and read concern of a call
+        const resolveRead = (
+            readOptions?: ReadOptions,
+        ): { readPreference?: MongoReadPreference; readConcern?: MongoReadConcern } => ({
+            readPreference: readOptions?.consistency === 'primary'
+                ? 'primary'
+                : readOptions?.readPreference ?? opts.readPreference,
+            readConcern: readOptions?.readConcern ?? opts.readConcern,
+        });
+
+        // Applies the session inside transactions, otherwise the effective read preference and read concern
+        const routeRead = <Q extends RoutableQuery<Q>>(query: Q, readOptions?: ReadOptions): Q => {
+            if (session) return query.session(session);
+
+            const { readPreference, readConcern } = resolveRead(readOptions);
+
+            let routed = query;
+            if (readPreference) routed = routed.read(readPreference);
+            if (readConcern) routed = routed.readConcern(readConcern);
+            return routed;
+        };
+
+        // Batch-loads the included relations with one $in query per collection, routed like the main read
+        const withRelations = <R>(docs: R[], readOptions?: FindOptions): Promise<R[]> =>
+            attachRelations(docs, readOptions?.include, {
+                relations: opts.relations,
+                primaryKey: '_id',
+                defaultTargetKey: '_id',
+                target,
+                load: (source, field, values, scope) => {
+                    const { readPreference, readConcern } = resolveRead(readOptions);
+                    const columns = relationColumns(field, scope);
+                    const findOptions = {
+                        ...(columns && { projection: Object.fromEntries(columns.map((column) => [column, 1])) }),
+                        ...(session
+                            ? { session }
+                            : {
+                                ...(readPreference && { readPreference }),
+                                ...(readConcern && { readConcern: { level: readConcern } }),
+                            }),
+                    };
+                    const filter = {
+                        [field]: { $in: values },
+                        ...(scope?.softDeleteField && { [scope.softDeleteField]: { $eq: null } }),
+                    };
+                    return this.getDb().collection(source).find(filter, findOptions).toArray();
+                },
+            });
+
+        // MongoDB has no row locks: inside a transaction, concurrent writes to a document conflict instead
+        const assertNoLock = (lockOptions?: LockOptions): void => {
+            if (lockOptions?.lock || lockOptions?.skipLocked || lockOptions?.noWait) {
+                throw new Error(`Row locks are not supported on MongoDB (${target}).`);
             }
-            return data;
         };
 
-        const shapePage = (
-            data: T[],
-            page: number,
-            limit: number,
-            total: number,
-        ): PageResult<T> => {
-            const pages = Math.max(1, Math.ceil((total || 0) / (limit || 1)));
-            return { data, page, limit, total, pages };
+        // Reads that feed a write must see the latest data, even when reads default to secondaries
+        const defaultReadPreference = opts.readPreference ?? this.config.readPreference;
+        const primaryRead: ReadOptions | undefined =
+            defaultReadPreference && defaultReadPreference !== 'primary' ? { consistency: 'primary' } : undefined;
+
+        // Options for write operations: the session inside transactions, otherwise the effective write concern
+        const writeOptionsFor = (
+            writeOptions?: WriteOptions,
+        ): { session?: ClientSession; writeConcern?: MongoWriteConcern } => {
+            if (session) return { session };
+            const writeConcern = writeOptions?.writeConcern ?? opts.writeConcern;
+            return writeConcern ? { writeConcern } : {};
+        };
+
+        // Runs a batch handler in its own transaction, or in the current one when the repository already has a session
+        const inBatchTransaction = (work: (repository: Repository<T>) => Promise<void>): Promise<void> =>
+            session
+                ? work(repo)
+                : this.withTransaction((ctx) => work(ctx.createRepository<T>(opts as MongoRepositoryOptions)));
+
+        // Hooks configuration
+        const hooks = opts.hooks;
+
+        // Hook runners
+        const {
+            runBeforeCreate,
+            runAfterCreate,
+            runBeforeUpdate,
+            runAfterUpdate,
+            runBeforeDelete,
+            runAfterDelete,
+            runBeforeSoftDelete,
+            runAfterSoftDelete,
+            runBeforeRestore,
+            runAfterRestore,
+            hasDeleteHooks,
+            hasSoftDeleteHooks,
+            hasRestoreHooks,
+        } = createHookRunner<T>(hooks);
+
+        // Resolves the ids matched by a filter so bulk operations can fire per-entity hooks
+        const findIds = async (filter: Record<string, unknown>): Promise<Array<string | number>> => {
+            const query = routeRead(model.find(filter).select('_id'), primaryRead);
+            const docs = await query.lean().exec();
+            return (docs as Array<{ _id: string | number }>).map((doc) => doc._id);
+        };
+
+        // Works out which of the pinned ids a bulk write changed, so each after hook gets its own result.
+        // Ids still matching `remainingFilter` afterwards were not changed.
+        const changedIds = async (
+            ids: Array<string | number>,
+            changedCount: number,
+            remainingFilter: Record<string, unknown>,
+        ): Promise<boolean[]> => {
+            if (changedCount >= ids.length) return ids.map(() => true);
+            if (changedCount === 0) return ids.map(() => false);
+
+            const remaining = await findIds({ ...remainingFilter, _id: { $in: ids } });
+            const remainingKeys = new Set(remaining.map(String));
+            return ids.map((id) => !remainingKeys.has(String(id)));
+        };
+
+        // Conflict keys act like a unique index, which soft-deleted documents still hold: upserting one restores it
+        const restoreOnUpsert = (update: Record<string, unknown>): Record<string, unknown> => {
+            if (!softDeleteEnabled) return update;
+            Object.values(update).forEach((fields) => delete (fields as Record<string, unknown>)[softDeleteField]);
+            return { ...update, $unset: { [softDeleteField]: 1 } };
         };
 
+        // Soft deletes all documents matching the filter, firing soft delete hooks per document
+        const softDeleteWhere = async (
+            filter: Record<string, unknown>,
+            writeOptions?: WriteOptions,
+        ): Promise<number> => {
+            const options = writeOptionsFor(writeOptions);
+
+            if (!hasSoftDeleteHooks) {
+                const result = await model.updateMany(
+                    filter,
+                    { [softDeleteField]: new Date() },
+                    options
+                ).exec();
+                return result.modifiedCount;
+            }
+
+            const ids = await findIds(filter);
+            if (ids.length === 0) return 0;
+
+            for (const id of ids) {
+                await runBeforeSoftDelete(id);
+            }
+
+            const result = await model.updateMany(
+                { ...filter, _id: { $in: ids } },
+                { [softDeleteField]: new Date() },
+                options
+            ).exec();
+
+            const changed = await changedIds(ids, result.modifiedCount, notDeletedFilter);
+            for (const success of changed) {
+                await runAfterSoftDelete(success);
+            }
+
+            return result.modifiedCount;
+        };
+
+        // Soft deletes a single document by id, firing soft delete hooks
+        const softDeleteOne = async (id: string | number, writeOptions?: WriteOptions): Promise<boolean> => {
+            await runBeforeSoftDelete(id);
+
+            const mergedFilter = { _id: id, ...notDeletedFilter };
+            const options = writeOptionsFor(writeOptions);
+            const result = await model.updateOne(
+                mergedFilter,
+                { [softDeleteField]: new Date() },
+                options
+            ).exec();
+            const success = result.modifiedCount > 0;
+
+            await runAfterSoftDelete(success);
+
+            return success;
+        };
+
+        // Splits upsert data into $set (applied on every write) and $setOnInsert (new documents only)
+        const buildUpsertUpdate = (
+            data: Record<string, unknown>,
+            excludeKeys: string[],
+            updateColumns?: string[],
+        ): Record<string, unknown> => {
+            const $set: Record<string, unknown> = {};
+            const $setOnInsert: Record<string, unknown> = {};
+
+            Object.entries(data).forEach(([key, value]) => {
+                if (excludeKeys.includes(key)) return;
+                if (!updateColumns || updateColumns.includes(key)) {
+                    $set[key] = value;
+                } else {
+                    $setOnInsert[key] = value;
+                }
+            });
+
+            if (timestampsEnabled) {
+                $set[updatedAtField] = new Date();
+                $setOnInsert[createdAtField] = new Date();
+            }
+
+            // $inc creates the version at 1 on insert and increments it on update
+            if (versionField) {
+                delete $set[versionField];
+                delete $setOnInsert[versionField];
+                const update = Object.keys($setOnInsert).length ? { $set, $setOnInsert } : { $set };
+                return { ...update, $inc: { [versionField]: 1 } };
+            }
+
+            return Object.keys($setOnInsert).length ? { $set, $setOnInsert } : { $set };
+        };
+
+        // Builds a filter matching documents strictly after (or before) the cursor position.
+        // MongoDB sorts null (and missing) before every value, but $gt/$lt never match it, so null gets its own conditions.
+        const buildKeysetFilter = (
+            fields: CursorSortField[],
+            values: Record<string, unknown>,
+            backward: boolean,
+        ): Record<string, unknown> => ({
+            $or: fields.flatMap((current, i) => {
+                const value = values[current.field] ?? null;
+                const ascending = (current.direction === 'asc') !== backward;
+                // Going down, nothing comes after null on this field
+                if (!ascending && value === null) return [];
+
+                const clause: Record<string, unknown> = {};
+                fields.slice(0, i).forEach(({ field }) => {
+                    clause[field] = values[field] ?? null;
+                });
+                // The trailing _id is never null
+                const nullable = i < fields.length - 1;
+                if (value === null) {
+                    clause[current.field] = { $ne: null };
+                } else if (ascending || !nullable) {
+                    clause[current.field] = { [ascending ? '$gt' : '$lt']: value };
+                } else {
+                    clause.$or = [{ [current.field]: { $lt: value } }, { [current.field]: null }];
+                }
+                return [clause];
+            }),
+        });
+
         const repo: Repository<T> = {
-            async create(data: Partial<T>): Promise<T> {
-                const timestampedData = addCreatedAt(data as Record<string, unknown>);
-                const doc = session
-                    ? (await model.create([timestampedData], { session }))[0]
+            async create(data: Partial<T>, options?: WriteOptions): Promise<T> {
+                // Run beforeCreate hook
+                const processedData = await runBeforeCreate(data);
+                const timestampedData = addInitialVersion(addCreatedAt(processedData as Record<string, unknown>));
+                // Model.create() only accepts options alongside an array of documents
+                const createOptions = writeOptionsFor(options);
+                const doc = createOptions.session || createOptions.writeConcern
+                    ? (await model.create([timestampedData], createOptions))[0]
                     : await model.create(timestampedData);
-                return (doc as { toObject?: () => T }).toObject?.() ?? (doc as T);
+                const entity = (doc as { toObject?: () => T }).toObject?.() ?? (doc as T);
+
+                // Run afterCreate hook
+                await runAfterCreate(entity);
+
+                return entity;
             },
 
-            async findById(id: string | number): Promise<T | null> {
+            async findById(id: string | number, options?: FindOptions): Promise<T | null> {
+                assertNoLock(options);
                 const mergedFilter = { _id: id, ...notDeletedFilter };
-                let query = model.findOne(mergedFilter);
-                if (session) query = query.session(session);
+                const query = routeRead(model.findOne(mergedFilter), options);
                 const doc = await query.lean().exec();
-                return doc as T | null;
+                const [entity] = await withRelations(doc ? [doc as T] : [], options);
+                return entity ?? null;
             },
 
-            async findAll(filter: Record<string, unknown> = {}): Promise<T[]> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
-                let query = model.find(mergedFilter);
-                if (session) query = query.session(session);
+            async findAll(filter: Record<string, unknown> = {}, options?: FindOptions): Promise<T[]> {
+                assertNoLock(options);
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+                const query = routeRead(model.find(mergedFilter), options);
                 const docs = await query.lean().exec();
-                return docs as T[];
+                return withRelations(docs as T[], options);
             },
 
-            async findOne(filter: Record<string, unknown>): Promise<T | null> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
-                let query = model.findOne(mergedFilter);
-                if (session) query = query.session(session);
+            async findOne(filter: Record<string, unknown>, options?: FindOneOptions): Promise<T | null> {
+                assertNoLock(options);
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+                const query = routeRead(model.findOne(mergedFilter), options);
                 const doc = await query.lean().exec();
                 return doc as T | null;
             },
 
             async findPage(options: PageOptions = {}): Promise<PageResult<T>> {
+                assertNoLock(options);
                 const { filter = {}, page = 1, limit = 10, sort } = options;
-                const mergedFilter = { ...filter, ...notDeletedFilter };
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
 
                 const skip = Math.max(0, (page - 1) * limit);
                 let query = model.find(mergedFilter).skip(skip).limit(limit);
@@ -249,61 +661,176 @@ export class MongoAdapter {
                 if (sort) {
                     query = query.sort(sort as Record<string, 1 | -1>);
                 }
-                if (session) query = query.session(session);
+                query = routeRead(query, options);
 
                 const [data, total] = await Promise.all([
                     query.lean().exec(),
-                    session
-                        ? model.countDocuments(mergedFilter).session(session).exec()
-                        : model.countDocuments(mergedFilter).exec(),
+                    routeRead(model.countDocuments(mergedFilter), options).exec(),
                 ]);
 
-                return shapePage(data as T[], page, limit, total);
+                return createPageResult(await withRelations(data as T[], options), page, limit, total);
+            },
+
+            async findCursor(options: CursorPageOptions = {}): Promise<CursorPageResult<T>> {
+                const { filter = {}, sort, limit = 10, after, before, withTotal = false } = options;
+                if (after && before) {
+                    throw new Error('findCursor accepts either "after" or "before", not both.');
+                }
+
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+                const fields = normalizeCursorSort(sort, '_id');
+                fields.filter(({ field }) => field !== '_id').forEach(({ field }) => {
+                    if (columns.length && !columns.includes(field)) {
+                        throw new Error(`Field "${field}" is not allowed for ${target}. Add it to columns[] in config.`);
+                    }
+                });
+
+                const cursor = after ?? before;
+                const direction = after ? 'after' : before ? 'before' : undefined;
+                const backward = direction === 'before';
+
+                const pageFilter = cursor
+                    ? { $and: [mergedFilter, buildKeysetFilter(fields, decodeCursor(cursor, fields), backward)] }
+                    : mergedFilter;
+                const sortSpec = fields.reduce<Record<string, 1 | -1>>((acc, { field, direction: dir }) => {
+                    const ascending = (dir === 'asc') !== backward;
+                    return { ...acc, [field]: ascending ? 1 : -1 };
+                }, {});
+
+                // Fetch one extra document to detect whether another page exists
+                const query = routeRead(model.find(pageFilter).sort(sortSpec).limit(limit + 1), options);
+                const rows = await query.lean().exec();
+
+                let total: number | undefined;
+                if (withTotal) {
+                    total = await routeRead(model.countDocuments(mergedFilter), options).exec();
+                }
+
+                return createCursorPageResult(rows as T[], limit, fields, direction, total);
+            },
+
+            async *stream(filter: Record<string, unknown> = {}, options: StreamOptions = {}): AsyncIterable<T> {
+                const { sort, batchSize = DATABASE_KIT_CONSTANTS.DEFAULT_STREAM_BATCH_SIZE } = options;
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+
+                let query = model.find(mergedFilter).batchSize(batchSize);
+                if (sort) {
+                    query = query.sort(typeof sort === 'string' ? parseSortString(sort) : sort);
+                }
+
+                // The cursor fetches the next batch only when the consumer asks for more documents
+                const cursor = routeRead(query, options).lean().cursor();
+                try {
+                    for await (const doc of cursor) {
+                        yield doc as T;
+                    }
+                } finally {
+                    await cursor.close();
+                }
             },
 
-            async updateById(id: string | number, update: Partial<T>): Promise<T | null> {
+            async forEachBatch(
+                filter: Record<string, unknown>,
+                batchSize: number,
+                handler: BatchHandler<T>,
+                options: BatchOptions = {},
+            ): Promise<BatchResult> {
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+
+                return runBatches<T>(batchSize, options, {
+                    // Batches feed writes, so they are read from the primary
+                    fetch: async (after, limit) => {
+                        const batchFilter = after === undefined
+                            ? mergedFilter
+                            : { $and: [mergedFilter, { _id: { $gt: after } }] };
+                        const query = routeRead(model.find(batchFilter).sort({ _id: 1 }).limit(limit), primaryRead);
+                        return (await query.lean().exec()) as T[];
+                    },
+                    // ObjectIds become hex strings, which filters cast back
+                    keyOf: (doc) => {
+                        const id = (doc as { _id: unknown })._id;
+                        return typeof id === 'number' ? id : String(id);
+                    },
+                    run: async (docs, batch) => {
+                        if (!options.transaction) {
+                            await handler(docs, { batch, repository: repo });
+                            return;
+                        }
+                        await inBatchTransaction(async (repository) => {
+                            await handler(docs, { batch, repository });
+                        });
+                    },
+                });
+            },
+
+            async updateById(id: string | number, update: Partial<T>, options: UpdateOptions = {}): Promise<T | null> {
+                const { expectedVersion } = options;
+                if (expectedVersion !== undefined && !versionField) {
+                    throw new Error(`expectedVersion needs versionField in the options of ${target}.`);
+                }
+
+                // Run beforeUpdate hook
+                const processedUpdate = await runBeforeUpdate(update);
+
                 const mergedFilter = { _id: id, ...notDeletedFilter };
-                const timestampedUpdate = addUpdatedAt(update as Record<string, unknown>);
-                let query = model.findOneAndUpdate(mergedFilter, timestampedUpdate, { new: true });
-                if (session) query = query.session(session);
+                const timestampedUpdate = addUpdatedAt(processedUpdate as Record<string, unknown>);
+                const versionFilter = expectedVersion !== undefined ? { [versionField!]: expectedVersion } : {};
+                const query = model.findOneAndUpdate(
+                    { ...mergedFilter, ...versionFilter },
+                    withVersionIncrement(timestampedUpdate),
+                    { new: true, ...writeOptionsFor(options) },
+                );
                 const doc = await query.lean().exec();
-                return doc as T | null;
+
+                // Nothing matched: a missing document stays null, a stale version is a conflict
+                if (!doc && expectedVersion !== undefined) {
+                    const query = routeRead(model.findOne(mergedFilter).select(versionField!), primaryRead);
+                    const current = await query.lean().exec();
+                    if (current) {
+                        const actual = (current as Record<string, unknown>)[versionField!];
+                        throw new OptimisticLockError(target, id, expectedVersion, Number(actual));
+                    }
+                }
+                const entity = (doc as T) || null;
+
+                // Run afterUpdate hook
+                await runAfterUpdate(entity);
+
+                return entity;
             },
 
-            async deleteById(id: string | number): Promise<boolean> {
+            async deleteById(id: string | number, options?: WriteOptions): Promise<boolean> {
                 // If soft delete is enabled, use softDelete instead
                 if (softDeleteEnabled) {
-                    const mergedFilter = { _id: id, ...notDeletedFilter };
-                    const options = session ? { session } : {};
-                    const result = await model.updateOne(
-                        mergedFilter,
-                        { [softDeleteField]: new Date() },
-                        options
-                    ).exec();
-                    return result.modifiedCount > 0;
+                    return softDeleteOne(id, options);
                 }
 
-                let query = model.findByIdAndDelete(id);
-                if (session) query = query.session(session);
+                // Run beforeDelete hook
+                await runBeforeDelete(id);
+
+                const query = model.findByIdAndDelete(id, writeOptionsFor(options));
                 const res = await query.lean().exec();
-                return !!res;
+                const success = !!res;
+
+                // Run afterDelete hook
+                await runAfterDelete(success);
+
+                return success;
             },
 
-            async count(filter: Record<string, unknown> = {}): Promise<number> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
-                let query = model.countDocuments(mergedFilter);
-                if (session) query = query.session(session);
-                return query.exec();
+            async count(filter: Record<string, unknown> = {}, options?: ReadOptions): Promise<number> {
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+                return routeRead(model.countDocuments(mergedFilter), options).exec();
             },
 
-            async exists(filter: Record<string, unknown> = {}): Promise<boolean> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
+            async exists(filter: Record<string, unknown> = {}, options?: ReadOptions): Promise<boolean> {
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
                 // exists() doesn't support session directly, use findOne
                 if (session) {
                     const doc = await model.findOne(mergedFilter).session(session).select('_id').lean().exec();
                     return !!doc;
                 }
-                const res = await model.exists(mergedFilter);
+                const res = await routeRead(model.exists(mergedFilter), options);
                 return !!res;
             },
 
@@ -311,46 +838,99 @@ export class MongoAdapter {
             // Bulk Operations
             // -----------------------------
 
-            async insertMany(data: Partial<T>[]): Promise<T[]> {
+            async insertMany(data: Partial<T>[], options?: WriteOptions): Promise<T[]> {
                 if (data.length === 0) return [];
 
-                // Add createdAt timestamp to each record
-                const timestampedData = data.map(item =>
-                    addCreatedAt(item as Record<string, unknown>)
-                );
+                // Run beforeCreate hook and add createdAt timestamp to each record
+                const timestampedData: Record<string, unknown>[] = [];
+                for (const item of data) {
+                    const processedItem = await runBeforeCreate(item, true);
+                    timestampedData.push(addInitialVersion(addCreatedAt(processedItem as Record<string, unknown>)));
+                }
 
-                const docs = session
-                    ? await model.insertMany(timestampedData, { session })
+                const insertOptions = writeOptionsFor(options);
+                const docs = insertOptions.session || insertOptions.writeConcern
+                    ? await model.insertMany(timestampedData, insertOptions)
                     : await model.insertMany(timestampedData);
 
-                return docs.map((doc) =>
+                const entities = docs.map((doc) =>
                     (doc as { toObject?: () => T }).toObject?.() ?? (doc as T)
                 );
+
+                // Run afterCreate hook for each created entity
+                for (const entity of entities) {
+                    await runAfterCreate(entity);
+                }
+
+                return entities;
             },
 
-            async updateMany(filter: Record<string, unknown>, update: Partial<T>): Promise<number> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
-                const timestampedUpdate = addUpdatedAt(update as Record<string, unknown>);
-                const options = session ? { session } : {};
+            async updateMany(
+                filter: Record<string, unknown>,
+                update: Partial<T>,
+                writeOptions?: WriteOptions,
+            ): Promise<number> {
+                // Run beforeUpdate hook once, the same update applies to every match
+                const processedUpdate = await runBeforeUpdate(update, 'update', true);
+
+                let mergedFilter: Record<string, unknown> = { ...toFilter(filter), ...notDeletedFilter };
+                const timestampedUpdate = withVersionIncrement(addUpdatedAt(processedUpdate as Record<string, unknown>));
+                const options = writeOptionsFor(writeOptions);
+
+                // Pin the matched ids so afterUpdate receives exactly the updated documents
+                const ids = hooks?.afterUpdate ? await findIds(mergedFilter) : undefined;
+                if (ids) {
+                    if (ids.length === 0) return 0;
+                    mergedFilter = { ...mergedFilter, _id: { $in: ids } };
+                }
+
                 const result = await model.updateMany(mergedFilter, timestampedUpdate, options).exec();
+
+                // Run afterUpdate hook for each updated entity
+                if (ids) {
+                    const query = routeRead(model.find({ _id: { $in: ids } }), primaryRead);
+                    const docs = await query.lean().exec();
+                    for (const doc of docs) {
+                        await runAfterUpdate(doc as T);
+                    }
+                }
+
                 return result.modifiedCount;
             },
 
-            async deleteMany(filter: Record<string, unknown>): Promise<number> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
-                const options = session ? { session } : {};
+            async deleteMany(filter: Record<string, unknown>, writeOptions?: WriteOptions): Promise<number> {
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+                const options = writeOptionsFor(writeOptions);
 
                 // If soft delete is enabled, update instead of delete
                 if (softDeleteEnabled) {
-                    const result = await model.updateMany(
-                        mergedFilter,
-                        { [softDeleteField]: new Date() },
-                        options
-                    ).exec();
-                    return result.modifiedCount;
+                    return softDeleteWhere(mergedFilter, writeOptions);
+                }
+
+                if (!hasDeleteHooks) {
+                    const result = await model.deleteMany(mergedFilter, options).exec();
+                    return result.deletedCount;
+                }
+
+                // Run beforeDelete hook for each matched entity
+                const ids = await findIds(mergedFilter);
+                if (ids.length === 0) return 0;
+
+                for (const id of ids) {
+                    await runBeforeDelete(id);
+                }
+
+                const result = await model.deleteMany(
+                    { ...mergedFilter, _id: { $in: ids } },
+                    options
+                ).exec();
+
+                // Run afterDelete hook for each matched entity
+                const changed = await changedIds(ids, result.deletedCount, {});
+                for (const success of changed) {
+                    await runAfterDelete(success);
                 }
 
-                const result = await model.deleteMany(mergedFilter, options).exec();
                 return result.deletedCount;
             },
 
@@ -358,103 +938,239 @@ export class MongoAdapter {
             // Advanced Query Operations
             // -----------------------------
 
-            async upsert(filter: Record<string, unknown>, data: Partial<T>): Promise<T> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
-                const timestampedData = timestampsEnabled
-                    ? { ...data, [updatedAtField]: new Date() }
-                    : data;
-
-                let query = model.findOneAndUpdate(
+            async upsert(
+                filter: Record<string, unknown>,
+                data: Partial<T>,
+                options: UpsertOptions = {},
+            ): Promise<T> {
+                // Run beforeUpdate hook with the upsert operation
+                const processedData = await runBeforeUpdate(data, 'upsert');
+
+                // findOneAndUpdate with upsert is already atomic, the filter acts as the conflict target
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+                const query = model.findOneAndUpdate(
                     mergedFilter,
-                    {
-                        $set: timestampedData,
-                        ...(timestampsEnabled ? { $setOnInsert: { [createdAtField]: new Date() } } : {})
-                    },
-                    { upsert: true, new: true }
+                    buildUpsertUpdate(processedData as Record<string, unknown>, [], options.updateColumns),
+                    { upsert: true, new: true, ...writeOptionsFor(options) }
                 );
-                if (session) query = query.session(session);
                 const doc = await query.lean().exec();
-                return doc as T;
+                const entity = doc as T;
+
+                // Run afterUpdate hook
+                await runAfterUpdate(entity);
+
+                return entity;
             },
 
-            async distinct<K extends keyof T>(field: K, filter: Record<string, unknown> = {}): Promise<T[K][]> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
-                let query = model.distinct(String(field), mergedFilter);
-                if (session) query = query.session(session);
+            async bulkUpsert(rows: Partial<T>[], options: UpsertOptions = {}): Promise<T[]> {
+                if (rows.length === 0) return [];
+
+                const conflictKeys = [options.conflictKeys, opts.conflictKeys].find((keys) => keys?.length) ?? ['_id'];
+                // ObjectIds and dates compare by their string form
+                const tupleKey = (row: Record<string, unknown>) =>
+                    JSON.stringify(conflictKeys.map((key) => String(row[key])));
+
+                // Run beforeUpdate hook for each row with the upsert operation
+                const keyFilters: Record<string, unknown>[] = [];
+                const operations: AnyBulkWriteOperation[] = [];
+                for (const row of rows) {
+                    const processedRow = await runBeforeUpdate(row, 'upsert', true) as Record<string, unknown>;
+
+                    // A missing key would be dropped from the filter, and every such row would hit the same document
+                    const missingKey = conflictKeys.find((key) => processedRow[key] === undefined || processedRow[key] === null);
+                    if (missingKey) {
+                        throw new Error(`bulkUpsert on ${target} needs a value for conflict key "${missingKey}" in every row.`);
+                    }
+
+                    const keyFilter = conflictKeys.reduce<Record<string, unknown>>(
+                        (acc, key) => ({ ...acc, [key]: processedRow[key] }),
+                        {},
+                    );
+                    keyFilters.push(keyFilter);
+                    operations.push({
+                        updateOne: {
+                            filter: keyFilter,
+                            update: restoreOnUpsert(buildUpsertUpdate(processedRow, conflictKeys, options.updateColumns)),
+                            upsert: true,
+                        },
+                    });
+                }
+
+                await model.bulkWrite(operations, writeOptionsFor(options));
+
+                const query = routeRead(model.find({ $or: keyFilters }), primaryRead);
+                const docs = await query.lean().exec() as Record<string, unknown>[];
+
+                // Return the documents in the order of the input rows
+                const byKey = new Map(docs.map((doc) => [tupleKey(doc), doc]));
+                const entities = keyFilters
+                    .map((keyFilter) => byKey.get(tupleKey(keyFilter)))
+                    .filter((doc): doc is Record<string, unknown> => !!doc) as T[];
+
+                // Run afterUpdate hook for each upserted entity
+                for (const entity of entities) {
+                    await runAfterUpdate(entity);
+                }
+
+                return entities;
+            },
+
+            async distinct<K extends keyof T>(
+                field: K,
+                filter: Record<string, unknown> = {},
+                options?: ReadOptions,
+            ): Promise<T[K][]> {
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+                const query = routeRead(model.distinct(String(field), mergedFilter), options);
                 const values = await query.exec();
                 return values as T[K][];
             },
 
-            async select<K extends keyof T>(filter: Record<string, unknown>, fields: K[]): Promise<Pick<T, K>[]> {
-                const mergedFilter = { ...filter, ...notDeletedFilter };
+            async select<K extends keyof T>(
+                filter: Record<string, unknown>,
+                fields: K[],
+                options?: ReadOptions,
+            ): Promise<Pick<T, K>[]> {
+                const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
                 const projection = fields.reduce((acc, field) => ({ ...acc, [field]: 1 }), {});
-                let query = model.find(mergedFilter).select(projection);
-                if (session) query = query.session(session);
+                const query = routeRead(model.find(mergedFilter).select(projection), options);
                 const docs = await query.lean().exec();
                 return docs as Pick<T, K>[];
             },
 
+            async aggregate<
+                G extends string = never,
+                M extends Record<string, AggregateMetric> = Record<string, AggregateMetric>,
+            >(options: AggregateOptions<Record<string, unknown>, G, M>): Promise<AggregateRow<T, G, M>[]> {
+                const { groupBy, metrics, having, sort, limit } = normalizeAggregateOptions(options, columns, target);
+
+                // Pipelines skip Mongoose casting, so cast the filter through a query first
+                const mergedFilter = { ...toFilter(options.filter ?? {}), ...notDeletedFilter };
+                const match = model.find(mergedFilter).cast(model);
+
+                // Group keys are positional so dotted field names stay valid
+                const pipeline: PipelineStage[] = [
+                    { $match: match },
+                    {
+                        $group: {
+                            _id: groupBy.length
+                                ? Object.fromEntries(groupBy.map((field, i) => [`g${i}`, `$${field}`]))
+                                : null,
+                            ...Object.fromEntries(metrics.map((metric) => [metric.name, toAccumulator(metric)])),
+                        },
+                    },
+                    {
+                        $project: {
+                            _id: 0,
+                            ...Object.fromEntries(groupBy.map((field, i) => [field, `$_id.g${i}`])),
+                            ...Object.fromEntries(metrics.map(({ name }) => [name, 1])),
+                        },
+                    },
+                ];
+                if (having) pipeline.push({ $match: toMongoFilter(having) });
+                if (sort.length) {
+                    pipeline.push({
+                        $sort: Object.fromEntries(
+                            sort.map(({ field, direction }) => [field, direction === 'desc' ? -1 : 1]),
+                        ),
+                    });
+                }
+                if (limit !== undefined) pipeline.push({ $limit: limit });
+
+                const query = routeRead(model.aggregate(pipeline), options);
+                const rows = (await query.exec()) as Record<string, unknown>[];
+
+                // $group emits nothing for an empty input; SQL still returns one summary row
+                if (groupBy.length === 0 && rows.length === 0) {
+                    const empty = Object.fromEntries(
+                        metrics.map((metric) => [metric.name, toMetricValue(metric, null)]),
+                    );
+                    if (!having || matchesFilter(empty, having)) rows.push(empty);
+                }
+
+                return rows.map((row) => {
+                    const result: Record<string, unknown> = { ...row };
+                    metrics.forEach((metric) => {
+                        result[metric.name] = toMetricValue(metric, row[metric.name]);
+                    });
+                    return result as AggregateRow<T, G, M>;
+                });
+            },
+
             // -----------------------------
             // Soft Delete Operations
             // -----------------------------
 
             softDelete: softDeleteEnabled
-                ? async (id: string | number): Promise<boolean> => {
-                    const mergedFilter = { _id: id, ...notDeletedFilter };
-                    const options = session ? { session } : {};
-                    const result = await model.updateOne(
-                        mergedFilter,
-                        { [softDeleteField]: new Date() },
-                        options
-                    ).exec();
-                    return result.modifiedCount > 0;
-                }
+                ? async (id: string | number, options?: WriteOptions): Promise<boolean> =>
+                    softDeleteOne(id, options)
                 : undefined,
 
             softDeleteMany: softDeleteEnabled
-                ? async (filter: Record<string, unknown>): Promise<number> => {
-                    const mergedFilter = { ...filter, ...notDeletedFilter };
-                    const options = session ? { session } : {};
-                    const result = await model.updateMany(
-                        mergedFilter,
-                        { [softDeleteField]: new Date() },
-                        options
-                    ).exec();
-                    return result.modifiedCount;
+                ? async (filter: Record<string, unknown>, options?: WriteOptions): Promise<number> => {
+                    const mergedFilter = { ...toFilter(filter), ...notDeletedFilter };
+                    return softDeleteWhere(mergedFilter, options);
                 }
                 : undefined,
 
             restore: softDeleteEnabled
-                ? async (id: string | number): Promise<T | null> => {
+                ? async (id: string | number, options?: WriteOptions): Promise<T | null> => {
+                    // Run beforeRestore hook
+                    await runBeforeRestore(id);
+
                     const deletedFilter = { _id: id, [softDeleteField]: { $ne: null } };
-                    let query = model.findOneAndUpdate(
+                    const query = model.findOneAndUpdate(
                         deletedFilter,
                         { $unset: { [softDeleteField]: 1 } },
-                        { new: true }
+                        { new: true, ...writeOptionsFor(options) }
                     );
-                    if (session) query = query.session(session);
                     const doc = await query.lean().exec();
-                    return doc as T | null;
+                    const entity = (doc as T) || null;
+
+                    // Run afterRestore hook
+                    await runAfterRestore(entity);
+
+                    return entity;
                 }
                 : undefined,
 
             restoreMany: softDeleteEnabled
-                ? async (filter: Record<string, unknown>): Promise<number> => {
-                    const deletedFilter = { ...filter, [softDeleteField]: { $ne: null } };
-                    const options = session ? { session } : {};
+                ? async (filter: Record<string, unknown>, writeOptions?: WriteOptions): Promise<number> => {
+                    let deletedFilter: Record<string, unknown> = { ...toFilter(filter), [softDeleteField]: { $ne: null } };
+                    const options = writeOptionsFor(writeOptions);
+
+                    // Pin the matched ids so restore hooks run per document
+                    const ids = hasRestoreHooks ? await findIds(deletedFilter) : undefined;
+                    if (ids) {
+                        if (ids.length === 0) return 0;
+                        for (const id of ids) {
+                            await runBeforeRestore(id);
+                        }
+                        deletedFilter = { ...deletedFilter, _id: { $in: ids } };
+                    }
+
                     const result = await model.updateMany(
                         deletedFilter,
                         { $unset: { [softDeleteField]: 1 } },
                         options
                     ).exec();
+
+                    // Run afterRestore hook for each restored entity
+                    if (ids && hooks?.afterRestore) {
+                        const query = routeRead(model.find({ _id: { $in: ids } }), primaryRead);
+                        const docs = await query.lean().exec();
+                        for (const doc of docs) {
+                            await runAfterRestore(doc as T);
+                        }
+                    }
+
                     return result.modifiedCount;
                 }
                 : undefined,
 
             findAllWithDeleted: softDeleteEnabled
                 ? async (filter: Record<string, unknown> = {}): Promise<T[]> => {
-                    let query = model.find(filter);
-                    if (session) query = query.session(session);
+                    const query = routeRead(model.find(toFilter(filter)));
                     const docs = await query.lean().exec();
                     return docs as T[];
                 }
@@ -462,16 +1178,15 @@ export class MongoAdapter {
 
             findDeleted: softDeleteEnabled
                 ? async (filter: Record<string, unknown> = {}): Promise<T[]> => {
-                    const deletedFilter = { ...filter, [softDeleteField]: { $ne: null } };
-                    let query = model.find(deletedFilter);
-                    if (session) query = query.session(session);
+                    const deletedFilter = { ...toFilter(filter), [softDeleteField]: { $ne: null } };
+                    const query = routeRead(model.find(deletedFilter));
                     const docs = await query.lean().exec();
                     return docs as T[];
                 }
                 : undefined,
         };
 
-        return repo;
+        return opts.fieldNames ? mapEntityFields(repo, opts.fieldNames) : repo;
     }
 
     /**
@@ -480,6 +1195,10 @@ export class MongoAdapter {
      * 
      * **Note:** MongoDB transactions require a replica set.
      * Standalone MongoDB instances do not support transactions.
+     *
+     * Transactions always read from the primary. `readConcern` and `writeConcern`
+     * apply to the whole transaction and default to the connection's settings;
+     * repository-level and per-call concerns are ignored inside the transaction.
      * 
      * @param callback - Function to execute within the transaction
      * @param options - Transaction options
@@ -504,17 +1223,23 @@ export class MongoAdapter {
         options: TransactionOptions = {},
     ): Promise<TResult> {
         const { retries = 0, timeout = DATABASE_KIT_CONSTANTS.DEFAULT_TRANSACTION_TIMEOUT } = options;
+        const readConcern = options.readConcern ?? this.config.readConcern;
+        const writeConcern = options.writeConcern ?? this.config.writeConcern;
 
         await this.connect();
 
         let lastError: Error | undefined;
 
         for (let attempt = 0; attempt <= retries; attempt++) {
-            const session = await mongoose.startSession();
+            const session = await this.getConnection().startSession();
 
             try {
                 session.startTransaction({
                     maxCommitTimeMS: timeout,
+                    // Transactions must read from the primary, whatever the connection default is
+                    ...(this.config.readPreference && { readPreference: 'primary' }),
+                    ...(readConcern && { readConcern: { level: readConcern } }),
+                    ...(writeConcern && { writeConcern }),
                 });
 
                 const context: MongoTransactionContext = {
@@ -5,18 +5,23 @@ import {
     PostgresEntityConfig,
     PostgresTransactionContext,
     Repository,
-    PageResult,
-    PageOptions,
     TransactionOptions,
     TransactionCallback,
     HealthCheckResult,
+    ReplicaHealth,
     DATABASE_KIT_CONSTANTS,
 } from '../contracts/database.contracts';
+import { createKnexRepository } from './knex.repository';
 
 /**
  * PostgreSQL adapter for DatabaseKit.
  * Handles PostgreSQL connection and repository creation via Knex.
  * 
+ * When `replicas` are configured, each replica gets its own pool and
+ * replica-eligible reads (`findAll`, `findPage`, `count`, `distinct`, `select`)
+ * are spread across them. Writes, other reads and transactions use the primary.
+ * Replicas that failed their last health check are skipped until they pass again.
+ * 
  * @example
  * ```typescript
  * const adapter = new PostgresAdapter({ type: 'postgres', connectionString: 'postgresql://...' });
@@ -29,6 +34,9 @@ export class PostgresAdapter {
     private readonly logger = new Logger(PostgresAdapter.name);
     private readonly config: PostgresDatabaseConfig;
     private knexInstance?: Knex;
+    private replicaInstances: Knex[] = [];
+    private nextReplica = 0;
+    private readonly unhealthyReplicas = new Set<Knex>();
 
     constructor(config: PostgresDatabaseConfig) {
         this.config = config;
@@ -45,36 +53,30 @@ export class PostgresAdapter {
         if (!this.knexInstance) {
             this.logger.log('Creating PostgreSQL connection pool...');
 
-            // Apply pool configuration from config
-            const poolConfig = this.config.pool || {};
-            const pool = {
-                min: poolConfig.min ?? 0,
-                max: poolConfig.max ?? 10,
-                idleTimeoutMillis: poolConfig.idleTimeoutMs ?? 30000,
-                acquireTimeoutMillis: poolConfig.acquireTimeoutMs ?? 60000,
-            };
-
-            this.knexInstance = knex({
-                client: 'pg',
-                connection: this.config.connectionString,
-                pool,
-                acquireConnectionTimeout: poolConfig.acquireTimeoutMs ?? 60000,
-                ...overrides,
-            });
+            this.knexInstance = this.createPool(this.config.connectionString, overrides);
+            this.replicaInstances = (this.config.replicas ?? []).map((connectionString) =>
+                this.createPool(connectionString, overrides),
+            );
 
-            this.logger.log('PostgreSQL connection pool created');
+            this.logger.log(
+                this.replicaInstances.length > 0
+                    ? `PostgreSQL connection pool created with ${this.replicaInstances.length} read replica(s)`
+                    : 'PostgreSQL connection pool created',
+            );
         }
 
         return this.knexInstance;
     }
 
     /**
-     * Gracefully destroys the connection pool.
+     * Gracefully destroys the connection pool and any replica pools.
      */
     async disconnect(): Promise<void> {
         if (this.knexInstance) {
-            await this.knexInstance.destroy();
+            await Promise.all([this.knexInstance, ...this.replicaInstances].map((kx) => kx.destroy()));
             this.knexInstance = undefined;
+            this.replicaInstances = [];
+            this.unhealthyReplicas.clear();
             this.logger.log('PostgreSQL connection pool destroyed');
         }
     }
@@ -90,6 +92,37 @@ export class PostgresAdapter {
         return this.knexInstance;
     }
 
+    /**
+     * Returns the Knex instance for a replica-eligible read.
+     * Picks a replica by the configured `replicaBalancing`, skipping replicas that failed
+     * their last health check, or the primary when none is left.
+     * Throws if not connected.
+     */
+    getReadKnex(): Knex {
+        const primary = this.getKnex();
+        const replicas = this.replicaInstances.filter((kx) => !this.unhealthyReplicas.has(kx));
+        const count = replicas.length;
+        if (count === 0) {
+            return primary;
+        }
+
+        const start = this.nextReplica % count;
+        this.nextReplica = (start + 1) % count;
+
+        let chosen = replicas[start];
+        if (this.config.replicaBalancing === 'least-busy') {
+            // Scan from the round-robin position so ties still rotate
+            for (let offset = 1; offset < count; offset++) {
+                const candidate = replicas[(start + offset) % count];
+                if (this.poolLoad(candidate) < this.poolLoad(chosen)) {
+                    chosen = candidate;
+                }
+            }
+        }
+
+        return chosen;
+    }
+
     /**
      * Checks if connected to PostgreSQL.
      */
@@ -131,6 +164,11 @@ export class PostgresAdapter {
             // Get pool info if available
             const pool = (this.knexInstance.client as { pool?: { numUsed?: () => number; numFree?: () => number } }).pool;
 
+            // Replica health is reported on its own: reads skip a failed replica, so it does not fail the primary
+            const replicas = this.replicaInstances.length > 0
+                ? await Promise.all(this.replicaInstances.map((kx, index) => this.checkReplica(kx, index)))
+                : undefined;
+
             return {
                 healthy: true,
                 responseTimeMs: Date.now() - startTime,
@@ -139,6 +177,7 @@ export class PostgresAdapter {
                     version: row?.version?.split(' ').slice(0, 2).join(' '),
                     activeConnections: pool?.numUsed?.() ?? 0,
                     poolSize: (pool?.numUsed?.() ?? 0) + (pool?.numFree?.() ?? 0),
+                    replicas,
                 },
             };
         } catch (error) {
@@ -160,448 +199,12 @@ export class PostgresAdapter {
      * @returns Repository instance with CRUD methods
      */
     createRepository<T = unknown>(cfg: PostgresEntityConfig<T>, trx?: Knex.Transaction): Repository<T> {
-        const kx = trx || this.getKnex();
-        const table = cfg.table;
-        const pk = cfg.primaryKey || 'id';
-        const allowed = cfg.columns || [];
-        const baseFilter = cfg.defaultFilter || {};
-
-        // Soft delete configuration
-        const softDeleteEnabled = cfg.softDelete ?? false;
-        const softDeleteField = cfg.softDeleteField ?? 'deleted_at';
-
-        // Timestamp configuration
-        const timestampsEnabled = cfg.timestamps ?? false;
-        const createdAtField = cfg.createdAtField ?? 'created_at';
-        const updatedAtField = cfg.updatedAtField ?? 'updated_at';
-
-        // Hooks configuration
-        const hooks = cfg.hooks;
-
-        // Create not-deleted filter for soft delete
-        const notDeletedFilter: Record<string, unknown> = softDeleteEnabled
-            ? { [softDeleteField]: { isNull: true } }
-            : {};
-
-        // Helper to add createdAt timestamp
-        const addCreatedAt = <D extends Record<string, unknown>>(data: D): D => {
-            if (timestampsEnabled) {
-                return { ...data, [createdAtField]: new Date() };
-            }
-            return data;
-        };
-
-        // Helper to add updatedAt timestamp
-        const addUpdatedAt = <D extends Record<string, unknown>>(data: D): D => {
-            if (timestampsEnabled) {
-                return { ...data, [updatedAtField]: new Date() };
-            }
-            return data;
-        };
-
-        // Hook helper functions
-        const runBeforeCreate = async (data: Partial<T>): Promise<Partial<T>> => {
-            if (hooks?.beforeCreate) {
-                const result = await hooks.beforeCreate({
-                    data,
-                    operation: 'create',
-                    isBulk: false,
-                });
-                return result ?? data;
-            }
-            return data;
-        };
-
-        const runAfterCreate = async (entity: T): Promise<void> => {
-            if (hooks?.afterCreate) {
-                await hooks.afterCreate(entity);
-            }
-        };
-
-        const runBeforeUpdate = async (data: Partial<T>): Promise<Partial<T>> => {
-            if (hooks?.beforeUpdate) {
-                const result = await hooks.beforeUpdate({
-                    data,
-                    operation: 'update',
-                    isBulk: false,
-                });
-                return result ?? data;
-            }
-            return data;
-        };
-
-        const runAfterUpdate = async (entity: T | null): Promise<void> => {
-            if (hooks?.afterUpdate) {
-                await hooks.afterUpdate(entity);
-            }
-        };
-
-        const runBeforeDelete = async (id: string | number): Promise<void> => {
-            if (hooks?.beforeDelete) {
-                await hooks.beforeDelete(id);
-            }
-        };
-
-        const runAfterDelete = async (success: boolean): Promise<void> => {
-            if (hooks?.afterDelete) {
-                await hooks.afterDelete(success);
-            }
-        };
-
-        const assertFieldAllowed = (field: string): void => {
-            if (allowed.length && !allowed.includes(field)) {
-                throw new Error(
-                    `Field "${field}" is not allowed for table "${table}". Add it to columns[] in config.`,
-                );
-            }
-        };
-
-        const applyFilter = (
-            qb: Knex.QueryBuilder,
-            filter: Record<string, unknown>,
-        ): void => {
-            Object.entries(filter).forEach(([key, value]) => {
-                assertFieldAllowed(key);
-
-                if (value && typeof value === 'object' && !Array.isArray(value)) {
-                    const ops = value as Record<string, unknown>;
-
-                    if (ops.eq !== undefined) qb.where(key, ops.eq);
-                    if (ops.ne !== undefined) qb.whereNot(key, ops.ne);
-                    if (ops.gt !== undefined) qb.where(key, '>', ops.gt);
-                    if (ops.gte !== undefined) qb.where(key, '>=', ops.gte);
-                    if (ops.lt !== undefined) qb.where(key, '<', ops.lt);
-                    if (ops.lte !== undefined) qb.where(key, '<=', ops.lte);
-                    if (ops.in) qb.whereIn(key, ops.in as readonly string[]);
-                    if (ops.nin) qb.whereNotIn(key, ops.nin as readonly string[]);
-                    if (ops.like) qb.whereILike(key, `${ops.like}`);
-                    if (ops.isNull === true) qb.whereNull(key);
-                    if (ops.isNotNull === true) qb.whereNotNull(key);
-                } else {
-                    qb.where(key, value as string | number | boolean);
-                }
-            });
-        };
-
-        const applySort = (
-            qb: Knex.QueryBuilder,
-            sort?: string | Record<string, unknown>,
-        ): void => {
-            if (!sort) return;
-
-            if (typeof sort === 'string') {
-                const parts = sort.split(',');
-                for (const p of parts) {
-                    const dir = p.startsWith('-') ? 'desc' : 'asc';
-                    const col = p.replace(/^[-+]/, '');
-                    assertFieldAllowed(col);
-                    qb.orderBy(col, dir);
-                }
-            } else {
-                Object.entries(sort).forEach(([col, dir]) => {
-                    assertFieldAllowed(col);
-                    const direction =
-                        dir === -1 || String(dir).toLowerCase() === 'desc' ? 'desc' : 'asc';
-                    qb.orderBy(col, direction);
-                });
-            }
-        };
-
-        const shapePage = (
-            data: T[],
-            page: number,
-            limit: number,
-            total: number,
-        ): PageResult<T> => {
-            const pages = Math.max(1, Math.ceil((total || 0) / (limit || 1)));
-            return { data, page, limit, total, pages };
-        };
-
-        const repo: Repository<T> = {
-            async create(data: Partial<T>): Promise<T> {
-                // Run beforeCreate hook
-                let processedData = await runBeforeCreate(data);
-                processedData = addCreatedAt(processedData as Record<string, unknown>) as Partial<T>;
-
-                const [row] = await kx(table).insert(processedData).returning('*');
-                const entity = row as T;
-
-                // Run afterCreate hook
-                await runAfterCreate(entity);
-
-                return entity;
-            },
-
-            async findById(id: string | number): Promise<T | null> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter };
-                const qb = kx(table)
-                    .select('*')
-                    .where({ [pk]: id });
-                applyFilter(qb, mergedFilter);
-                const row = await qb.first();
-                return (row as T) || null;
-            },
-
-            async findAll(filter: Record<string, unknown> = {}): Promise<T[]> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-                const qb = kx(table).select('*');
-                applyFilter(qb, mergedFilter);
-                const rows = await qb;
-                return rows as T[];
-            },
-
-            async findOne(filter: Record<string, unknown>): Promise<T | null> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-                const qb = kx(table).select('*');
-                applyFilter(qb, mergedFilter);
-                const row = await qb.first();
-                return (row as T) || null;
-            },
-
-            async findPage(options: PageOptions = {}): Promise<PageResult<T>> {
-                const { filter = {}, page = 1, limit = 10, sort } = options;
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-
-                const offset = Math.max(0, (page - 1) * limit);
-
-                const qb = kx(table).select('*');
-                applyFilter(qb, mergedFilter);
-                applySort(qb, sort);
-
-                const data = (await qb.clone().limit(limit).offset(offset)) as T[];
-
-                const countRow = await kx(table)
-                    .count<{ count: string }[]>({ count: '*' })
-                    .modify((q) => applyFilter(q, mergedFilter));
-                const total = Number(countRow[0]?.count || 0);
-
-                return shapePage(data, page, limit, total);
-            },
-
-            async updateById(id: string | number, update: Partial<T>): Promise<T | null> {
-                // Run beforeUpdate hook
-                let processedUpdate = await runBeforeUpdate(update);
-                processedUpdate = addUpdatedAt(processedUpdate as Record<string, unknown>) as Partial<T>;
-
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter };
-                const qb = kx(table)
-                    .where({ [pk]: id });
-                applyFilter(qb, mergedFilter);
-                const [row] = await qb.update(processedUpdate).returning('*');
-                const entity = (row as T) || null;
-
-                // Run afterUpdate hook
-                await runAfterUpdate(entity);
-
-                return entity;
-            },
-
-            async deleteById(id: string | number): Promise<boolean> {
-                // Run beforeDelete hook
-                await runBeforeDelete(id);
-
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter };
-                let success: boolean;
-
-                // If soft delete is enabled, update instead of delete
-                if (softDeleteEnabled) {
-                    const qb = kx(table).where({ [pk]: id });
-                    applyFilter(qb, mergedFilter);
-                    const affectedRows = await qb.update({ [softDeleteField]: new Date() });
-                    success = affectedRows > 0;
-                } else {
-                    const qb = kx(table).where({ [pk]: id });
-                    applyFilter(qb, mergedFilter);
-                    const affectedRows = await qb.delete();
-                    success = affectedRows > 0;
-                }
-
-                // Run afterDelete hook
-                await runAfterDelete(success);
-
-                return success;
-            },
-
-            async count(filter: Record<string, unknown> = {}): Promise<number> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-                const [{ count }] = await kx(table)
-                    .count<{ count: string }[]>({ count: '*' })
-                    .modify((q) => applyFilter(q, mergedFilter));
-                return Number(count || 0);
-            },
-
-            async exists(filter: Record<string, unknown> = {}): Promise<boolean> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-                const row = await kx(table)
-                    .select([pk])
-                    .modify((q) => applyFilter(q, mergedFilter))
-                    .first();
-                return !!row;
-            },
-
-            // -----------------------------
-            // Bulk Operations
-            // -----------------------------
-
-            async insertMany(data: Partial<T>[]): Promise<T[]> {
-                if (data.length === 0) return [];
-
-                // Add createdAt timestamp to each record
-                const timestampedData = data.map(item =>
-                    addCreatedAt(item as Record<string, unknown>)
-                );
-
-                const rows = await kx(table)
-                    .insert(timestampedData)
-                    .returning('*');
-
-                return rows as T[];
-            },
-
-            async updateMany(filter: Record<string, unknown>, update: Partial<T>): Promise<number> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-                const timestampedUpdate = addUpdatedAt(update as Record<string, unknown>);
-
-                const affectedRows = await kx(table)
-                    .modify((q) => applyFilter(q, mergedFilter))
-                    .update(timestampedUpdate);
-
-                return affectedRows;
-            },
-
-            async deleteMany(filter: Record<string, unknown>): Promise<number> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-
-                // If soft delete is enabled, update instead of delete
-                if (softDeleteEnabled) {
-                    const affectedRows = await kx(table)
-                        .modify((q) => applyFilter(q, mergedFilter))
-                        .update({ [softDeleteField]: new Date() });
-                    return affectedRows;
-                }
-
-                const affectedRows = await kx(table)
-                    .modify((q) => applyFilter(q, mergedFilter))
-                    .delete();
-
-                return affectedRows;
-            },
-
-            // -----------------------------
-            // Advanced Query Operations
-            // -----------------------------
-
-            async upsert(filter: Record<string, unknown>, data: Partial<T>): Promise<T> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-
-                // Try to find existing record
-                const qb = kx(table).select('*');
-                applyFilter(qb, mergedFilter);
-                const existing = await qb.first();
-
-                if (existing) {
-                    // Update existing record
-                    const timestampedUpdate = addUpdatedAt(data as Record<string, unknown>);
-                    const updateQb = kx(table).where({ [pk]: existing[pk] });
-                    const [row] = await updateQb.update(timestampedUpdate).returning('*');
-                    return row as T;
-                } else {
-                    // Insert new record
-                    const timestampedData = addCreatedAt({ ...filter, ...data } as Record<string, unknown>);
-                    const [row] = await kx(table).insert(timestampedData).returning('*');
-                    return row as T;
-                }
-            },
-
-            async distinct<K extends keyof T>(field: K, filter: Record<string, unknown> = {}): Promise<T[K][]> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-                const qb = kx(table)
-                    .distinct(String(field))
-                    .modify((q) => applyFilter(q, mergedFilter));
-                const rows = await qb;
-                return rows.map((row: Record<string, unknown>) => row[String(field)] as T[K]);
-            },
-
-            async select<K extends keyof T>(filter: Record<string, unknown>, fields: K[]): Promise<Pick<T, K>[]> {
-                const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-                const qb = kx(table)
-                    .select(fields.map(String))
-                    .modify((q) => applyFilter(q, mergedFilter));
-                const rows = await qb;
-                return rows as Pick<T, K>[];
-            },
-
-            // -----------------------------
-            // Soft Delete Operations
-            // -----------------------------
-
-            softDelete: softDeleteEnabled
-                ? async (id: string | number): Promise<boolean> => {
-                    const mergedFilter = { ...baseFilter, ...notDeletedFilter };
-                    const qb = kx(table).where({ [pk]: id });
-                    applyFilter(qb, mergedFilter);
-                    const affectedRows = await qb.update({ [softDeleteField]: new Date() });
-                    return affectedRows > 0;
-                }
-                : undefined,
-
-            softDeleteMany: softDeleteEnabled
-                ? async (filter: Record<string, unknown>): Promise<number> => {
-                    const mergedFilter = { ...baseFilter, ...notDeletedFilter, ...filter };
-                    const affectedRows = await kx(table)
-                        .modify((q) => applyFilter(q, mergedFilter))
-                        .update({ [softDeleteField]: new Date() });
-                    return affectedRows;
-                }
-                : undefined,
-
-            restore: softDeleteEnabled
-                ? async (id: string | number): Promise<T | null> => {
-                    const deletedFilter = { [softDeleteField]: { isNotNull: true } };
-                    const mergedFilter = { ...baseFilter, ...deletedFilter };
-                    const qb = kx(table).where({ [pk]: id });
-                    applyFilter(qb, mergedFilter);
-                    const [row] = await qb.update({ [softDeleteField]: null }).returning('*');
-                    return (row as T) || null;
-                }
-                : undefined,
-
-            restoreMany: softDeleteEnabled
-                ? async (filter: Record<string, unknown>): Promise<number> => {
-                    const deletedFilter = { [softDeleteField]: { isNotNull: true } };
-                    const mergedFilter = { ...baseFilter, ...deletedFilter, ...filter };
-                    const affectedRows = await kx(table)
-                        .modify((q) => applyFilter(q, mergedFilter))
-                        .update({ [softDeleteField]: null });
-                    return affectedRows;
-                }
-                : undefined,
-
-            findAllWithDeleted: softDeleteEnabled
-                ? async (filter: Record<string, unknown> = {}): Promise<T[]> => {
-                    // Ignore soft delete filter, include all records
-                    const mergedFilter = { ...baseFilter, ...filter };
-                    const qb = kx(table).select('*');
-                    applyFilter(qb, mergedFilter);
-                    const rows = await qb;
-                    return rows as T[];
-                }
-                : undefined,
-
-            findDeleted: softDeleteEnabled
-                ? async (filter: Record<string, unknown> = {}): Promise<T[]> => {
-                    // Only find deleted records
-                    const deletedFilter = { [softDeleteField]: { isNotNull: true } };
-                    const mergedFilter = { ...baseFilter, ...deletedFilter, ...filter };
-                    const qb = kx(table).select('*');
-                    applyFilter(qb, mergedFilter);
-                    const rows = await qb;
-                    return rows as T[];
-                }
-                : undefined,
-        };
-
-        return repo;
+        if (trx) {
+            return createKnexRepository<T>(trx, cfg, 'postgres');
+        }
+        return createKnexRepository<T>(this.getKnex(), cfg, 'postgres', {
+            reader: () => this.getReadKnex(),
+        });
     }
 
     /**
@@ -704,6 +307,68 @@ export class PostgresAdapter {
         return false;
     }
 
+    /**
+     * Creates a Knex pool for the primary or a replica using the configured pool settings.
+     */
+    private createPool(connectionString: string, overrides: Knex.Config): Knex {
+        const poolConfig = this.config.pool || {};
+        const pool = {
+            min: poolConfig.min ?? 0,
+            max: poolConfig.max ?? 10,
+            idleTimeoutMillis: poolConfig.idleTimeoutMs ?? 30000,
+            acquireTimeoutMillis: poolConfig.acquireTimeoutMs ?? 60000,
+        };
+
+        return knex({
+            client: 'pg',
+            connection: connectionString,
+            pool,
+            acquireConnectionTimeout: poolConfig.acquireTimeoutMs ?? 60000,
+            ...overrides,
+        });
+    }
+
+    /**
+     * Counts used and pending connections of a pool, used for least-busy balancing.
+     */
+    private poolLoad(kx: Knex): number {
+        const pool = (kx.client as { pool?: { numUsed?: () => number; numPendingAcquires?: () => number } }).pool;
+        return (pool?.numUsed?.() ?? 0) + (pool?.numPendingAcquires?.() ?? 0);
+    }
+
+    /**
+     * Pings a single replica for the health check and records whether reads may use it.
+     */
+    private async checkReplica(kx: Knex, index: number): Promise<ReplicaHealth> {
+        const startTime = Date.now();
+        const host = this.replicaHost(index);
+
+        try {
+            await kx.raw('SELECT 1');
+            this.unhealthyReplicas.delete(kx);
+            return { host, healthy: true, responseTimeMs: Date.now() - startTime };
+        } catch (error) {
+            this.unhealthyReplicas.add(kx);
+            return {
+                host,
+                healthy: false,
+                responseTimeMs: Date.now() - startTime,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Returns the host of a replica without its credentials.
+     */
+    private replicaHost(index: number): string {
+        try {
+            return new URL(this.config.replicas?.[index] ?? '').host;
+        } catch {
+            return `replica ${index + 1}`;
+        }
+    }
+
     /**
      * Simple sleep utility for retry backoff.
      */
@@ -0,0 +1,158 @@
+import knex from 'knex';
+import { SqliteAdapter, parseSqliteFilename } from './sqlite.adapter';
+import { SqliteDatabaseConfig } from '../contracts/database.contracts';
+
+const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    whereLike: jest.fn().mockReturnThis(),
+    whereILike: jest.fn().mockReturnThis(),
+    then: (resolve: (rows: unknown[]) => void) => resolve([{ id: 1, name: 'test' }]),
+};
+
+const mockTrx = jest.fn(() => mockQueryBuilder);
+
+const mockKnexInstance = Object.assign(jest.fn(() => mockQueryBuilder), {
+    raw: jest.fn().mockResolvedValue([{ version: '3.45.1' }]),
+    transaction: jest.fn(async (callback: (trx: unknown) => Promise<unknown>) => callback(mockTrx)),
+    destroy: jest.fn().mockResolvedValue(undefined),
+});
+
+jest.mock('knex', () => jest.fn(() => mockKnexInstance));
+
+describe('SqliteAdapter', () => {
+    let adapter: SqliteAdapter;
+    const mockConfig: SqliteDatabaseConfig = {
+        type: 'sqlite',
+        connectionString: 'sqlite:./data/app.db',
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        adapter = new SqliteAdapter(mockConfig);
+    });
+
+    describe('parseSqliteFilename', () => {
+        it('should extract file names from sqlite: and file: URLs', () => {
+            expect(parseSqliteFilename('sqlite::memory:')).toBe(':memory:');
+            expect(parseSqliteFilename('sqlite:./data/app.db')).toBe('./data/app.db');
+            expect(parseSqliteFilename('sqlite:///var/lib/app.db')).toBe('/var/lib/app.db');
+            expect(parseSqliteFilename('file:app.db?mode=rwc')).toBe('app.db');
+        });
+
+        it('should reject other schemes and empty paths', () => {
+            expect(() => parseSqliteFilename('postgres://localhost/db')).toThrow('must start with "sqlite:"');
+            expect(() => parseSqliteFilename('sqlite:')).toThrow('has no file name');
+        });
+    });
+
+    describe('connect', () => {
+        it('should open the file with better-sqlite3 by default', () => {
+            adapter.connect();
+
+            expect(knex).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    client: 'better-sqlite3',
+                    connection: { filename: './data/app.db' },
+                    useNullAsDefault: true,
+                }),
+            );
+            expect(adapter.isConnected()).toBe(true);
+            expect(adapter.connect()).toBe(adapter.getKnex());
+        });
+
+        it('should keep a single connection for in-memory databases', () => {
+            new SqliteAdapter({
+                type: 'sqlite',
+                connectionString: 'sqlite::memory:',
+                driver: 'sqlite3',
+                pool: { max: 5 },
+            }).connect();
+
+            expect(knex).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    client: 'sqlite3',
+                    pool: expect.objectContaining({ min: 1, max: 1 }),
+                }),
+            );
+        });
+
+        it('should close the database on disconnect', async () => {
+            adapter.connect();
+            await adapter.disconnect();
+
+            expect(mockKnexInstance.destroy).toHaveBeenCalled();
+            expect(() => adapter.getKnex()).toThrow('SQLite not connected');
+        });
+    });
+
+    describe('createRepository', () => {
+        it('should use LIKE instead of ILIKE for like filters', async () => {
+            adapter.connect();
+            const repo = adapter.createRepository({ table: 'users' });
+
+            await repo.findAll({ name: { like: 'jo%' } });
+
+            expect(mockQueryBuilder.whereLike).toHaveBeenCalledWith('name', 'jo%');
+            expect(mockQueryBuilder.whereILike).not.toHaveBeenCalled();
+        });
+
+        it('should reject row locks', async () => {
+            adapter.connect();
+            const repo = adapter.createRepository({ table: 'users' });
+
+            await expect(repo.findAll({}, { lock: 'update' })).rejects.toThrow('Row locks are not supported on SQLite.');
+        });
+    });
+
+    describe('withTransaction', () => {
+        beforeEach(() => {
+            adapter.connect();
+        });
+
+        it('should run the callback without an isolation level', async () => {
+            const result = await adapter.withTransaction(async (ctx) => {
+                expect(typeof ctx.createRepository).toBe('function');
+                return 'done';
+            }, { isolationLevel: 'serializable' });
+
+            expect(result).toBe('done');
+            expect(mockKnexInstance.transaction).toHaveBeenCalledWith(expect.any(Function));
+        });
+
+        it('should retry when the database is busy', async () => {
+            const busy = Object.assign(new Error('database is locked'), { code: 'SQLITE_BUSY' });
+            const callback = jest.fn().mockRejectedValueOnce(busy).mockResolvedValueOnce('ok');
+
+            await expect(adapter.withTransaction(callback, { retries: 1 })).resolves.toBe('ok');
+            expect(callback).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not retry other errors', async () => {
+            const callback = jest.fn().mockRejectedValue(new Error('constraint failed'));
+
+            await expect(adapter.withTransaction(callback, { retries: 3 })).rejects.toThrow('constraint failed');
+            expect(callback).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('healthCheck', () => {
+        it('should return unhealthy when not connected', async () => {
+            await expect(adapter.healthCheck()).resolves.toMatchObject({
+                healthy: false,
+                type: 'sqlite',
+                error: 'Not connected to SQLite',
+            });
+        });
+
+        it('should report the SQLite version when connected', async () => {
+            adapter.connect();
+
+            await expect(adapter.healthCheck()).resolves.toMatchObject({
+                healthy: true,
+                type: 'sqlite',
+                details: { version: 'SQLite 3.45.1' },
+            });
+        });
+    });
+});
@@ -0,0 +1,245 @@
+import knex, { Knex } from 'knex';
+import { Injectable, Logger } from '@nestjs/common';
+import {
+    SqliteDatabaseConfig,
+    PostgresEntityConfig,
+    SqliteTransactionContext,
+    Repository,
+    TransactionOptions,
+    TransactionCallback,
+    HealthCheckResult,
+} from '../contracts/database.contracts';
+import { createKnexRepository } from './knex.repository';
+
+/**
+ * Extracts the database file name from a `sqlite:` or `file:` connection string.
+ *
+ * @example
+ * ```typescript
+ * parseSqliteFilename('sqlite::memory:');      // ':memory:'
+ * parseSqliteFilename('sqlite:./data/app.db'); // './data/app.db'
+ * parseSqliteFilename('file:///var/app.db');   // '/var/app.db'
+ * ```
+ */
+export function parseSqliteFilename(connectionString: string): string {
+    const match = /^(sqlite|file):(.*)$/.exec(connectionString);
+    if (!match) {
+        throw new Error('SQLite connection string must start with "sqlite:" or "file:"');
+    }
+
+    const filename = match[2].replace(/^\/\//, '').replace(/\?.*$/, '');
+    if (!filename) {
+        throw new Error(`SQLite connection string "${connectionString}" has no file name.`);
+    }
+
+    return filename;
+}
+
+/**
+ * SQLite adapter for DatabaseKit.
+ * Uses Knex's SQLite clients and shares the PostgreSQL repository semantics.
+ *
+ * Requires `better-sqlite3` (default) or `sqlite3` to be installed.
+ * Dates are stored as epoch milliseconds.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new SqliteAdapter({ type: 'sqlite', connectionString: 'sqlite:./data/app.db' });
+ * adapter.connect();
+ * const repo = adapter.createRepository({ table: 'users', primaryKey: 'id' });
+ * ```
+ */
+@Injectable()
+export class SqliteAdapter {
+    private readonly logger = new Logger(SqliteAdapter.name);
+    private readonly config: SqliteDatabaseConfig;
+    private knexInstance?: Knex;
+
+    constructor(config: SqliteDatabaseConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Creates and returns the Knex instance for SQLite.
+     * Connection is lazy-loaded and cached for reuse.
+     *
+     * @param overrides - Additional Knex configuration overrides
+     * @returns Knex instance
+     */
+    connect(overrides: Knex.Config = {}): Knex {
+        if (!this.knexInstance) {
+            const filename = parseSqliteFilename(this.config.connectionString);
+            this.logger.log(`Opening SQLite database ${filename}...`);
+
+            // Every connection to ":memory:" opens a separate database, so keep exactly one
+            const poolConfig = this.config.pool || {};
+            const max = filename === ':memory:' ? 1 : poolConfig.max ?? 1;
+
+            this.knexInstance = knex({
+                client: this.config.driver ?? 'better-sqlite3',
+                connection: { filename },
+                useNullAsDefault: true,
+                pool: {
+                    min: Math.min(poolConfig.min ?? 1, max),
+                    max,
+                    idleTimeoutMillis: poolConfig.idleTimeoutMs ?? 30000,
+                    acquireTimeoutMillis: poolConfig.acquireTimeoutMs ?? 60000,
+                },
+                ...overrides,
+            });
+
+            this.logger.log('SQLite database opened');
+        }
+
+        return this.knexInstance;
+    }
+
+    /**
+     * Closes the database file.
+     */
+    async disconnect(): Promise<void> {
+        if (this.knexInstance) {
+            await this.knexInstance.destroy();
+            this.knexInstance = undefined;
+            this.logger.log('SQLite database closed');
+        }
+    }
+
+    /**
+     * Returns the Knex instance.
+     * Throws if not connected.
+     */
+    getKnex(): Knex {
+        if (!this.knexInstance) {
+            throw new Error('SQLite not connected. Call connect() first.');
+        }
+        return this.knexInstance;
+    }
+
+    /**
+     * Checks if connected to SQLite.
+     */
+    isConnected(): boolean {
+        return !!this.knexInstance;
+    }
+
+    /**
+     * Performs a health check on the SQLite database.
+     * Executes a simple query to verify the file is readable.
+     *
+     * @returns Health check result with status and response time
+     */
+    async healthCheck(): Promise<HealthCheckResult> {
+        const startTime = Date.now();
+
+        try {
+            if (!this.knexInstance) {
+                return {
+                    healthy: false,
+                    responseTimeMs: Date.now() - startTime,
+                    type: 'sqlite',
+                    error: 'Not connected to SQLite',
+                };
+            }
+
+            const rows = await this.knexInstance.raw('SELECT sqlite_version() AS version');
+            const row = (rows as Array<{ version?: string }>)[0];
+
+            return {
+                healthy: true,
+                responseTimeMs: Date.now() - startTime,
+                type: 'sqlite',
+                details: {
+                    version: row?.version ? `SQLite ${row.version}` : undefined,
+                },
+            };
+        } catch (error) {
+            return {
+                healthy: false,
+                responseTimeMs: Date.now() - startTime,
+                type: 'sqlite',
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Creates a repository for a SQLite table.
+     * The repository behaves like a PostgreSQL repository, except that
+     * `like` uses SQLite's LIKE, which is case-insensitive for ASCII only.
+     *
+     * @param cfg - Configuration for the entity/table
+     * @param trx - Optional Knex transaction for transaction support
+     * @returns Repository instance with CRUD methods
+     */
+    createRepository<T = unknown>(cfg: PostgresEntityConfig<T>, trx?: Knex.Transaction): Repository<T> {
+        return createKnexRepository<T>(trx || this.getKnex(), cfg, 'sqlite');
+    }
+
+    /**
+     * Executes a callback within a SQLite transaction.
+     * SQLite transactions are always serializable, so `isolationLevel` and `timeout` are ignored.
+     *
+     * @param callback - Function to execute within the transaction
+     * @param options - Transaction options; `retries` applies to SQLITE_BUSY errors
+     * @returns Result of the callback function
+     * @throws Error if transaction fails after all retries
+     */
+    async withTransaction<TResult>(
+        callback: TransactionCallback<SqliteTransactionContext, TResult>,
+        options: TransactionOptions = {},
+    ): Promise<TResult> {
+        const { retries = 0 } = options;
+
+        const kx = this.getKnex();
+        let lastError: Error | undefined;
+
+        for (let attempt = 0; attempt <= retries; attempt++) {
+            try {
+                const result = await kx.transaction(async (trx) => {
+                    const context: SqliteTransactionContext = {
+                        transaction: trx,
+                        createRepository: <T>(config: PostgresEntityConfig) =>
+                            this.createRepository<T>(config, trx),
+                    };
+
+                    return await callback(context);
+                });
+
+                this.logger.debug(`Transaction committed successfully (attempt ${attempt + 1})`);
+                return result;
+            } catch (error) {
+                lastError = error as Error;
+
+                this.logger.warn(
+                    `Transaction failed (attempt ${attempt + 1}/${retries + 1}): ${lastError.message}`,
+                );
+
+                if (!this.isRetryableError(error) || attempt >= retries) {
+                    throw lastError;
+                }
+
+                // Exponential backoff before retry
+                const backoffMs = Math.min(100 * Math.pow(2, attempt), 3000);
+                await this.sleep(backoffMs);
+            }
+        }
+
+        throw lastError || new Error('Transaction failed');
+    }
+
+    /**
+     * Checks if a SQLite error is retryable (database locked by another writer).
+     */
+    private isRetryableError(error: unknown): boolean {
+        const code = (error as { code?: string } | undefined)?.code;
+        return code === 'SQLITE_BUSY' || code === 'SQLITE_LOCKED';
+    }
+
+    /**
+     * Simple sleep utility for retry backoff.
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
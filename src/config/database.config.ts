@@ -67,12 +67,36 @@ export class DatabaseConfigHelper {
     static fromEnv(): DatabaseConfig {
         const type = this.getEnv(ENV_KEYS.DATABASE_TYPE) as DatabaseType;
 
-        if (type !== 'mongo' && type !== 'postgres') {
+        if (
+            type !== 'mongo' &&
+            type !== 'postgres' &&
+            type !== 'mysql' &&
+            type !== 'sqlite' &&
+            type !== 'memory'
+        ) {
             throw new Error(
-                `Invalid DATABASE_TYPE: "${String(type)}". Must be "mongo" or "postgres".`,
+                `Invalid DATABASE_TYPE: "${String(type)}". Must be "mongo", "postgres", "mysql", "sqlite" or "memory".`,
             );
         }
 
+        if (type === 'memory') {
+            return { type: 'memory' };
+        }
+
+        if (type === 'mysql') {
+            return {
+                type: 'mysql',
+                connectionString: this.getEnv(ENV_KEYS.MYSQL_URI),
+            };
+        }
+
+        if (type === 'sqlite') {
+            return {
+                type: 'sqlite',
+                connectionString: this.getEnv(ENV_KEYS.SQLITE_URI),
+            };
+        }
+
         if (type === 'mongo') {
             return {
                 type: 'mongo',
@@ -80,9 +104,15 @@ export class DatabaseConfigHelper {
             };
         }
 
+        const replicas = this.getEnvOrDefault(ENV_KEYS.POSTGRES_REPLICA_URIS, '')
+            .split(',')
+            .map((uri) => uri.trim())
+            .filter(Boolean);
+
         return {
             type: 'postgres',
             connectionString: this.getEnv(ENV_KEYS.POSTGRES_URI),
+            ...(replicas.length > 0 && { replicas }),
         };
     }
 
@@ -100,12 +130,18 @@ export class DatabaseConfigHelper {
             throw new Error('Database configuration must include a type');
         }
 
-        if (rawConfig.type !== 'mongo' && rawConfig.type !== 'postgres') {
+        const types = ['mongo', 'postgres', 'mysql', 'sqlite', 'memory'];
+        if (!types.includes(rawConfig.type as string)) {
             throw new Error(
-                `Invalid database type: "${rawConfig.type}". Must be "mongo" or "postgres".`,
+                `Invalid database type: "${rawConfig.type}". Must be "mongo", "postgres", "mysql", "sqlite" or "memory".`,
             );
         }
 
+        // The in-memory store has nothing to connect to
+        if (config.type === 'memory') {
+            return;
+        }
+
         if (!rawConfig.connectionString) {
             throw new Error('Database configuration must include a connectionString');
         }
@@ -118,6 +154,20 @@ export class DatabaseConfigHelper {
                     'MongoDB connection string must start with "mongodb://" or "mongodb+srv://"',
                 );
             }
+
+            const readPreferences = ['primary', 'primaryPreferred', 'secondary', 'secondaryPreferred', 'nearest'];
+            if (config.readPreference !== undefined && !readPreferences.includes(config.readPreference)) {
+                throw new Error(
+                    `Invalid readPreference: "${String(config.readPreference)}". Must be one of ${readPreferences.join(', ')}.`,
+                );
+            }
+
+            const readConcerns = ['local', 'available', 'majority', 'linearizable', 'snapshot'];
+            if (config.readConcern !== undefined && !readConcerns.includes(config.readConcern)) {
+                throw new Error(
+                    `Invalid readConcern: "${String(config.readConcern)}". Must be one of ${readConcerns.join(', ')}.`,
+                );
+            }
         }
 
         if (config.type === 'postgres') {
@@ -127,6 +177,39 @@ export class DatabaseConfigHelper {
                     'PostgreSQL connection string must start with "postgresql://" or "postgres://"',
                 );
             }
+
+            config.replicas?.forEach((replica, index) => {
+                if (!replica.startsWith('postgresql://') && !replica.startsWith('postgres://')) {
+                    throw new Error(
+                        `PostgreSQL replica connection string #${index + 1} must start with "postgresql://" or "postgres://"`,
+                    );
+                }
+            });
+
+            const balancing = config.replicaBalancing;
+            if (balancing !== undefined && balancing !== 'round-robin' && balancing !== 'least-busy') {
+                throw new Error(
+                    `Invalid replicaBalancing: "${String(balancing)}". Must be "round-robin" or "least-busy".`,
+                );
+            }
+        }
+
+        if (config.type === 'mysql') {
+            if (!config.connectionString.startsWith('mysql://') &&
+                !config.connectionString.startsWith('mariadb://')) {
+                throw new Error(
+                    'MySQL connection string must start with "mysql://" or "mariadb://"',
+                );
+            }
+        }
+
+        if (config.type === 'sqlite') {
+            if (!config.connectionString.startsWith('sqlite:') &&
+                !config.connectionString.startsWith('file:')) {
+                throw new Error(
+                    'SQLite connection string must start with "sqlite:" or "file:"',
+                );
+            }
         }
     }
 
@@ -6,6 +6,11 @@
  */
 export const DATABASE_TOKEN = 'DATABASE_KIT_DEFAULT';
 
+/**
+ * Registry name of the connection configured with `config` in forRoot().
+ */
+export const DEFAULT_CONNECTION_NAME = 'default';
+
 /**
  * Injection token for DatabaseKit module options.
  * Used internally for async configuration.
@@ -20,7 +25,13 @@ export const ENV_KEYS = {
   MONGO_URI: 'MONGO_URI',
   /** PostgreSQL connection string */
   POSTGRES_URI: 'DATABASE_URL',
-  /** Database type ('mongo' or 'postgres') */
+  /** Comma-separated PostgreSQL read replica connection strings */
+  POSTGRES_REPLICA_URIS: 'DATABASE_REPLICA_URLS',
+  /** MySQL/MariaDB connection string */
+  MYSQL_URI: 'MYSQL_URL',
+  /** SQLite connection string (sqlite:<path> or file:<path>) */
+  SQLITE_URI: 'SQLITE_URL',
+  /** Database type ('mongo', 'postgres', 'mysql', 'sqlite' or 'memory') */
   DATABASE_TYPE: 'DATABASE_TYPE',
   /** Connection pool size */
   POOL_SIZE: 'DATABASE_POOL_SIZE',
@@ -43,3 +54,14 @@ export const DEFAULTS = {
   /** Default server selection timeout for MongoDB */
   SERVER_SELECTION_TIMEOUT: 5000,
 } as const;
+
+/**
+ * Reflect metadata keys written by the entity decorators.
+ * Used internally by the entity metadata reader.
+ */
+export const ENTITY_METADATA_KEYS = {
+  /** Options passed to @Entity() */
+  ENTITY: 'database-kit:entity',
+  /** Columns declared with @Column() and the other property decorators */
+  COLUMNS: 'database-kit:columns',
+} as const;
@@ -0,0 +1,175 @@
+// src/database-kit.module.spec.ts
+
+import { Injectable, Module } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { DatabaseKitModule } from './database-kit.module';
+import { DatabaseRegistry } from './services/database-registry.service';
+import { DatabaseService } from './services/database.service';
+import { InjectDatabase, InjectDatabaseByToken, InjectRepository } from './middleware/database.decorators';
+import { Repository, RepositoryConfig } from './contracts/database.contracts';
+
+interface User {
+    id: number;
+    name: string;
+}
+
+const UserEntityConfig: RepositoryConfig<User> = { table: 'users' };
+
+@Injectable()
+class ReportService {
+    constructor(
+        @InjectDatabase() readonly main: DatabaseService,
+        @InjectDatabaseByToken('analytics') readonly analytics: DatabaseService,
+    ) {}
+}
+
+@Injectable()
+class UserService {
+    constructor(
+        @InjectRepository(UserEntityConfig) readonly users: Repository<User>,
+        @InjectRepository(UserEntityConfig, 'archive') readonly archivedUsers: Repository<User>,
+    ) {}
+}
+
+describe('DatabaseKitModule', () => {
+    it('should register named connections and resolve injection tokens from the registry', async () => {
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                DatabaseKitModule.forRoot({
+                    connections: {
+                        main: { type: 'memory' },
+                        analytics: { type: 'memory' },
+                    },
+                }),
+            ],
+            providers: [ReportService],
+        }).compile();
+
+        const registry = moduleRef.get(DatabaseRegistry);
+        const service = moduleRef.get(ReportService);
+
+        expect(registry.getNames()).toEqual(['main', 'analytics']);
+        expect(service.main).toBe(registry.get('main'));
+        expect(service.analytics).toBe(registry.get('analytics'));
+        expect(service.main.isConnected()).toBe(true);
+
+        await moduleRef.close();
+
+        expect(service.main.isConnected()).toBe(false);
+        expect(service.analytics.isConnected()).toBe(false);
+    });
+
+    it('should add feature connections to the registry', async () => {
+        @Module({
+            imports: [
+                DatabaseKitModule.forFeatureAsync('REPORTS_DB', {
+                    useFactory: () => ({ type: 'memory' }),
+                }),
+            ],
+        })
+        class ReportsModule {}
+
+        const moduleRef = await Test.createTestingModule({
+            imports: [DatabaseKitModule.forRoot({ config: { type: 'memory' } }), ReportsModule],
+        }).compile();
+
+        const registry = moduleRef.get(DatabaseRegistry);
+
+        expect(registry.getNames()).toEqual(['default', 'REPORTS_DB']);
+        await expect(registry.healthCheck()).resolves.toMatchObject({ healthy: true });
+
+        await moduleRef.close();
+    });
+
+    it('should provide one repository per config and connection', async () => {
+        @Module({
+            imports: [
+                DatabaseKitModule.forFeatureRepositories([UserEntityConfig]),
+                DatabaseKitModule.forFeatureRepositories([UserEntityConfig], 'archive'),
+            ],
+            providers: [UserService],
+        })
+        class UsersModule {}
+
+        @Module({
+            imports: [DatabaseKitModule.forFeatureRepositories([UserEntityConfig])],
+        })
+        class OtherModule {}
+
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                DatabaseKitModule.forRoot({
+                    config: { type: 'memory' },
+                    connections: { archive: { type: 'memory' } },
+                }),
+                UsersModule,
+                OtherModule,
+            ],
+        }).compile();
+
+        const registry = moduleRef.get(DatabaseRegistry);
+        const service = moduleRef.get(UserService);
+
+        expect(service.users).toBe(registry.getRepository(UserEntityConfig));
+        expect(service.archivedUsers).toBe(registry.getRepository(UserEntityConfig, 'archive'));
+        expect(service.users).not.toBe(service.archivedUsers);
+
+        await service.users.create({ name: 'Ada' });
+        await expect(service.users.count()).resolves.toBe(1);
+        await expect(service.archivedUsers.count()).resolves.toBe(0);
+
+        await moduleRef.close();
+    });
+
+    it('should keep configurations for the same table apart by token', async () => {
+        const ActiveUsersConfig: RepositoryConfig<User> = { table: 'users', token: 'active_users' };
+
+        @Injectable()
+        class AccountService {
+            constructor(
+                @InjectRepository(UserEntityConfig) readonly users: Repository<User>,
+                @InjectRepository(ActiveUsersConfig) readonly activeUsers: Repository<User>,
+            ) {}
+        }
+
+        const moduleRef = await Test.createTestingModule({
+            imports: [
+                DatabaseKitModule.forRoot({ config: { type: 'memory' } }),
+                DatabaseKitModule.forFeatureRepositories([UserEntityConfig, ActiveUsersConfig]),
+            ],
+            providers: [AccountService],
+        }).compile();
+
+        const service = moduleRef.get(AccountService);
+
+        expect(service.users).toBe(moduleRef.get(DatabaseRegistry).getRepository(UserEntityConfig));
+        expect(service.activeUsers).toBe(moduleRef.get(DatabaseRegistry).getRepository(ActiveUsersConfig));
+
+        await moduleRef.close();
+    });
+
+    it('should reject two configurations under one repository token', async () => {
+        expect(() => DatabaseKitModule.forFeatureRepositories([UserEntityConfig, { table: 'users' }])).toThrow(
+            'Repository token "DATABASE_KIT_REPOSITORY:users" is already provided for another configuration.',
+        );
+
+        @Module({ imports: [DatabaseKitModule.forFeatureRepositories([{ table: 'users' }])] })
+        class OtherUsersModule {}
+
+        await expect(
+            Test.createTestingModule({
+                imports: [
+                    DatabaseKitModule.forRoot({ config: { type: 'memory' } }),
+                    DatabaseKitModule.forFeatureRepositories([UserEntityConfig]),
+                    OtherUsersModule,
+                ],
+            }).compile(),
+        ).rejects.toThrow('is already provided for another configuration');
+    });
+
+    it('should require at least one connection', () => {
+        expect(() => DatabaseKitModule.forRoot({})).toThrow(
+            'DatabaseKitModule requires "config" or at least one entry in "connections".',
+        );
+    });
+});
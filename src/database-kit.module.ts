@@ -2,13 +2,20 @@
 
 import { DynamicModule, Global, Module, Provider, Logger } from '@nestjs/common';
 import { DatabaseService } from './services/database.service';
+import { MigrationService } from './services/migration.service';
+import { SeederService } from './services/seeder.service';
+import { QueueService } from './services/queue.service';
 import { LoggerService } from './services/logger.service';
+import { DatabaseRegistry } from './services/database-registry.service';
+import { getRepositoryToken } from './middleware/database.decorators';
 import {
+    RepositoryConfig,
     DatabaseConfig,
     DatabaseKitModuleOptions,
-    DatabaseKitModuleAsyncOptions
+    DatabaseKitModuleAsyncOptions,
+    DatabaseFeatureAsyncOptions,
 } from './contracts/database.contracts';
-import { DATABASE_TOKEN, DATABASE_OPTIONS_TOKEN } from './config/database.constants';
+import { DATABASE_TOKEN, DATABASE_OPTIONS_TOKEN, DEFAULT_CONNECTION_NAME } from './config/database.constants';
 
 /**
  * DatabaseKitModule - Main NestJS module for DatabaseKit.
@@ -16,6 +23,7 @@ import { DATABASE_TOKEN, DATABASE_OPTIONS_TOKEN } from './config/database.consta
  * Provides a unified database access layer for MongoDB and PostgreSQL.
  * Use forRoot() for synchronous configuration or forRootAsync() for 
  * configuration that depends on other providers (e.g., ConfigService).
+ * Every connection is kept in the `DatabaseRegistry`.
  * 
  * @example Synchronous configuration
  * ```typescript
@@ -50,6 +58,17 @@ import { DATABASE_TOKEN, DATABASE_OPTIONS_TOKEN } from './config/database.consta
  * })
  * export class AppModule {}
  * ```
+ *
+ * @example Named connections
+ * ```typescript
+ * DatabaseKitModule.forRoot({
+ *   connections: {
+ *     main: { type: 'postgres', connectionString: process.env.DATABASE_URL! },
+ *     analytics: { type: 'mongo', connectionString: process.env.ANALYTICS_URI! },
+ *   },
+ * });
+ * // @InjectDatabase() resolves "main", @InjectDatabaseByToken('analytics') the other one
+ * ```
  */
 @Global()
 @Module({})
@@ -58,42 +77,40 @@ export class DatabaseKitModule {
 
     /**
      * Configures DatabaseKitModule with synchronous options.
+     * Each named connection is also provided under its name.
      * 
      * @param options - Module configuration options
      * @returns Dynamic module configuration
      */
     static forRoot(options: DatabaseKitModuleOptions): DynamicModule {
+        // Validate eagerly so configuration mistakes surface while the module graph is built
+        this.resolveConnections(options);
+        const names = Object.keys(options.connections ?? {});
+
         const providers: Provider[] = [
             {
                 provide: DATABASE_OPTIONS_TOKEN,
                 useValue: options,
             },
-            {
-                provide: DATABASE_TOKEN,
-                useFactory: async () => {
-                    const db = new DatabaseService(options.config);
-
-                    if (options.autoConnect !== false) {
-                        await db.connect();
-                        this.logger.log(`Database connected: ${options.config.type}`);
-                    }
-
-                    return db;
-                },
-            },
-            LoggerService,
+            ...this.createRootProviders(),
+            ...names.map((name) => ({
+                provide: name,
+                useFactory: (registry: DatabaseRegistry) => registry.get(name),
+                inject: [DatabaseRegistry],
+            })),
         ];
 
         return {
             module: DatabaseKitModule,
             providers,
-            exports: [DATABASE_TOKEN, LoggerService],
+            exports: [DATABASE_TOKEN, DatabaseRegistry, MigrationService, SeederService, QueueService, LoggerService, ...names],
         };
     }
 
     /**
      * Configures DatabaseKitModule with asynchronous options.
      * Useful when configuration depends on other providers like ConfigService.
+     * Named connections are only known at runtime, so they are reached through `DatabaseRegistry`.
      * 
      * @param options - Async module configuration options
      * @returns Dynamic module configuration
@@ -106,34 +123,21 @@ export class DatabaseKitModule {
                 // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
                 inject: (options.inject || []) as Array<string | symbol | Function>,
             },
-            {
-                provide: DATABASE_TOKEN,
-                useFactory: async (moduleOptions: DatabaseKitModuleOptions) => {
-                    const db = new DatabaseService(moduleOptions.config);
-
-                    if (moduleOptions.autoConnect !== false) {
-                        await db.connect();
-                        this.logger.log(`Database connected: ${moduleOptions.config.type}`);
-                    }
-
-                    return db;
-                },
-                inject: [DATABASE_OPTIONS_TOKEN],
-            },
-            LoggerService,
+            ...this.createRootProviders(),
         ];
 
         return {
             module: DatabaseKitModule,
             imports: (options.imports || []) as DynamicModule['imports'],
             providers,
-            exports: [DATABASE_TOKEN, LoggerService],
+            exports: [DATABASE_TOKEN, DatabaseRegistry, MigrationService, SeederService, QueueService, LoggerService],
         };
     }
 
     /**
      * Creates a feature module for additional database connections.
      * Useful for multi-database scenarios.
+     * The connection is added to the `DatabaseRegistry` under `token` when forRoot() is also imported.
      * 
      * @param token - Unique token for this database connection
      * @param config - Database configuration
@@ -143,19 +147,198 @@ export class DatabaseKitModule {
         const providers: Provider[] = [
             {
                 provide: token,
-                useFactory: async () => {
-                    const db = new DatabaseService(config);
-                    await db.connect();
-                    this.logger.log(`Feature database connected: ${token} (${config.type})`);
-                    return db;
+                useFactory: (registry?: DatabaseRegistry) => this.connectFeature(token, config, registry),
+                inject: [{ token: DatabaseRegistry, optional: true }],
+            },
+        ];
+
+        return {
+            module: DatabaseKitModule,
+            providers,
+            exports: [token],
+        };
+    }
+
+    /**
+     * Creates a feature module for an additional connection whose configuration
+     * depends on other providers.
+     * 
+     * @param token - Unique token for this database connection
+     * @param options - Async connection configuration options
+     * @returns Dynamic module configuration
+     */
+    static forFeatureAsync(token: string, options: DatabaseFeatureAsyncOptions): DynamicModule {
+        const providers: Provider[] = [
+            {
+                provide: token,
+                // The registry is injected after the factory's own dependencies
+                useFactory: async (...args: unknown[]) => {
+                    const registry = args.pop() as DatabaseRegistry | undefined;
+                    const config = await options.useFactory(...args);
+                    return this.connectFeature(token, config, registry);
                 },
+                inject: [
+                    // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+                    ...((options.inject || []) as Array<string | symbol | Function>),
+                    { token: DatabaseRegistry, optional: true },
+                ],
             },
         ];
 
         return {
             module: DatabaseKitModule,
+            imports: (options.imports || []) as DynamicModule['imports'],
             providers,
             exports: [token],
         };
     }
+
+    /**
+     * Registers repositories as injectable providers.
+     * Each configuration resolves to one shared repository per connection;
+     * inject it with `@InjectRepository(config, connection?)`.
+     * Configurations on the same table or collection need distinct `token` values.
+     * 
+     * @param configs - Table configurations or Mongo repository options
+     * @param connection - Connection name; omit for the default connection
+     * @returns Dynamic module configuration
+     * 
+     * @example
+     * ```typescript
+     * @Module({
+     *   imports: [DatabaseKitModule.forFeatureRepositories([UserEntityConfig, OrderEntityConfig])],
+     *   providers: [UserService],
+     * })
+     * export class UsersModule {}
+     * ```
+     */
+    static forFeatureRepositories(configs: RepositoryConfig[], connection?: string): DynamicModule {
+        const tokens = configs.map((config) => getRepositoryToken(config, connection));
+
+        // Nest keeps only the last provider of a token, so clashes within one call never reach the registry
+        tokens.forEach((token, i) => {
+            if (configs.some((other, j) => j < i && tokens[j] === token && other !== configs[i])) {
+                throw new Error(
+                    `Repository token "${token}" is already provided for another configuration. Set a distinct "token" on one of them.`,
+                );
+            }
+        });
+
+        const providers: Provider[] = configs.map((config, i) => ({
+            provide: tokens[i],
+            useFactory: (registry: DatabaseRegistry) => registry.getRepositoryForToken(tokens[i], config, connection),
+            // Depend on the connection's own provider, when there is one, so feature connections are registered first
+            inject: connection ? [DatabaseRegistry, { token: connection, optional: true }] : [DatabaseRegistry],
+        }));
+
+        return {
+            module: DatabaseKitModule,
+            providers,
+            exports: providers.map((provider) => (provider as { provide: string }).provide),
+        };
+    }
+
+    /**
+     * Providers shared by forRoot() and forRootAsync(), built from the module options.
+     */
+    private static createRootProviders(): Provider[] {
+        return [
+            {
+                provide: DatabaseRegistry,
+                useFactory: (moduleOptions: DatabaseKitModuleOptions) => this.createRegistry(moduleOptions),
+                inject: [DATABASE_OPTIONS_TOKEN],
+            },
+            {
+                provide: DATABASE_TOKEN,
+                useFactory: (registry: DatabaseRegistry) => registry.get(),
+                inject: [DatabaseRegistry],
+            },
+            {
+                provide: MigrationService,
+                useFactory: (db: DatabaseService, moduleOptions: DatabaseKitModuleOptions) =>
+                    new MigrationService(db, moduleOptions.migrations),
+                inject: [DATABASE_TOKEN, DATABASE_OPTIONS_TOKEN],
+            },
+            {
+                provide: QueueService,
+                useFactory: (db: DatabaseService, moduleOptions: DatabaseKitModuleOptions) =>
+                    new QueueService(db, moduleOptions.queue),
+                inject: [DATABASE_TOKEN, DATABASE_OPTIONS_TOKEN],
+            },
+            SeederService,
+            LoggerService,
+        ];
+    }
+
+    /**
+     * Registers and connects the root connections in declaration order.
+     * If one fails to connect, the ones already connected are closed again.
+     */
+    private static async createRegistry(options: DatabaseKitModuleOptions): Promise<DatabaseRegistry> {
+        const { connections, defaultName } = this.resolveConnections(options);
+        const registry = new DatabaseRegistry(defaultName);
+
+        for (const [name, config] of Object.entries(connections)) {
+            const db = new DatabaseService(config);
+            registry.register(name, db);
+
+            if (options.autoConnect !== false) {
+                try {
+                    await db.connect();
+                } catch (error) {
+                    await registry.disconnectAll();
+                    throw error;
+                }
+                this.logger.log(`Database connected: ${name} (${config.type})`);
+            }
+        }
+
+        return registry;
+    }
+
+    /**
+     * Merges `config` and `connections` and works out the default connection name.
+     */
+    private static resolveConnections(options: DatabaseKitModuleOptions): {
+        connections: Record<string, DatabaseConfig>;
+        defaultName: string;
+    } {
+        if (options.config && options.connections?.[DEFAULT_CONNECTION_NAME]) {
+            throw new Error(
+                `DatabaseKitModule: "connections" cannot contain "${DEFAULT_CONNECTION_NAME}" when "config" is set.`,
+            );
+        }
+
+        const connections: Record<string, DatabaseConfig> = {
+            ...(options.config && { [DEFAULT_CONNECTION_NAME]: options.config }),
+            ...options.connections,
+        };
+
+        const names = Object.keys(connections);
+        if (names.length === 0) {
+            throw new Error('DatabaseKitModule requires "config" or at least one entry in "connections".');
+        }
+
+        const defaultName = options.defaultConnection ?? names[0];
+        if (!connections[defaultName]) {
+            throw new Error(`DatabaseKitModule: default connection "${defaultName}" is not configured.`);
+        }
+
+        return { connections, defaultName };
+    }
+
+    /**
+     * Connects a feature connection and registers it when a registry is available.
+     */
+    private static async connectFeature(
+        token: string,
+        config: DatabaseConfig,
+        registry?: DatabaseRegistry,
+    ): Promise<DatabaseService> {
+        const db = new DatabaseService(config);
+        await db.connect();
+        registry?.register(token, db);
+        this.logger.log(`Feature database connected: ${token} (${config.type})`);
+        return db;
+    }
 }
@@ -0,0 +1,39 @@
+// src/errors/optimistic-lock.error.ts
+
+/**
+ * Thrown by `updateById` when the stored version no longer matches `expectedVersion`:
+ * someone else updated the row since it was read.
+ * DatabaseExceptionFilter maps it to HTTP 409 Conflict.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await repo.updateById(id, changes, { expectedVersion: dto.version });
+ * } catch (error) {
+ *   if (error instanceof OptimisticLockError) {
+ *     // reload, merge and retry, or report the conflict
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class OptimisticLockError extends Error {
+    /**
+     * @param target - Table or collection of the row, e.g. 'table "users"'
+     * @param id - Primary key of the row
+     * @param expectedVersion - Version passed to updateById
+     * @param actualVersion - Version currently stored
+     */
+    constructor(
+        readonly target: string,
+        readonly id: string | number,
+        readonly expectedVersion: number,
+        readonly actualVersion: number,
+    ) {
+        super(
+            `Row ${id} of ${target} was updated by someone else ` +
+            `(expected version ${expectedVersion}, found ${actualVersion}).`,
+        );
+        this.name = 'OptimisticLockError';
+    }
+}
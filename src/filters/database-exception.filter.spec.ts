@@ -0,0 +1,55 @@
+// src/filters/database-exception.filter.spec.ts
+
+import { ArgumentsHost } from '@nestjs/common';
+import { DatabaseExceptionFilter } from './database-exception.filter';
+import { OptimisticLockError } from '../errors/optimistic-lock.error';
+
+describe('DatabaseExceptionFilter', () => {
+    const createHost = () => {
+        const json = jest.fn();
+        const status = jest.fn().mockReturnValue({ json });
+        const host = {
+            switchToHttp: () => ({
+                getResponse: () => ({ status }),
+                getRequest: () => ({ url: '/users/1' }),
+            }),
+        } as unknown as ArgumentsHost;
+        return { host, status, json };
+    };
+
+    it('should map OptimisticLockError to 409 Conflict', () => {
+        const { host, status, json } = createHost();
+
+        new DatabaseExceptionFilter().catch(new OptimisticLockError('table "users"', 1, 3, 4), host);
+
+        expect(status).toHaveBeenCalledWith(409);
+        expect(json).toHaveBeenCalledWith(
+            expect.objectContaining({
+                statusCode: 409,
+                error: 'OptimisticLockError',
+                message: 'Row 1 of table "users" was updated by someone else (expected version 3, found 4).',
+                path: '/users/1',
+            }),
+        );
+    });
+
+    it('should map NOWAIT lock failures to 409 Conflict', () => {
+        const { host, status, json } = createHost();
+
+        new DatabaseExceptionFilter().catch(
+            Object.assign(new Error('could not obtain lock on row in relation "jobs"'), { code: '55P03' }),
+            host,
+        );
+
+        expect(status).toHaveBeenCalledWith(409);
+        expect(json).toHaveBeenCalledWith(expect.objectContaining({ error: 'LockConflict' }));
+    });
+
+    it('should keep unknown errors as 500', () => {
+        const { host, status } = createHost();
+
+        new DatabaseExceptionFilter().catch(new Error('boom'), host);
+
+        expect(status).toHaveBeenCalledWith(500);
+    });
+});
@@ -8,6 +8,7 @@ import {
     HttpStatus,
     Logger,
 } from '@nestjs/common';
+import { OptimisticLockError } from '../errors/optimistic-lock.error';
 
 /**
  * Standard error response format.
@@ -84,11 +85,25 @@ export class DatabaseExceptionFilter implements ExceptionFilter {
             };
         }
 
+        // Handle version conflicts from optimistic locking
+        if (exception instanceof OptimisticLockError) {
+            return {
+                statusCode: HttpStatus.CONFLICT,
+                message: exception.message,
+                error: 'OptimisticLockError',
+            };
+        }
+
         // Handle MongoDB errors
         if (this.isMongoError(exception)) {
             return this.parseMongoError(exception);
         }
 
+        // Handle MySQL/MariaDB errors
+        if (this.isMysqlError(exception)) {
+            return this.parseMysqlError(exception);
+        }
+
         // Handle PostgreSQL/Knex errors
         if (this.isKnexError(exception)) {
             return this.parseKnexError(exception);
@@ -235,6 +250,15 @@ export class DatabaseExceptionFilter implements ExceptionFilter {
             };
         }
 
+        // Row lock held by another transaction with NOWAIT (lock_not_available)
+        if (err.code === '55P03') {
+            return {
+                statusCode: HttpStatus.CONFLICT,
+                message: 'The record is locked by another transaction, please retry',
+                error: 'LockConflict',
+            };
+        }
+
         // Connection errors
         if (err.code === '08006' || err.code === '08001' || err.code === '08004') {
             return {
@@ -251,6 +275,98 @@ export class DatabaseExceptionFilter implements ExceptionFilter {
         };
     }
 
+    /**
+     * Checks if the exception is a MySQL/MariaDB error.
+     */
+    private isMysqlError(exception: unknown): boolean {
+        if (!exception || typeof exception !== 'object') return false;
+        const err = exception as { errno?: unknown; sqlState?: unknown; sqlMessage?: unknown };
+        // mysql2 server errors carry a numeric errno alongside the SQL state
+        return typeof err.errno === 'number' &&
+            (typeof err.sqlState === 'string' || typeof err.sqlMessage === 'string');
+    }
+
+    /**
+     * Parses MySQL/MariaDB-specific errors.
+     */
+    private parseMysqlError(exception: unknown): {
+        statusCode: number;
+        message: string;
+        error: string;
+    } {
+        const err = exception as { errno: number; sqlMessage?: string };
+
+        // Unique constraint violation (ER_DUP_ENTRY)
+        if (err.errno === 1062) {
+            const key = /for key '([^']+)'/.exec(err.sqlMessage ?? '')?.[1];
+            return {
+                statusCode: HttpStatus.CONFLICT,
+                message: `A record with this value already exists${key ? ` (${key})` : ''}`,
+                error: 'UniqueConstraintViolation',
+            };
+        }
+
+        // Foreign key violation on insert/update (ER_NO_REFERENCED_ROW_2)
+        if (err.errno === 1452 || err.errno === 1216) {
+            return {
+                statusCode: HttpStatus.BAD_REQUEST,
+                message: 'Referenced record does not exist',
+                error: 'ForeignKeyViolation',
+            };
+        }
+
+        // Foreign key violation on delete/update of a parent row (ER_ROW_IS_REFERENCED_2)
+        if (err.errno === 1451 || err.errno === 1217) {
+            return {
+                statusCode: HttpStatus.CONFLICT,
+                message: 'Record is still referenced by other records',
+                error: 'ForeignKeyViolation',
+            };
+        }
+
+        // Not null violation (ER_BAD_NULL_ERROR, ER_NO_DEFAULT_FOR_FIELD)
+        if (err.errno === 1048 || err.errno === 1364) {
+            return {
+                statusCode: HttpStatus.BAD_REQUEST,
+                message: 'Required field is missing',
+                error: 'NotNullViolation',
+            };
+        }
+
+        // Check constraint violation (ER_CHECK_CONSTRAINT_VIOLATED)
+        if (err.errno === 3819) {
+            return {
+                statusCode: HttpStatus.BAD_REQUEST,
+                message: 'Value does not meet constraint requirements',
+                error: 'CheckConstraintViolation',
+            };
+        }
+
+        // Deadlock, lock wait timeout or NOWAIT lock (ER_LOCK_DEADLOCK, ER_LOCK_WAIT_TIMEOUT, ER_LOCK_NOWAIT)
+        if (err.errno === 1213 || err.errno === 1205 || err.errno === 3572) {
+            return {
+                statusCode: HttpStatus.CONFLICT,
+                message: 'The record is locked by another transaction, please retry',
+                error: 'LockConflict',
+            };
+        }
+
+        // Connection errors (too many connections, server gone away, lost connection)
+        if ([1040, 2002, 2003, 2006, 2013].includes(err.errno)) {
+            return {
+                statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+                message: 'Database connection error',
+                error: 'ConnectionError',
+            };
+        }
+
+        return {
+            statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+            message: 'Database operation failed',
+            error: 'DatabaseError',
+        };
+    }
+
     /**
      * Checks if the exception is a validation error.
      */
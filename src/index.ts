@@ -4,7 +4,7 @@
  * @ciscode/database-kit
  * 
  * A NestJS-friendly, OOP-style database library providing a unified
- * repository API for MongoDB and PostgreSQL.
+ * repository API for MongoDB, PostgreSQL, MySQL, SQLite and an in-memory store.
  * 
  * @packageDocumentation
  */
@@ -25,12 +25,30 @@ export { DatabaseKitModule } from './database-kit.module';
 
 export { DatabaseService } from './services/database.service';
 export { LoggerService } from './services/logger.service';
+export { MigrationService } from './services/migration.service';
+export { SeederService } from './services/seeder.service';
+export { QueueService } from './services/queue.service';
+export { DatabaseRegistry } from './services/database-registry.service';
 
 // -----------------------------------------------------------------------------
 // Decorators (For dependency injection)
 // -----------------------------------------------------------------------------
 
-export { InjectDatabase, InjectDatabaseByToken } from './middleware/database.decorators';
+export {
+    InjectDatabase,
+    InjectDatabaseByToken,
+    InjectRepository,
+    getRepositoryToken,
+} from './middleware/database.decorators';
+
+export {
+    Entity,
+    PrimaryKey,
+    Column,
+    SoftDelete,
+    CreatedAt,
+    UpdatedAt,
+} from './middleware/entity.decorators';
 
 // -----------------------------------------------------------------------------
 // Filters (For global exception handling)
@@ -38,12 +56,24 @@ export { InjectDatabase, InjectDatabaseByToken } from './middleware/database.dec
 
 export { DatabaseExceptionFilter } from './filters/database-exception.filter';
 
+// -----------------------------------------------------------------------------
+// Errors (For handling repository failures)
+// -----------------------------------------------------------------------------
+
+export { OptimisticLockError } from './errors/optimistic-lock.error';
+
 // -----------------------------------------------------------------------------
 // Configuration Helpers (For advanced configuration)
 // -----------------------------------------------------------------------------
 
 export { DatabaseConfigHelper } from './config/database.config';
-export { DATABASE_TOKEN, DATABASE_OPTIONS_TOKEN, ENV_KEYS, DEFAULTS } from './config/database.constants';
+export {
+    DATABASE_TOKEN,
+    DATABASE_OPTIONS_TOKEN,
+    DEFAULT_CONNECTION_NAME,
+    ENV_KEYS,
+    DEFAULTS,
+} from './config/database.constants';
 
 // -----------------------------------------------------------------------------
 // Contracts (Types and Interfaces for consumers)
@@ -54,23 +84,73 @@ export {
     DatabaseType,
     DatabaseConfig,
     MongoDatabaseConfig,
+    MongoReadPreference,
+    MongoReadConcern,
+    MongoWriteConcern,
+    MongoConcernOptions,
     PostgresDatabaseConfig,
+    MysqlDatabaseConfig,
+    SqliteDatabaseConfig,
+    MemoryDatabaseConfig,
 
     // Pool configuration
     PoolConfig,
+    ReplicaBalancing,
 
     // Module configuration
     DatabaseKitModuleOptions,
     DatabaseKitModuleAsyncOptions,
+    DatabaseFeatureAsyncOptions,
     InjectionToken,
     OptionalFactoryDependency,
 
     // Repository interface (main CRUD API)
     Repository,
 
+    // Filter types
+    FilterExpression,
+    FieldCondition,
+    FieldOperators,
+
     // Pagination types
     PageResult,
     PageOptions,
+    CursorPageResult,
+    CursorPageOptions,
+    StreamOptions,
+
+    // Read and write options
+    ReadOptions,
+    FindOptions,
+    FindOneOptions,
+    LockOptions,
+    RowLockMode,
+    WriteOptions,
+    UpdateOptions,
+
+    // Upsert types
+    UpsertOptions,
+
+    // Migration types
+    MigrationOptions,
+    MigrationResult,
+    MigrationStatus,
+    MongoMigration,
+    MongoMigrationContext,
+    MongoMigrationOptions,
+
+    // Seeding types
+    Seeder,
+    SeedOptions,
+    SeedResult,
+
+    // Queue types
+    QueueOptions,
+    QueueJob,
+    QueueJobStatus,
+    EnqueueOptions,
+    ClaimOptions,
+    FailOptions,
 
     // Transaction types
     TransactionIsolationLevel,
@@ -78,10 +158,15 @@ export {
     TransactionContext,
     MongoTransactionContext,
     PostgresTransactionContext,
+    MysqlTransactionContext,
+    SqliteTransactionContext,
+    MemoryTransactionContext,
     TransactionCallback,
 
     // Health check types
     HealthCheckResult,
+    ReplicaHealth,
+    RegistryHealthResult,
 
     // Event hooks
     HookContext,
@@ -90,6 +175,37 @@ export {
     // Repository options
     MongoRepositoryOptions,
     PostgresEntityConfig,
+    MemoryEntityConfig,
+    RepositoryConfig,
+
+    // Relations
+    RelationDefinition,
+    RelationTargetOptions,
+    BelongsToRelation,
+    HasManyRelation,
+    ManyToManyRelation,
+
+    // Batch iteration
+    BatchCheckpoint,
+    BatchProgress,
+    BatchResult,
+    BatchContext,
+    BatchHandler,
+    BatchOptions,
+
+    // Aggregations
+    AggregateFunction,
+    AggregateMetric,
+    AggregateOptions,
+    AggregateMetricValue,
+    AggregateRow,
+
+    // Entity definitions
+    EntityOptions,
+    ColumnOptions,
+    EntityColumnMetadata,
+    EntityMetadata,
+    EntityClass,
 
     // Constants
     DATABASE_KIT_CONSTANTS,
@@ -105,6 +221,11 @@ export {
     createPageResult,
     parseSortString,
     calculateOffset,
+    normalizeCursorSort,
+    encodeCursor,
+    decodeCursor,
+    createCursorPageResult,
+    CursorSortField,
 } from './utils/pagination.utils';
 
 export {
@@ -117,11 +238,23 @@ export {
     omitFields,
 } from './utils/validation.utils';
 
+export { FILTER_OPERATORS, validateFilter, toMongoFilter } from './utils/filter.utils';
+
+export {
+  getEntityMetadata,
+  toPostgresEntityConfig,
+  toMongoRepositoryOptions,
+  mapEntityFields,
+} from './utils/entity.utils';
+
 // =============================================================================
 // NOT EXPORTED (Internal implementation details)
 // =============================================================================
 
 // ❌ MongoAdapter - Internal adapter, use DatabaseService instead
 // ❌ PostgresAdapter - Internal adapter, use DatabaseService instead
+// ❌ MysqlAdapter - Internal adapter, use DatabaseService instead
+// ❌ SqliteAdapter - Internal adapter, use DatabaseService instead
+// ❌ InMemoryAdapter - Internal adapter, use DatabaseService with type 'memory' instead
 // ❌ Internal helper functions
 
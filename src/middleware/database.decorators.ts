@@ -2,6 +2,7 @@
 
 import { Inject } from '@nestjs/common';
 import { DATABASE_TOKEN } from '../config/database.constants';
+import { RepositoryConfig } from '../contracts/database.contracts';
 
 /**
  * Decorator to inject the DatabaseService instance.
@@ -19,8 +20,9 @@ export const InjectDatabase = (): ParameterDecorator => Inject(DATABASE_TOKEN);
 /**
  * Creates a custom injection decorator for a named database connection.
  * Use this when working with multiple database connections.
+ * The connection is resolved from the `DatabaseRegistry`.
  * 
- * @param token - The token used when registering the database with forFeature()
+ * @param token - The connection name from `forRoot({ connections })`, or the token used with forFeature()
  * @returns Parameter decorator
  * 
  * @example
@@ -34,3 +36,47 @@ export const InjectDatabase = (): ParameterDecorator => Inject(DATABASE_TOKEN);
  * ```
  */
 export const InjectDatabaseByToken = (token: string): ParameterDecorator => Inject(token);
+
+/**
+ * Returns the injection token of a repository registered with forFeatureRepositories().
+ * The token is derived from the config's `token`, else from the table, or from the Mongo collection or model name.
+ * 
+ * @param config - The repository configuration passed to forFeatureRepositories()
+ * @param connection - Connection name; omit for the default connection
+ * @returns Injection token
+ * @throws Error if the configuration names no token, table, collection or model
+ */
+export const getRepositoryToken = (config: RepositoryConfig, connection?: string): string => {
+    const model = 'table' in config
+        ? undefined
+        : config.model as { modelName?: string; collection?: { name?: string } } | undefined;
+    const entity = config.token ?? ('table' in config
+        ? config.table
+        : config.collection ?? config.name ?? model?.collection?.name ?? model?.modelName);
+
+    if (!entity) {
+        throw new Error('Repository configuration needs a table, a collection, a name or a model.');
+    }
+
+    return connection ? `DATABASE_KIT_REPOSITORY:${connection}:${entity}` : `DATABASE_KIT_REPOSITORY:${entity}`;
+};
+
+/**
+ * Decorator to inject a repository registered with forFeatureRepositories().
+ * 
+ * @param config - The repository configuration passed to forFeatureRepositories()
+ * @param connection - Connection name; omit for the default connection
+ * @returns Parameter decorator
+ * 
+ * @example
+ * ```typescript
+ * export const UserEntityConfig: RepositoryConfig<User> = { table: 'users', timestamps: true };
+ * 
+ * @Injectable()
+ * export class UserService {
+ *   constructor(@InjectRepository(UserEntityConfig) private readonly users: Repository<User>) {}
+ * }
+ * ```
+ */
+export const InjectRepository = (config: RepositoryConfig, connection?: string): ParameterDecorator =>
+    Inject(getRepositoryToken(config, connection));
@@ -0,0 +1,104 @@
+// src/middleware/entity.decorators.ts
+
+import 'reflect-metadata';
+import { ENTITY_METADATA_KEYS } from '../config/database.constants';
+import { ColumnOptions, EntityColumnMetadata, EntityOptions } from '../contracts/database.contracts';
+
+/**
+ * Records a column on the entity class, replacing an earlier declaration of the same property.
+ * Columns are copied rather than mutated so subclasses never change their parent's metadata.
+ */
+const defineColumn = (
+    target: object,
+    propertyKey: string | symbol,
+    options: ColumnOptions = {},
+    role?: EntityColumnMetadata['role'],
+): void => {
+    if (typeof propertyKey === 'symbol') {
+        throw new Error('Entity columns must be declared on string-named properties.');
+    }
+
+    const entity = target.constructor;
+    const inherited: EntityColumnMetadata[] = Reflect.getMetadata(ENTITY_METADATA_KEYS.COLUMNS, entity) ?? [];
+    const previous = inherited.find((column) => column.property === propertyKey);
+
+    const column: EntityColumnMetadata = {
+        property: propertyKey,
+        name: options.name ?? previous?.name ?? propertyKey,
+        ...((options.type ?? previous?.type) && { type: options.type ?? previous?.type }),
+        ...((role ?? previous?.role) && { role: role ?? previous?.role }),
+    };
+
+    const columns = previous
+        ? inherited.map((existing) => (existing === previous ? column : existing))
+        : [...inherited, column];
+
+    Reflect.defineMetadata(ENTITY_METADATA_KEYS.COLUMNS, columns, entity);
+};
+
+/**
+ * Marks a class as an entity backed by a table or a collection.
+ * Read the resulting configuration with `toPostgresEntityConfig()` or `toMongoRepositoryOptions()`.
+ *
+ * @param options - Table and/or collection name
+ * @returns Class decorator
+ *
+ * @example
+ * ```typescript
+ * @Entity({ table: 'users' })
+ * export class User {
+ *   @PrimaryKey() id!: number;
+ *   @Column() email!: string;
+ *   @CreatedAt({ name: 'created_at' }) createdAt!: Date;
+ *   @UpdatedAt({ name: 'updated_at' }) updatedAt!: Date;
+ * }
+ * ```
+ */
+export const Entity = (options: EntityOptions = {}): ClassDecorator => (target) => {
+    Reflect.defineMetadata(ENTITY_METADATA_KEYS.ENTITY, options, target);
+};
+
+/**
+ * Declares a column that may be used in filters and sorts.
+ *
+ * @param options - Stored column name and type
+ * @returns Property decorator
+ */
+export const Column = (options?: ColumnOptions): PropertyDecorator => (target, propertyKey) =>
+    defineColumn(target, propertyKey, options);
+
+/**
+ * Declares the primary key column.
+ *
+ * @param options - Stored column name and type
+ * @returns Property decorator
+ */
+export const PrimaryKey = (options?: ColumnOptions): PropertyDecorator => (target, propertyKey) =>
+    defineColumn(target, propertyKey, options, 'primaryKey');
+
+/**
+ * Declares the soft delete timestamp column and enables soft delete.
+ *
+ * @param options - Stored column name and type
+ * @returns Property decorator
+ */
+export const SoftDelete = (options?: ColumnOptions): PropertyDecorator => (target, propertyKey) =>
+    defineColumn(target, propertyKey, options, 'softDelete');
+
+/**
+ * Declares the created timestamp column. Use together with @UpdatedAt().
+ *
+ * @param options - Stored column name and type
+ * @returns Property decorator
+ */
+export const CreatedAt = (options?: ColumnOptions): PropertyDecorator => (target, propertyKey) =>
+    defineColumn(target, propertyKey, options, 'createdAt');
+
+/**
+ * Declares the updated timestamp column. Use together with @CreatedAt().
+ *
+ * @param options - Stored column name and type
+ * @returns Property decorator
+ */
+export const UpdatedAt = (options?: ColumnOptions): PropertyDecorator => (target, propertyKey) =>
+    defineColumn(target, propertyKey, options, 'updatedAt');
@@ -0,0 +1,98 @@
+// src/services/database-registry.service.spec.ts
+
+import { DatabaseRegistry } from './database-registry.service';
+import { DatabaseService } from './database.service';
+
+describe('DatabaseRegistry', () => {
+    const createDb = (calls: string[], name: string, healthy = true) =>
+        ({
+            delegateShutdown: jest.fn(),
+            disconnect: jest.fn(async () => {
+                calls.push(name);
+            }),
+            healthCheck: jest.fn(async () => ({ healthy, responseTimeMs: 1, type: 'memory' })),
+            createRepository: jest.fn(() => ({})),
+        }) as unknown as DatabaseService &
+            Record<'delegateShutdown' | 'disconnect' | 'healthCheck' | 'createRepository', jest.Mock>;
+
+    it('should return connections by name and the default one without a name', () => {
+        const main = createDb([], 'main');
+        const analytics = createDb([], 'analytics');
+        const registry = new DatabaseRegistry('main').register('main', main).register('analytics', analytics);
+
+        expect(registry.get()).toBe(main);
+        expect(registry.get('analytics')).toBe(analytics);
+        expect(registry.has('analytics')).toBe(true);
+        expect(registry.getNames()).toEqual(['main', 'analytics']);
+    });
+
+    it('should create each repository once per connection', () => {
+        const db = createDb([], 'main');
+        const registry = new DatabaseRegistry().register('default', db);
+        const config = { table: 'users' };
+
+        const first = registry.getRepository(config);
+
+        expect(registry.getRepository(config)).toBe(first);
+        expect(registry.getRepository({ table: 'users' })).not.toBe(first);
+        expect(db.createRepository).toHaveBeenCalledTimes(2);
+    });
+
+    it('should provide one configuration per repository token', () => {
+        const db = createDb([], 'main');
+        const registry = new DatabaseRegistry().register('default', db);
+        const config = { table: 'users' };
+
+        const first = registry.getRepositoryForToken('users', config);
+
+        expect(registry.getRepositoryForToken('users', config)).toBe(first);
+        expect(() => registry.getRepositoryForToken('users', { table: 'users' })).toThrow(
+            'Repository token "users" is already provided for another configuration. Set a distinct "token" on one of them.',
+        );
+    });
+
+    it('should take over shutdown from registered connections', () => {
+        const db = createDb([], 'main');
+        new DatabaseRegistry().register('default', db);
+
+        expect(db.delegateShutdown).toHaveBeenCalled();
+    });
+
+    it('should reject duplicate and unknown names', () => {
+        const registry = new DatabaseRegistry().register('default', createDb([], 'default'));
+
+        expect(() => registry.register('default', createDb([], 'again'))).toThrow(
+            'Database connection "default" is already registered.',
+        );
+        expect(() => registry.get('reports')).toThrow(
+            'Database connection "reports" is not registered. Registered connections: "default".',
+        );
+    });
+
+    it('should aggregate health checks', async () => {
+        const registry = new DatabaseRegistry()
+            .register('default', createDb([], 'default'))
+            .register('analytics', createDb([], 'analytics', false));
+
+        const result = await registry.healthCheck();
+
+        expect(result.healthy).toBe(false);
+        expect(result.connections.default.healthy).toBe(true);
+        expect(result.connections.analytics.healthy).toBe(false);
+    });
+
+    it('should close connections in reverse registration order and keep going after failures', async () => {
+        const calls: string[] = [];
+        const failing = createDb(calls, 'analytics');
+        failing.disconnect.mockRejectedValueOnce(new Error('socket hang up'));
+        const registry = new DatabaseRegistry()
+            .register('default', createDb(calls, 'default'))
+            .register('analytics', failing)
+            .register('reports', createDb(calls, 'reports'));
+
+        await registry.onModuleDestroy();
+
+        expect(calls).toEqual(['reports', 'default']);
+        expect(failing.disconnect).toHaveBeenCalled();
+    });
+});
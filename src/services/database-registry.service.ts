@@ -0,0 +1,190 @@
+// src/services/database-registry.service.ts
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import {
+    HealthCheckResult,
+    RegistryHealthResult,
+    Repository,
+    RepositoryConfig,
+} from '../contracts/database.contracts';
+import { DEFAULT_CONNECTION_NAME } from '../config/database.constants';
+
+/**
+ * Keeps every named database connection of the application.
+ *
+ * DatabaseKitModule registers the connections from `forRoot({ connections })`
+ * and from `forFeature()`/`forFeatureAsync()`. On shutdown the registry closes
+ * them one at a time, in reverse registration order, so feature connections
+ * close before the connections they were declared after.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class ReportService {
+ *   constructor(private readonly registry: DatabaseRegistry) {}
+ *
+ *   async run() {
+ *     const analytics = this.registry.get('analytics');
+ *     const events = analytics.createPostgresRepository<Event>({ table: 'events' });
+ *     return events.count();
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class DatabaseRegistry implements OnModuleDestroy {
+    private readonly logger = new Logger(DatabaseRegistry.name);
+    private readonly connections = new Map<string, DatabaseService>();
+    private readonly repositories = new WeakMap<DatabaseService, Map<RepositoryConfig, Repository<unknown>>>();
+    private readonly repositoryTokens = new Map<string, RepositoryConfig>();
+
+    /**
+     * @param defaultName - Name returned by `get()` when no name is given
+     */
+    constructor(private readonly defaultName: string = DEFAULT_CONNECTION_NAME) {}
+
+    /**
+     * Lifecycle hook called when the module is being destroyed.
+     * Closes every registered connection.
+     */
+    async onModuleDestroy(): Promise<void> {
+        await this.disconnectAll();
+    }
+
+    /**
+     * Adds a connection to the registry.
+     * The registry takes over closing it on shutdown.
+     *
+     * @param name - Unique connection name
+     * @param db - The connection's DatabaseService
+     * @returns This registry for chaining
+     * @throws Error if the name is already registered
+     */
+    register(name: string, db: DatabaseService): this {
+        if (this.connections.has(name)) {
+            throw new Error(`Database connection "${name}" is already registered.`);
+        }
+
+        db.delegateShutdown();
+        this.connections.set(name, db);
+        return this;
+    }
+
+    /**
+     * Returns a registered connection.
+     *
+     * @param name - Connection name (default: the default connection)
+     * @returns The connection's DatabaseService
+     * @throws Error if no connection is registered under the name
+     */
+    get(name: string = this.defaultName): DatabaseService {
+        const db = this.connections.get(name);
+        if (!db) {
+            const known = [...this.connections.keys()].map((key) => `"${key}"`).join(', ') || 'none';
+            throw new Error(`Database connection "${name}" is not registered. Registered connections: ${known}.`);
+        }
+        return db;
+    }
+
+    /**
+     * Returns the repository for a configuration on a connection.
+     * Each configuration gets a single repository per connection, created on first use.
+     *
+     * @param config - Table configuration or Mongo repository options
+     * @param name - Connection name (default: the default connection)
+     * @returns The shared repository
+     * @throws Error if no connection is registered under the name
+     */
+    getRepository<T = unknown>(config: RepositoryConfig<T>, name: string = this.defaultName): Repository<T> {
+        const db = this.get(name);
+
+        let repositories = this.repositories.get(db);
+        if (!repositories) {
+            repositories = new Map();
+            this.repositories.set(db, repositories);
+        }
+
+        let repository = repositories.get(config as RepositoryConfig);
+        if (!repository) {
+            repository = db.createRepository(config) as Repository<unknown>;
+            repositories.set(config as RepositoryConfig, repository);
+        }
+
+        return repository as Repository<T>;
+    }
+
+    /**
+     * Returns the repository provided under an injection token by `forFeatureRepositories()`.
+     * A token stands for one configuration, so a second configuration resolving to it
+     * fails instead of silently replacing the first.
+     *
+     * @param token - Injection token from `getRepositoryToken()`
+     * @param config - Table configuration or Mongo repository options
+     * @param name - Connection name (default: the default connection)
+     * @returns The shared repository
+     * @throws Error if another configuration was provided under the token
+     */
+    getRepositoryForToken<T = unknown>(token: string, config: RepositoryConfig<T>, name?: string): Repository<T> {
+        const registered = this.repositoryTokens.get(token);
+        if (registered && registered !== config) {
+            throw new Error(
+                `Repository token "${token}" is already provided for another configuration. Set a distinct "token" on one of them.`,
+            );
+        }
+
+        this.repositoryTokens.set(token, config as RepositoryConfig);
+        return this.getRepository(config, name);
+    }
+
+    /**
+     * Checks whether a connection is registered.
+     */
+    has(name: string): boolean {
+        return this.connections.has(name);
+    }
+
+    /**
+     * Returns the registered connection names in registration order.
+     */
+    getNames(): string[] {
+        return [...this.connections.keys()];
+    }
+
+    /**
+     * Runs the health check of every connection in parallel.
+     *
+     * @returns Overall status and the result per connection
+     */
+    async healthCheck(): Promise<RegistryHealthResult> {
+        const entries = await Promise.all(
+            [...this.connections].map(async ([name, db]): Promise<[string, HealthCheckResult]> => [
+                name,
+                await db.healthCheck(),
+            ]),
+        );
+
+        return {
+            healthy: entries.every(([, result]) => result.healthy),
+            connections: Object.fromEntries(entries),
+        };
+    }
+
+    /**
+     * Closes every connection, last registered first.
+     * A failing connection is logged and does not stop the others from closing.
+     */
+    async disconnectAll(): Promise<void> {
+        for (const [name, db] of [...this.connections].reverse()) {
+            try {
+                await db.disconnect();
+                this.logger.log(`Database connection closed: ${name}`);
+            } catch (error) {
+                this.logger.error(
+                    `Failed to close database connection "${name}"`,
+                    error instanceof Error ? error.message : error,
+                );
+            }
+        }
+    }
+}
@@ -31,6 +31,12 @@ describe('DatabaseService', () => {
             expect(service.isConnected()).toBe(false);
         });
 
+        it('should reject table configurations in createRepository', () => {
+            expect(() => service.createRepository({ table: 'users' })).toThrow(
+                'Table "users" cannot be used on a MongoDB connection',
+            );
+        });
+
         it('should throw when creating postgres repository with mongo config', () => {
             expect(() =>
                 service.createPostgresRepository({
@@ -79,6 +85,12 @@ describe('DatabaseService', () => {
             expect(service.type).toBe('postgres');
         });
 
+        it('should reject Mongo options in createRepository', () => {
+            expect(() => service.createRepository({ name: 'User', schema: {} })).toThrow(
+                'MongoDB repository options cannot be used on a postgres connection',
+            );
+        });
+
         it('should throw when creating mongo repository with postgres config', () => {
             expect(() =>
                 service.createMongoRepository({
@@ -108,6 +120,127 @@ describe('DatabaseService', () => {
         });
     });
 
+    describe('MySQL', () => {
+        const service = new DatabaseService({ type: 'mysql', connectionString: 'mysql://localhost/test' });
+
+        it('should return correct database type', () => {
+            expect(service.type).toBe('mysql');
+            expect(service.isConnected()).toBe(false);
+        });
+
+        it('should throw when creating repositories for other types', () => {
+            expect(() => service.createPostgresRepository({ table: 'users' })).toThrow('Database type is "mysql"');
+            expect(() => service.createSqliteRepository({ table: 'users' })).toThrow('Database type is "mysql"');
+        });
+
+        it('should only expose the MySQL adapter', () => {
+            expect(service.getMysqlAdapter()).toBe(service.getMysqlAdapter());
+            expect(() => new DatabaseService({ type: 'memory' }).getMysqlAdapter()).toThrow(
+                'only available for MySQL',
+            );
+        });
+    });
+
+    describe('SQLite', () => {
+        const service = new DatabaseService({ type: 'sqlite', connectionString: 'sqlite::memory:' });
+
+        it('should return correct database type', () => {
+            expect(service.type).toBe('sqlite');
+            expect(service.isConnected()).toBe(false);
+        });
+
+        it('should throw when creating repositories for other types', () => {
+            expect(() => service.createPostgresRepository({ table: 'users' })).toThrow('Database type is "sqlite"');
+            expect(() => service.createMongoRepository({ model: {} })).toThrow('Database type is "sqlite"');
+        });
+
+        it('should only expose the SQLite adapter', () => {
+            expect(service.getSqliteAdapter()).toBe(service.getSqliteAdapter());
+            expect(() => new DatabaseService({ type: 'memory' }).getSqliteAdapter()).toThrow(
+                'only available for SQLite',
+            );
+        });
+    });
+
+    describe('Memory', () => {
+        let service: DatabaseService;
+
+        beforeEach(async () => {
+            service = new DatabaseService({ type: 'memory' });
+        });
+
+        afterEach(async () => {
+            await service.disconnect();
+        });
+
+        it('should return correct database type and connect without a server', async () => {
+            expect(service.type).toBe('memory');
+            await service.connect();
+            expect(service.isConnected()).toBe(true);
+            await expect(service.healthCheck()).resolves.toMatchObject({ healthy: true, type: 'memory' });
+        });
+
+        it('should back postgres and mongo repositories with the in-memory store', async () => {
+            const orders = service.createPostgresRepository<{ id: number; total: number }>({ table: 'orders' });
+            const users = service.createMongoRepository<{ _id: string; name: string }>({
+                model: { modelName: 'User', collection: { name: 'users' } },
+            });
+
+            const order = await orders.create({ total: 10 });
+            const user = await users.create({ name: 'John' });
+
+            expect(order.id).toBe(1);
+            expect(user._id).toMatch(/^[0-9a-f]{24}$/);
+            await expect(users.findById(user._id)).resolves.toEqual(user);
+        });
+
+        it('should pick the repository kind from the config with createRepository', async () => {
+            const orders = service.createRepository<{ id: number; total: number }>({ table: 'orders' });
+            const users = service.createRepository<{ _id: string; name: string }>({ name: 'users' });
+
+            await expect(orders.create({ total: 10 })).resolves.toMatchObject({ id: 1 });
+            await expect(users.create({ name: 'John' })).resolves.toMatchObject({ _id: expect.any(String) });
+        });
+
+        it('should roll back a postgres-style transaction', async () => {
+            const orders = service.createPostgresRepository({ table: 'orders' });
+
+            await expect(
+                service.withPostgresTransaction(async (ctx) => {
+                    await ctx.createRepository({ table: 'orders' }).create({ total: 10 });
+                    throw new Error('boom');
+                }),
+            ).rejects.toThrow('boom');
+
+            await expect(orders.count()).resolves.toBe(0);
+        });
+
+        it('should back mysql and sqlite repositories and transactions with the in-memory store', async () => {
+            const orders = service.createMysqlRepository<{ id: number; total: number }>({ table: 'orders' });
+            const items = service.createSqliteRepository<{ id: number; sku: string }>({ table: 'items' });
+
+            await expect(orders.create({ total: 10 })).resolves.toMatchObject({ id: 1 });
+            await expect(items.create({ sku: 'A-1' })).resolves.toMatchObject({ id: 1 });
+
+            await service.withSqliteTransaction(async (ctx) => {
+                await ctx.createRepository({ table: 'items' }).create({ sku: 'A-2' });
+            });
+            await expect(
+                service.withSqliteTransaction(async (ctx) => {
+                    await ctx.createRepository({ table: 'items' }).create({ sku: 'A-3' });
+                    throw new Error('boom');
+                }),
+            ).rejects.toThrow('boom');
+
+            await expect(items.count()).resolves.toBe(2);
+        });
+
+        it('should throw when asking for a driver adapter', () => {
+            expect(() => service.getPostgresAdapter()).toThrow('only available for PostgreSQL');
+            expect(() => service.getMongoAdapter()).toThrow('only available for MongoDB');
+        });
+    });
+
     describe('Health Check', () => {
         it('should have healthCheck method on mongo service', () => {
             const mongoService = new DatabaseService({
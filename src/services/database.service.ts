@@ -1,12 +1,21 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import {
     DatabaseConfig,
+    DatabaseType,
     MongoDatabaseConfig,
     PostgresDatabaseConfig,
+    MysqlDatabaseConfig,
+    SqliteDatabaseConfig,
+    MemoryDatabaseConfig,
     MongoRepositoryOptions,
     PostgresEntityConfig,
+    MemoryEntityConfig,
+    RepositoryConfig,
     MongoTransactionContext,
     PostgresTransactionContext,
+    MysqlTransactionContext,
+    SqliteTransactionContext,
+    MemoryTransactionContext,
     Repository,
     TransactionOptions,
     TransactionCallback,
@@ -14,10 +23,17 @@ import {
 } from '../contracts/database.contracts';
 import { MongoAdapter } from '../adapters/mongo.adapter';
 import { PostgresAdapter } from '../adapters/postgres.adapter';
+import { MysqlAdapter } from '../adapters/mysql.adapter';
+import { SqliteAdapter } from '../adapters/sqlite.adapter';
+import {
+    InMemoryAdapter,
+    fromMongoRepositoryOptions,
+    fromPostgresEntityConfig,
+} from '../adapters/memory.adapter';
 
 /**
  * Main database service that provides a unified interface
- * for database operations across MongoDB and PostgreSQL.
+ * for database operations across MongoDB, PostgreSQL, MySQL and SQLite.
  * 
  * This service acts as a facade over the underlying adapters,
  * providing a clean API for creating repositories and managing connections.
@@ -42,6 +58,10 @@ export class DatabaseService implements OnModuleDestroy {
 
     private mongoAdapter?: MongoAdapter;
     private postgresAdapter?: PostgresAdapter;
+    private mysqlAdapter?: MysqlAdapter;
+    private sqliteAdapter?: SqliteAdapter;
+    private memoryAdapter?: InMemoryAdapter;
+    private shutdownDelegated = false;
 
     constructor(config: DatabaseConfig) {
         this.config = config;
@@ -53,14 +73,27 @@ export class DatabaseService implements OnModuleDestroy {
      * Gracefully closes all database connections.
      */
     async onModuleDestroy(): Promise<void> {
+        if (this.shutdownDelegated) {
+            return;
+        }
+
         this.logger.log('Cleaning up database connections...');
         await this.disconnect();
     }
 
+    /**
+     * Leaves disconnecting to a `DatabaseRegistry`, which closes its connections
+     * one at a time instead of in parallel with other providers.
+     * Called by `DatabaseRegistry.register()`.
+     */
+    delegateShutdown(): void {
+        this.shutdownDelegated = true;
+    }
+
     /**
      * Returns the current database type.
      */
-    get type(): 'mongo' | 'postgres' {
+    get type(): DatabaseType {
         return this.config.type;
     }
 
@@ -73,6 +106,12 @@ export class DatabaseService implements OnModuleDestroy {
                 return this.mongoAdapter?.isConnected() ?? false;
             case 'postgres':
                 return this.postgresAdapter?.isConnected() ?? false;
+            case 'mysql':
+                return this.mysqlAdapter?.isConnected() ?? false;
+            case 'sqlite':
+                return this.sqliteAdapter?.isConnected() ?? false;
+            case 'memory':
+                return this.memoryAdapter?.isConnected() ?? false;
             default:
                 return false;
         }
@@ -102,6 +141,23 @@ export class DatabaseService implements OnModuleDestroy {
                 break;
             }
 
+            case 'mysql': {
+                this.getMysqlAdapter().connect();
+                this.logger.log('MySQL connection pool established');
+                break;
+            }
+
+            case 'sqlite': {
+                this.getSqliteAdapter().connect();
+                this.logger.log('SQLite database opened');
+                break;
+            }
+
+            case 'memory': {
+                this.getMemoryAdapter().connect();
+                break;
+            }
+
             default: {
                 // TypeScript exhaustiveness check - this should never happen
                 const exhaustiveCheck: never = this.config;
@@ -125,6 +181,21 @@ export class DatabaseService implements OnModuleDestroy {
                 this.postgresAdapter = undefined;
             }
 
+            if (this.mysqlAdapter) {
+                await this.mysqlAdapter.disconnect();
+                this.mysqlAdapter = undefined;
+            }
+
+            if (this.sqliteAdapter) {
+                await this.sqliteAdapter.disconnect();
+                this.sqliteAdapter = undefined;
+            }
+
+            if (this.memoryAdapter) {
+                await this.memoryAdapter.disconnect();
+                this.memoryAdapter = undefined;
+            }
+
             this.logger.log('All database connections closed');
         } catch (error) {
             this.logger.error('Error during database disconnect', error);
@@ -137,7 +208,7 @@ export class DatabaseService implements OnModuleDestroy {
      * 
      * @param options - Options containing the Mongoose model
      * @returns Repository instance with CRUD methods
-     * @throws Error if database type is not 'mongo'
+     * @throws Error if database type is not 'mongo' or 'memory'
      * 
      * @example
      * ```typescript
@@ -145,7 +216,11 @@ export class DatabaseService implements OnModuleDestroy {
      * const user = await usersRepo.create({ name: 'John' });
      * ```
      */
-    createMongoRepository<T = unknown>(options: MongoRepositoryOptions): Repository<T> {
+    createMongoRepository<T = unknown>(options: MongoRepositoryOptions<T>): Repository<T> {
+        if (this.config.type === 'memory') {
+            return this.createMemoryRepository<T>(fromMongoRepositoryOptions(options));
+        }
+
         if (this.config.type !== 'mongo') {
             throw new Error(
                 `Database type is "${this.config.type}". createMongoRepository can only be used when type === "mongo".`,
@@ -164,7 +239,7 @@ export class DatabaseService implements OnModuleDestroy {
      * 
      * @param cfg - Configuration for the entity/table
      * @returns Repository instance with CRUD methods
-     * @throws Error if database type is not 'postgres'
+     * @throws Error if database type is not 'postgres' or 'memory'
      * 
      * @example
      * ```typescript
@@ -176,6 +251,10 @@ export class DatabaseService implements OnModuleDestroy {
      * ```
      */
     createPostgresRepository<T = unknown>(cfg: PostgresEntityConfig): Repository<T> {
+        if (this.config.type === 'memory') {
+            return this.createMemoryRepository<T>(fromPostgresEntityConfig(cfg));
+        }
+
         if (this.config.type !== 'postgres') {
             throw new Error(
                 `Database type is "${this.config.type}". createPostgresRepository can only be used when type === "postgres".`,
@@ -190,6 +269,131 @@ export class DatabaseService implements OnModuleDestroy {
         return this.postgresAdapter.createRepository<T>(cfg);
     }
 
+    /**
+     * Creates a MySQL repository using a table configuration.
+     * Tables are configured exactly like PostgreSQL tables.
+     * 
+     * @param cfg - Configuration for the entity/table
+     * @returns Repository instance with CRUD methods
+     * @throws Error if database type is not 'mysql' or 'memory'
+     * 
+     * @example
+     * ```typescript
+     * const ordersRepo = db.createMysqlRepository<Order>({ table: 'orders', conflictKeys: ['number'] });
+     * ```
+     */
+    createMysqlRepository<T = unknown>(cfg: PostgresEntityConfig): Repository<T> {
+        if (this.config.type === 'memory') {
+            return this.createMemoryRepository<T>(fromPostgresEntityConfig(cfg));
+        }
+
+        if (this.config.type !== 'mysql') {
+            throw new Error(
+                `Database type is "${this.config.type}". createMysqlRepository can only be used when type === "mysql".`,
+            );
+        }
+
+        const adapter = this.getMysqlAdapter();
+        adapter.connect();
+        return adapter.createRepository<T>(cfg);
+    }
+
+    /**
+     * Creates a SQLite repository using a table configuration.
+     * Tables are configured exactly like PostgreSQL tables.
+     * 
+     * @param cfg - Configuration for the entity/table
+     * @returns Repository instance with CRUD methods
+     * @throws Error if database type is not 'sqlite' or 'memory'
+     * 
+     * @example
+     * ```typescript
+     * const ordersRepo = db.createSqliteRepository<Order>({ table: 'orders', timestamps: true });
+     * ```
+     */
+    createSqliteRepository<T = unknown>(cfg: PostgresEntityConfig): Repository<T> {
+        if (this.config.type === 'memory') {
+            return this.createMemoryRepository<T>(fromPostgresEntityConfig(cfg));
+        }
+
+        if (this.config.type !== 'sqlite') {
+            throw new Error(
+                `Database type is "${this.config.type}". createSqliteRepository can only be used when type === "sqlite".`,
+            );
+        }
+
+        const adapter = this.getSqliteAdapter();
+        adapter.connect();
+        return adapter.createRepository<T>(cfg);
+    }
+
+    /**
+     * Creates an in-memory repository.
+     * 
+     * @param cfg - Configuration for the entity/collection
+     * @returns Repository instance with CRUD methods
+     * @throws Error if database type is not 'memory'
+     * 
+     * @example
+     * ```typescript
+     * const usersRepo = db.createMemoryRepository<User>({ name: 'users', timestamps: true });
+     * ```
+     */
+    createMemoryRepository<T = unknown>(cfg: MemoryEntityConfig<T>): Repository<T> {
+        if (this.config.type !== 'memory') {
+            throw new Error(
+                `Database type is "${this.config.type}". createMemoryRepository can only be used when type === "memory".`,
+            );
+        }
+
+        const adapter = this.getMemoryAdapter();
+        adapter.connect();
+        return adapter.createRepository<T>(cfg);
+    }
+
+    /**
+     * Creates a repository for whatever database type is configured.
+     * Table configurations are used on SQL connections, Mongo options on MongoDB;
+     * in-memory connections accept both.
+     * 
+     * @param config - Table configuration or Mongo repository options
+     * @returns Repository instance with CRUD methods
+     * @throws Error if the configuration does not fit the database type
+     * 
+     * @example
+     * ```typescript
+     * export const UserEntityConfig: RepositoryConfig<User> = { table: 'users', timestamps: true };
+     * const usersRepo = db.createRepository(UserEntityConfig);
+     * ```
+     */
+    createRepository<T = unknown>(config: RepositoryConfig<T>): Repository<T> {
+        const tableConfig = 'table' in config ? config : undefined;
+
+        switch (this.config.type) {
+            case 'mongo':
+                if (tableConfig) {
+                    throw new Error(
+                        `Table "${tableConfig.table}" cannot be used on a MongoDB connection. Pass MongoRepositoryOptions instead.`,
+                    );
+                }
+                return this.createMongoRepository<T>(config as MongoRepositoryOptions<T>);
+            case 'postgres':
+                return this.createPostgresRepository<T>(this.requireTableConfig(tableConfig));
+            case 'mysql':
+                return this.createMysqlRepository<T>(this.requireTableConfig(tableConfig));
+            case 'sqlite':
+                return this.createSqliteRepository<T>(this.requireTableConfig(tableConfig));
+            case 'memory':
+                return tableConfig
+                    ? this.createPostgresRepository<T>(tableConfig)
+                    : this.createMongoRepository<T>(config as MongoRepositoryOptions<T>);
+            default: {
+                const exhaustiveCheck: never = this.config;
+                throw new Error(`Unsupported database type: ${(exhaustiveCheck as DatabaseConfig).type}`);
+            }
+        }
+    }
+
     /**
      * Returns the underlying MongoDB adapter.
      * Useful for advanced operations not covered by the repository interface.
@@ -226,6 +430,60 @@ export class DatabaseService implements OnModuleDestroy {
         return this.postgresAdapter;
     }
 
+    /**
+     * Returns the underlying MySQL adapter.
+     * Useful for advanced operations not covered by the repository interface.
+     * 
+     * @throws Error if database type is not 'mysql'
+     */
+    getMysqlAdapter(): MysqlAdapter {
+        if (this.config.type !== 'mysql') {
+            throw new Error('getMysqlAdapter() is only available for MySQL connections');
+        }
+
+        if (!this.mysqlAdapter) {
+            this.mysqlAdapter = new MysqlAdapter(this.config as MysqlDatabaseConfig);
+        }
+
+        return this.mysqlAdapter;
+    }
+
+    /**
+     * Returns the underlying SQLite adapter.
+     * Useful for advanced operations not covered by the repository interface.
+     * 
+     * @throws Error if database type is not 'sqlite'
+     */
+    getSqliteAdapter(): SqliteAdapter {
+        if (this.config.type !== 'sqlite') {
+            throw new Error('getSqliteAdapter() is only available for SQLite connections');
+        }
+
+        if (!this.sqliteAdapter) {
+            this.sqliteAdapter = new SqliteAdapter(this.config as SqliteDatabaseConfig);
+        }
+
+        return this.sqliteAdapter;
+    }
+
+    /**
+     * Returns the underlying in-memory adapter.
+     * Useful for resetting the store between tests.
+     * 
+     * @throws Error if database type is not 'memory'
+     */
+    getMemoryAdapter(): InMemoryAdapter {
+        if (this.config.type !== 'memory') {
+            throw new Error('getMemoryAdapter() is only available for in-memory connections');
+        }
+
+        if (!this.memoryAdapter) {
+            this.memoryAdapter = new InMemoryAdapter(this.config as MemoryDatabaseConfig);
+        }
+
+        return this.memoryAdapter;
+    }
+
     /**
      * Executes a callback within a MongoDB transaction.
      * All database operations within the callback are atomic.
@@ -235,7 +493,7 @@ export class DatabaseService implements OnModuleDestroy {
      * @param callback - Function to execute within the transaction
      * @param options - Transaction options
      * @returns Result of the callback function
-     * @throws Error if database type is not 'mongo' or transaction fails
+     * @throws Error if database type is not 'mongo' or 'memory', or transaction fails
      * 
      * @example
      * ```typescript
@@ -250,6 +508,17 @@ export class DatabaseService implements OnModuleDestroy {
         callback: TransactionCallback<MongoTransactionContext, TResult>,
         options?: TransactionOptions,
     ): Promise<TResult> {
+        if (this.config.type === 'memory') {
+            return this.getMemoryAdapter().withTransaction(
+                (ctx) => callback({
+                    transaction: ctx.transaction,
+                    createRepository: <T>(opts: MongoRepositoryOptions) =>
+                        ctx.createRepository<T>(fromMongoRepositoryOptions(opts)),
+                }),
+                options,
+            );
+        }
+
         if (this.config.type !== 'mongo') {
             throw new Error(
                 `Database type is "${this.config.type}". withMongoTransaction can only be used when type === "mongo".`,
@@ -267,7 +536,7 @@ export class DatabaseService implements OnModuleDestroy {
      * @param callback - Function to execute within the transaction
      * @param options - Transaction options including isolation level
      * @returns Result of the callback function
-     * @throws Error if database type is not 'postgres' or transaction fails
+     * @throws Error if database type is not 'postgres' or 'memory', or transaction fails
      * 
      * @example
      * ```typescript
@@ -282,6 +551,17 @@ export class DatabaseService implements OnModuleDestroy {
         callback: TransactionCallback<PostgresTransactionContext, TResult>,
         options?: TransactionOptions,
     ): Promise<TResult> {
+        if (this.config.type === 'memory') {
+            return this.getMemoryAdapter().withTransaction(
+                (ctx) => callback({
+                    transaction: ctx.transaction,
+                    createRepository: <T>(cfg: PostgresEntityConfig) =>
+                        ctx.createRepository<T>(fromPostgresEntityConfig(cfg)),
+                }),
+                options,
+            );
+        }
+
         if (this.config.type !== 'postgres') {
             throw new Error(
                 `Database type is "${this.config.type}". withPostgresTransaction can only be used when type === "postgres".`,
@@ -292,6 +572,74 @@ export class DatabaseService implements OnModuleDestroy {
         return adapter.withTransaction(callback, options);
     }
 
+    /**
+     * Executes a callback within a MySQL transaction.
+     * 
+     * @param callback - Function to execute within the transaction
+     * @param options - Transaction options (`retries` applies to deadlocks and lock wait timeouts)
+     * @returns Result of the callback function
+     * @throws Error if database type is not 'mysql' or 'memory', or transaction fails
+     */
+    async withMysqlTransaction<TResult>(
+        callback: TransactionCallback<MysqlTransactionContext, TResult>,
+        options?: TransactionOptions,
+    ): Promise<TResult> {
+        if (this.config.type === 'memory') {
+            return this.getMemoryAdapter().withTransaction(
+                (ctx) => callback({
+                    transaction: ctx.transaction,
+                    createRepository: <T>(cfg: PostgresEntityConfig) =>
+                        ctx.createRepository<T>(fromPostgresEntityConfig(cfg)),
+                }),
+                options,
+            );
+        }
+
+        if (this.config.type !== 'mysql') {
+            throw new Error(
+                `Database type is "${this.config.type}". withMysqlTransaction can only be used when type === "mysql".`,
+            );
+        }
+
+        const adapter = this.getMysqlAdapter();
+        adapter.connect();
+        return adapter.withTransaction(callback, options);
+    }
+
+    /**
+     * Executes a callback within a SQLite transaction.
+     * 
+     * @param callback - Function to execute within the transaction
+     * @param options - Transaction options (`retries` applies to SQLITE_BUSY)
+     * @returns Result of the callback function
+     * @throws Error if database type is not 'sqlite' or 'memory', or transaction fails
+     */
+    async withSqliteTransaction<TResult>(
+        callback: TransactionCallback<SqliteTransactionContext, TResult>,
+        options?: TransactionOptions,
+    ): Promise<TResult> {
+        if (this.config.type === 'memory') {
+            return this.getMemoryAdapter().withTransaction(
+                (ctx) => callback({
+                    transaction: ctx.transaction,
+                    createRepository: <T>(cfg: PostgresEntityConfig) =>
+                        ctx.createRepository<T>(fromPostgresEntityConfig(cfg)),
+                }),
+                options,
+            );
+        }
+
+        if (this.config.type !== 'sqlite') {
+            throw new Error(
+                `Database type is "${this.config.type}". withSqliteTransaction can only be used when type === "sqlite".`,
+            );
+        }
+
+        const adapter = this.getSqliteAdapter();
+        adapter.connect();
+        return adapter.withTransaction(callback, options);
+    }
+
     /**
      * Generic transaction method that works with the configured database type.
      * Automatically routes to the appropriate transaction handler.
@@ -310,7 +658,14 @@ export class DatabaseService implements OnModuleDestroy {
      * ```
      */
     async withTransaction<TResult>(
-        callback: TransactionCallback<MongoTransactionContext | PostgresTransactionContext, TResult>,
+        callback: TransactionCallback<
+            | MongoTransactionContext
+            | PostgresTransactionContext
+            | MysqlTransactionContext
+            | SqliteTransactionContext
+            | MemoryTransactionContext,
+            TResult
+        >,
         options?: TransactionOptions,
     ): Promise<TResult> {
         switch (this.config.type) {
@@ -324,6 +679,21 @@ export class DatabaseService implements OnModuleDestroy {
                     callback as TransactionCallback<PostgresTransactionContext, TResult>,
                     options,
                 );
+            case 'mysql':
+                return this.withMysqlTransaction(
+                    callback as TransactionCallback<MysqlTransactionContext, TResult>,
+                    options,
+                );
+            case 'sqlite':
+                return this.withSqliteTransaction(
+                    callback as TransactionCallback<SqliteTransactionContext, TResult>,
+                    options,
+                );
+            case 'memory':
+                return this.getMemoryAdapter().withTransaction(
+                    callback as TransactionCallback<MemoryTransactionContext, TResult>,
+                    options,
+                );
             default: {
                 const exhaustiveCheck: never = this.config;
                 throw new Error(`Unsupported database type: ${(exhaustiveCheck as DatabaseConfig).type}`);
@@ -360,6 +730,18 @@ export class DatabaseService implements OnModuleDestroy {
                 const adapter = this.getPostgresAdapter();
                 return adapter.healthCheck();
             }
+            case 'mysql': {
+                const adapter = this.getMysqlAdapter();
+                return adapter.healthCheck();
+            }
+            case 'sqlite': {
+                const adapter = this.getSqliteAdapter();
+                return adapter.healthCheck();
+            }
+            case 'memory': {
+                const adapter = this.getMemoryAdapter();
+                return adapter.healthCheck();
+            }
             default: {
                 const exhaustiveCheck: never = this.config;
                 return {
@@ -371,4 +753,16 @@ export class DatabaseService implements OnModuleDestroy {
             }
         }
     }
+
+    /**
+     * Ensures a SQL connection received a table configuration.
+     */
+    private requireTableConfig<T>(config: PostgresEntityConfig<T> | undefined): PostgresEntityConfig<T> {
+        if (!config) {
+            throw new Error(
+                `MongoDB repository options cannot be used on a ${this.config.type} connection. Pass a table configuration instead.`,
+            );
+        }
+        return config;
+    }
 }
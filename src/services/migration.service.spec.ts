@@ -0,0 +1,137 @@
+// src/services/migration.service.spec.ts
+
+import { MigrationService } from './migration.service';
+import { DatabaseService } from './database.service';
+
+describe('MigrationService', () => {
+    const createMocks = () => {
+        const trx = { raw: jest.fn().mockResolvedValue(undefined) };
+        const kx = {
+            migrate: {
+                latest: jest.fn().mockResolvedValue([2, ['002_add_email.ts']]),
+                down: jest.fn(),
+                list: jest.fn(),
+                make: jest.fn().mockResolvedValue('migrations/20240101000000_create_users.ts'),
+            },
+            transaction: jest.fn(async (callback: (t: typeof trx) => Promise<unknown>) => callback(trx)),
+        };
+        const db = {
+            type: 'postgres',
+            getPostgresAdapter: jest.fn(() => ({ connect: () => kx })),
+        } as unknown as DatabaseService;
+
+        return { db, kx, trx };
+    };
+
+    it('should apply pending migrations under an advisory lock', async () => {
+        const { db, kx, trx } = createMocks();
+        const service = new MigrationService(db, { directory: './db/migrations', tableName: 'schema_migrations' });
+
+        const result = await service.migrateLatest();
+
+        expect(trx.raw).toHaveBeenCalledWith('SELECT pg_advisory_xact_lock(hashtext(?))', [
+            'databasekit:schema_migrations',
+        ]);
+        expect(kx.migrate.latest).toHaveBeenCalledWith({
+            directory: './db/migrations',
+            tableName: 'schema_migrations',
+            extension: 'ts',
+        });
+        expect(result).toEqual({ batch: 2, migrations: ['002_add_email.ts'] });
+    });
+
+    it('should hold a named lock on MySQL and release it afterwards', async () => {
+        const { kx, trx } = createMocks();
+        const db = {
+            type: 'mysql',
+            getMysqlAdapter: jest.fn(() => ({ connect: () => kx })),
+        } as unknown as DatabaseService;
+
+        await new MigrationService(db).migrateLatest();
+
+        expect(trx.raw.mock.calls).toEqual([
+            ['SELECT GET_LOCK(?, -1)', ['databasekit:knex_migrations']],
+            ['SELECT RELEASE_LOCK(?)', ['databasekit:knex_migrations']],
+        ]);
+        expect(kx.migrate.latest).toHaveBeenCalled();
+    });
+
+    it('should roll back the requested number of migrations', async () => {
+        const { db, kx } = createMocks();
+        kx.migrate.down
+            .mockResolvedValueOnce([2, ['002_add_email.ts']])
+            .mockResolvedValueOnce([1, ['001_create_users.ts']])
+            .mockResolvedValueOnce([0, []]);
+        const service = new MigrationService(db);
+
+        const result = await service.rollback(3);
+
+        expect(kx.migrate.down).toHaveBeenCalledTimes(3);
+        expect(result).toEqual({ batch: 1, migrations: ['002_add_email.ts', '001_create_users.ts'] });
+    });
+
+    it('should reject invalid rollback steps', async () => {
+        const { db } = createMocks();
+        const service = new MigrationService(db);
+
+        await expect(service.rollback(0)).rejects.toThrow('positive integer');
+    });
+
+    it('should report completed and pending migrations', async () => {
+        const { db, kx } = createMocks();
+        kx.migrate.list.mockResolvedValue([
+            [{ name: '001_create_users.ts' }],
+            [{ file: '002_add_email.ts', directory: './migrations' }],
+        ]);
+        const service = new MigrationService(db);
+
+        await expect(service.status()).resolves.toEqual({
+            completed: ['001_create_users.ts'],
+            pending: ['002_add_email.ts'],
+        });
+    });
+
+    it('should create a migration file', async () => {
+        const { db, kx } = createMocks();
+        const service = new MigrationService(db, { extension: 'js' });
+
+        const file = await service.make('create_users');
+
+        expect(kx.migrate.make).toHaveBeenCalledWith('create_users', {
+            directory: './migrations',
+            tableName: 'knex_migrations',
+            extension: 'js',
+        });
+        expect(file).toContain('create_users');
+    });
+
+    it('should run migrations on init only when runOnInit is enabled', async () => {
+        const { db, kx } = createMocks();
+
+        await new MigrationService(db).onModuleInit();
+        expect(kx.migrate.latest).not.toHaveBeenCalled();
+
+        await new MigrationService(db, { runOnInit: true }).onModuleInit();
+        expect(kx.migrate.latest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should delegate to the MongoDB migration runner for mongo connections', async () => {
+        const runner = {
+            up: jest.fn().mockResolvedValue({ batch: 1, migrations: ['001_init.ts'] }),
+            down: jest.fn().mockResolvedValue({ batch: 1, migrations: ['001_init.ts'] }),
+            status: jest.fn().mockResolvedValue({ completed: [], pending: ['001_init.ts'] }),
+        };
+        const db = {
+            type: 'mongo',
+            getMongoAdapter: jest.fn(() => ({ createMigrationRunner: () => runner })),
+        } as unknown as DatabaseService;
+        const service = new MigrationService(db);
+
+        await expect(service.migrateLatest()).resolves.toEqual({ batch: 1, migrations: ['001_init.ts'] });
+        await service.rollback(2);
+        await expect(service.status()).resolves.toEqual({ completed: [], pending: ['001_init.ts'] });
+
+        expect(runner.down).toHaveBeenCalledWith(2);
+        expect(db.getMongoAdapter).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,228 @@
+// src/services/migration.service.ts
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Knex } from 'knex';
+import {
+    MigrationOptions,
+    MigrationResult,
+    MigrationStatus,
+} from '../contracts/database.contracts';
+import { DatabaseService } from './database.service';
+import { MongoMigrationRunner } from '../adapters/mongo-migration.runner';
+
+/**
+ * Runs schema migrations against the connection managed by DatabaseService.
+ *
+ * PostgreSQL migrations are standard Knex migration files. Every run that
+ * changes the schema holds a transaction-scoped advisory lock, so concurrent
+ * instances wait for each other instead of applying the same batch twice.
+ * MySQL uses the same Knex migration files guarded by a `GET_LOCK` named lock,
+ * and SQLite uses them without a lock.
+ *
+ * MongoDB migrations are scripts exporting `up`/`down`, tracked in a changelog
+ * collection and guarded by a lock document. They are configured through
+ * `MongoDatabaseConfig.migrations`.
+ *
+ * In-memory connections have no schema, so runs are no-ops there.
+ *
+ * @example
+ * ```typescript
+ * DatabaseKitModule.forRoot({
+ *   config: { type: 'postgres', connectionString: process.env.DATABASE_URL! },
+ *   migrations: { directory: './migrations', runOnInit: true },
+ * });
+ *
+ * // Or on demand
+ * constructor(private readonly migrations: MigrationService) {}
+ * await this.migrations.migrateLatest();
+ * ```
+ */
+@Injectable()
+export class MigrationService implements OnModuleInit {
+    private readonly logger = new Logger(MigrationService.name);
+    private readonly options: Required<MigrationOptions>;
+    private mongoRunner?: MongoMigrationRunner;
+
+    constructor(
+        private readonly db: DatabaseService,
+        options: MigrationOptions = {},
+    ) {
+        this.options = {
+            directory: options.directory ?? './migrations',
+            tableName: options.tableName ?? 'knex_migrations',
+            extension: options.extension ?? 'ts',
+            runOnInit: options.runOnInit ?? false,
+        };
+    }
+
+    /**
+     * Lifecycle hook called when the module is initialized.
+     * Applies pending migrations when `runOnInit` is enabled.
+     */
+    async onModuleInit(): Promise<void> {
+        if (this.options.runOnInit) {
+            await this.migrateLatest();
+        }
+    }
+
+    /**
+     * Applies all pending migrations as a new batch.
+     *
+     * @returns The batch number and the applied migration names
+     */
+    async migrateLatest(): Promise<MigrationResult> {
+        if (this.db.type === 'mongo') {
+            return this.getMongoRunner().up();
+        }
+        if (this.db.type === 'memory') {
+            return { batch: 0, migrations: [] };
+        }
+
+        const result = await this.withLock((kx) => kx.migrate.latest(this.getMigratorConfig()));
+        const migrations = result[1] as string[];
+
+        this.logger.log(
+            migrations.length
+                ? `Applied ${migrations.length} migration(s) in batch ${result[0]}`
+                : 'Database schema is up to date',
+        );
+
+        return { batch: result[0], migrations };
+    }
+
+    /**
+     * Rolls back the most recently applied migrations one at a time.
+     *
+     * @param steps - Number of migrations to undo (default: 1)
+     * @returns The last batch touched and the rolled back migration names
+     */
+    async rollback(steps = 1): Promise<MigrationResult> {
+        if (!Number.isInteger(steps) || steps < 1) {
+            throw new Error(`rollback steps must be a positive integer, got ${steps}.`);
+        }
+
+        if (this.db.type === 'mongo') {
+            return this.getMongoRunner().down(steps);
+        }
+        if (this.db.type === 'memory') {
+            return { batch: 0, migrations: [] };
+        }
+
+        return this.withLock(async (kx) => {
+            const config = this.getMigratorConfig();
+            const migrations: string[] = [];
+            let batch = 0;
+
+            for (let i = 0; i < steps; i++) {
+                const [batchNo, log] = await kx.migrate.down(config);
+                if (!log.length) break;
+                batch = batchNo;
+                migrations.push(...log);
+            }
+
+            this.logger.log(`Rolled back ${migrations.length} migration(s)`);
+
+            return { batch, migrations };
+        });
+    }
+
+    /**
+     * Lists applied and pending migrations.
+     *
+     * @returns Completed and pending migration names
+     */
+    async status(): Promise<MigrationStatus> {
+        if (this.db.type === 'mongo') {
+            return this.getMongoRunner().status();
+        }
+        if (this.db.type === 'memory') {
+            return { completed: [], pending: [] };
+        }
+
+        const [completed, pending] = await this.getKnex().migrate.list(this.getMigratorConfig());
+
+        return {
+            completed: (completed as Array<string | { name: string }>).map((m) =>
+                typeof m === 'string' ? m : m.name,
+            ),
+            pending: (pending as Array<string | { file: string }>).map((m) =>
+                typeof m === 'string' ? m : m.file,
+            ),
+        };
+    }
+
+    /**
+     * Creates a new, timestamped migration file in the configured directory.
+     *
+     * @param name - Descriptive migration name (e.g. "create_users")
+     * @returns Path of the created file
+     */
+    async make(name: string): Promise<string> {
+        if (this.db.type === 'memory') {
+            throw new Error('Migration files cannot be created for in-memory connections.');
+        }
+
+        const file = this.db.type === 'mongo'
+            ? await this.getMongoRunner().make(name)
+            : await this.getKnex().migrate.make(name, this.getMigratorConfig());
+        this.logger.log(`Created migration ${file}`);
+        return file;
+    }
+
+    private getMigratorConfig(): Knex.MigratorConfig {
+        return {
+            directory: this.options.directory,
+            tableName: this.options.tableName,
+            extension: this.options.extension,
+        };
+    }
+
+    private getMongoRunner(): MongoMigrationRunner {
+        if (!this.mongoRunner) {
+            this.mongoRunner = this.db.getMongoAdapter().createMigrationRunner();
+        }
+        return this.mongoRunner;
+    }
+
+    private getKnex(): Knex {
+        // connect() is idempotent and returns the adapter's shared Knex instance
+        if (this.db.type === 'mysql') {
+            return this.db.getMysqlAdapter().connect();
+        }
+        return this.db.type === 'sqlite'
+            ? this.db.getSqliteAdapter().connect()
+            : this.db.getPostgresAdapter().connect();
+    }
+
+    /**
+     * Runs the callback while holding a transaction-scoped advisory lock.
+     * The lock lives on its own pooled connection, so the pool needs at least two connections.
+     */
+    private async withLock<R>(callback: (kx: Knex) => Promise<R>): Promise<R> {
+        const kx = this.getKnex();
+
+        // SQLite allows a single writer and Knex's own lock table already guards the run
+        if (this.db.type === 'sqlite') {
+            return callback(kx);
+        }
+
+        const lockName = `databasekit:${this.options.tableName}`;
+
+        // MySQL named locks belong to the session, so release it before the connection returns to the pool
+        if (this.db.type === 'mysql') {
+            return kx.transaction(async (trx) => {
+                await trx.raw('SELECT GET_LOCK(?, -1)', [lockName]);
+                try {
+                    return await callback(kx);
+                } finally {
+                    await trx.raw('SELECT RELEASE_LOCK(?)', [lockName]);
+                }
+            });
+        }
+
+        return kx.transaction(async (trx) => {
+            await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [lockName]);
+            return callback(kx);
+        });
+    }
+}
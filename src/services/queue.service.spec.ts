@@ -0,0 +1,383 @@
+// src/services/queue.service.spec.ts
+
+import { QueueService } from './queue.service';
+import { DatabaseService } from './database.service';
+import { QueueJob } from '../contracts/database.contracts';
+
+describe('QueueService', () => {
+    const now = new Date('2026-01-01T00:00:00.000Z');
+
+    const createRow = (overrides: Record<string, unknown> = {}) => ({
+        id: '1',
+        name: 'send-email',
+        payload: { to: 'a@example.com' },
+        status: 'running',
+        priority: 0,
+        run_at: now,
+        attempts: 1,
+        max_attempts: 3,
+        dedupe_key: null,
+        last_error: null,
+        locked_until: now,
+        created_at: now,
+        updated_at: now,
+        ...overrides,
+    });
+
+    const createJob = (overrides: Partial<QueueJob> = {}): QueueJob => ({
+        id: '1',
+        name: 'send-email',
+        payload: {},
+        status: 'running',
+        priority: 0,
+        runAt: now,
+        attempts: 1,
+        maxAttempts: 3,
+        dedupeKey: null,
+        lastError: null,
+        lockedUntil: now,
+        createdAt: now,
+        updatedAt: now,
+        ...overrides,
+    });
+
+    describe('PostgreSQL', () => {
+        // Every query resolves with the next queued result, in the order the queries run
+        const createMocks = (...results: unknown[]) => {
+            const builders: Array<Record<string, jest.Mock>> = [];
+            const createBuilder = () => {
+                const qb: Record<string, jest.Mock> & { then?: unknown } = {};
+                for (const method of [
+                    'select', 'where', 'orWhere', 'whereIn', 'whereRaw', 'insert', 'update', 'onConflict', 'ignore',
+                    'returning', 'first', 'orderBy', 'limit', 'forUpdate', 'skipLocked',
+                ]) {
+                    qb[method] = jest.fn(() => qb);
+                }
+                qb.then = (resolve: (value: unknown) => void) => resolve(results.shift());
+                builders.push(qb);
+                return qb;
+            };
+
+            const schema = { hasTable: jest.fn().mockResolvedValue(false), createTable: jest.fn() };
+            const trx = Object.assign(jest.fn(() => createBuilder()), {
+                raw: jest.fn((sql: string, bindings: unknown[]) => ({ sql, bindings })),
+                schema,
+            });
+            const kx = Object.assign(jest.fn(() => createBuilder()), {
+                transaction: jest.fn(async (callback: (t: typeof trx) => Promise<unknown>) => callback(trx)),
+            });
+            const adapter = {
+                connect: () => kx,
+                withTransaction: jest.fn(async (callback: (ctx: unknown) => Promise<unknown>) =>
+                    callback({ transaction: trx })),
+            };
+            const db = {
+                type: 'postgres',
+                getPostgresAdapter: jest.fn(() => adapter),
+            } as unknown as DatabaseService;
+
+            return { db, kx, trx, schema, adapter, builders };
+        };
+
+        it('should create the job table once under an advisory lock', async () => {
+            const { db, trx, schema } = createMocks();
+            const service = new QueueService(db, { tableName: 'jobs' });
+
+            await service.setup();
+            await service.setup();
+
+            expect(trx.raw).toHaveBeenCalledWith('SELECT pg_advisory_xact_lock(hashtext(?))', ['databasekit:jobs']);
+            expect(schema.createTable).toHaveBeenCalledTimes(1);
+            expect(schema.createTable).toHaveBeenCalledWith('jobs', expect.any(Function));
+        });
+
+        it('should enqueue a job and map the stored row', async () => {
+            const { db, schema, builders } = createMocks([createRow({ status: 'pending', attempts: 0 })]);
+            schema.hasTable.mockResolvedValue(true);
+            const service = new QueueService(db);
+
+            const job = await service.enqueue('send-email', { to: 'a@example.com' }, { priority: 5, dedupeKey: 'w:1' });
+
+            expect(builders[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+                name: 'send-email',
+                payload: '{"to":"a@example.com"}',
+                status: 'pending',
+                priority: 5,
+                max_attempts: 5,
+                dedupe_key: 'w:1',
+            }));
+            expect(builders[0].onConflict).toHaveBeenCalledWith(['name', 'dedupe_key']);
+            expect(builders[0].ignore).toHaveBeenCalled();
+            expect(job).toMatchObject({ id: '1', name: 'send-email', status: 'pending', attempts: 0, maxAttempts: 3 });
+        });
+
+        it('should return the unfinished job with the same dedupe key', async () => {
+            const { db, schema, builders } = createMocks([], createRow({ id: '7', dedupe_key: 'w:1' }));
+            schema.hasTable.mockResolvedValue(true);
+            const service = new QueueService(db);
+
+            const job = await service.enqueue('send-email', {}, { dedupeKey: 'w:1' });
+
+            expect(builders[1].where).toHaveBeenCalledWith({ name: 'send-email', dedupe_key: 'w:1' });
+            expect(job).toMatchObject({ id: '7', dedupeKey: 'w:1' });
+        });
+
+        it('should claim due jobs with FOR UPDATE SKIP LOCKED inside a transaction', async () => {
+            const { db, adapter, schema, builders } = createMocks(
+                0,
+                [{ id: '2' }, { id: '1' }],
+                [createRow({ id: '1', attempts: 1 }), createRow({ id: '2', attempts: 2 })],
+            );
+            schema.hasTable.mockResolvedValue(true);
+            const service = new QueueService(db, { tableName: 'jobs', leaseMs: 60000 });
+
+            const jobs = await service.claim(10, { names: ['send-email'] });
+
+            expect(adapter.withTransaction).toHaveBeenCalled();
+            expect(builders[0].whereIn).toHaveBeenCalledWith('name', ['send-email']);
+            expect(builders[1].whereIn).toHaveBeenCalledWith('name', ['send-email']);
+            expect(builders[1].limit).toHaveBeenCalledWith(10);
+            expect(builders[1].forUpdate).toHaveBeenCalled();
+            expect(builders[1].skipLocked).toHaveBeenCalled();
+            expect(builders[2].whereIn).toHaveBeenCalledWith('id', ['2', '1']);
+            expect(builders[2].update).toHaveBeenCalledWith(expect.objectContaining({
+                status: 'running',
+                attempts: { sql: '?? + 1', bindings: ['attempts'] },
+            }));
+            expect(jobs.map((job) => job.id)).toEqual(['2', '1']);
+        });
+
+        it('should dead-letter expired jobs that were on their last attempt before picking candidates', async () => {
+            const { db, schema, builders } = createMocks(
+                2,
+                [{ id: '3' }],
+                [createRow({ id: '3', attempts: 1 })],
+            );
+            schema.hasTable.mockResolvedValue(true);
+
+            const jobs = await new QueueService(db).claim(1);
+
+            expect(builders[0].where).toHaveBeenCalledWith('status', 'running');
+            expect(builders[0].whereRaw).toHaveBeenCalledWith('?? >= ??', ['attempts', 'max_attempts']);
+            expect(builders[0].update).toHaveBeenCalledWith(expect.objectContaining({
+                status: 'dead',
+                dedupe_key: null,
+                last_error: 'Lease expired on the last attempt',
+            }));
+            expect(builders[1].limit).toHaveBeenCalledWith(1);
+            expect(builders[2].whereIn).toHaveBeenCalledWith('id', ['3']);
+            expect(jobs.map((job) => job.id)).toEqual(['3']);
+        });
+
+        it('should not open an update when nothing is due', async () => {
+            const { db, schema, builders } = createMocks(0, []);
+            schema.hasTable.mockResolvedValue(true);
+
+            await expect(new QueueService(db).claim(5)).resolves.toEqual([]);
+            expect(builders).toHaveLength(2);
+        });
+
+        it('should complete a job only while the claim still holds', async () => {
+            const { db, schema, builders } = createMocks(1, 0);
+            schema.hasTable.mockResolvedValue(true);
+            const service = new QueueService(db);
+
+            await expect(service.complete(createJob({ attempts: 2 }))).resolves.toBe(true);
+            await expect(service.complete(createJob({ attempts: 2 }))).resolves.toBe(false);
+
+            expect(builders[0].where).toHaveBeenCalledWith({ id: '1', status: 'running', attempts: 2 });
+            expect(builders[0].update).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'completed', dedupe_key: null, locked_until: null }),
+            );
+        });
+
+        it('should retry a failed job with exponential backoff', async () => {
+            jest.useFakeTimers().setSystemTime(now);
+            try {
+                const { db, schema, builders } = createMocks(1);
+                schema.hasTable.mockResolvedValue(true);
+                const service = new QueueService(db, { backoffMs: 1000 });
+
+                await service.fail(createJob({ attempts: 2, maxAttempts: 3 }), new Error('SMTP down'));
+
+                expect(builders[0].update).toHaveBeenCalledWith(expect.objectContaining({
+                    status: 'pending',
+                    run_at: new Date(now.getTime() + 2000),
+                    last_error: 'SMTP down',
+                }));
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('should dead-letter a job that used up its attempts', async () => {
+            const { db, schema, builders } = createMocks(1, 1);
+            schema.hasTable.mockResolvedValue(true);
+            const service = new QueueService(db);
+
+            await service.fail(createJob({ attempts: 3, maxAttempts: 3 }), 'boom');
+            await service.fail(createJob({ attempts: 1 }), 'invalid payload', { retry: false });
+
+            for (const qb of builders) {
+                expect(qb.update).toHaveBeenCalledWith(
+                    expect.objectContaining({ status: 'dead', dedupe_key: null }),
+                );
+            }
+        });
+
+        it('should put dead jobs back in the queue', async () => {
+            const { db, schema, builders } = createMocks(1);
+            schema.hasTable.mockResolvedValue(true);
+
+            await expect(new QueueService(db).retryDead('1')).resolves.toBe(true);
+            expect(builders[0].where).toHaveBeenCalledWith({ id: '1', status: 'dead' });
+            expect(builders[0].update).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', attempts: 0 }));
+        });
+
+        it('should return false from retryDead for a malformed id', async () => {
+            const { db, schema, builders } = createMocks();
+            schema.hasTable.mockResolvedValue(true);
+
+            await expect(new QueueService(db).retryDead('abc')).resolves.toBe(false);
+            expect(builders).toHaveLength(0);
+        });
+
+        it('should reject invalid arguments', async () => {
+            const { db } = createMocks();
+            const service = new QueueService(db);
+
+            await expect(service.claim(0)).rejects.toThrow('claim batch must be a positive integer.');
+            await expect(service.enqueue('', {})).rejects.toThrow('enqueue needs a job name.');
+            await expect(service.enqueue('a', {}, { maxAttempts: 0 })).rejects.toThrow(
+                'enqueue maxAttempts must be a positive integer.',
+            );
+        });
+    });
+
+    describe('MongoDB', () => {
+        const createMocks = () => {
+            const collection = {
+                createIndexes: jest.fn().mockResolvedValue([]),
+                insertOne: jest.fn().mockResolvedValue({}),
+                findOne: jest.fn(),
+                findOneAndUpdate: jest.fn(),
+                updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+                updateMany: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+            };
+            const adapter = {
+                connect: jest.fn().mockResolvedValue(undefined),
+                getDb: () => ({ collection: () => collection }),
+            };
+            const db = { type: 'mongo', getMongoAdapter: () => adapter } as unknown as DatabaseService;
+
+            return { db, collection };
+        };
+
+        it('should create the claim and dedupe indexes', async () => {
+            const { db, collection } = createMocks();
+
+            await new QueueService(db).setup();
+
+            expect(collection.createIndexes).toHaveBeenCalledWith([
+                { key: { status: 1, priority: -1, runAt: 1 } },
+                {
+                    key: { name: 1, dedupeKey: 1 },
+                    unique: true,
+                    partialFilterExpression: { dedupeKey: { $type: 'string' } },
+                },
+            ]);
+        });
+
+        it('should return the existing job on a duplicate dedupe key', async () => {
+            const { db, collection } = createMocks();
+            collection.insertOne.mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+            collection.findOne.mockResolvedValue({ _id: 'abc', name: 'send-email', dedupeKey: 'w:1', status: 'pending' });
+
+            const job = await new QueueService(db).enqueue('send-email', {}, { dedupeKey: 'w:1' });
+
+            expect(collection.findOne).toHaveBeenCalledWith({ name: 'send-email', dedupeKey: 'w:1' });
+            expect(job).toEqual({ id: 'abc', name: 'send-email', dedupeKey: 'w:1', status: 'pending' });
+        });
+
+        it('should lease jobs with findOneAndUpdate until none is due', async () => {
+            const { db, collection } = createMocks();
+            collection.findOneAndUpdate
+                .mockResolvedValueOnce({ _id: 'a', name: 'send-email', attempts: 1 })
+                .mockResolvedValueOnce(null);
+
+            const jobs = await new QueueService(db, { leaseMs: 1000 }).claim(5);
+
+            expect(collection.findOneAndUpdate).toHaveBeenCalledTimes(2);
+            expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+                {
+                    $or: [
+                        { status: 'pending', runAt: { $lte: expect.any(Date) } },
+                        {
+                            status: 'running',
+                            lockedUntil: { $lt: expect.any(Date) },
+                            $expr: { $lt: ['$attempts', '$maxAttempts'] },
+                        },
+                    ],
+                },
+                {
+                    $set: { status: 'running', lockedUntil: expect.any(Date), updatedAt: expect.any(Date) },
+                    $inc: { attempts: 1 },
+                },
+                { sort: { priority: -1, runAt: 1, _id: 1 }, returnDocument: 'after' },
+            );
+            expect(jobs).toEqual([{ id: 'a', name: 'send-email', attempts: 1 }]);
+        });
+
+        it('should dead-letter expired jobs that were on their last attempt', async () => {
+            const { db, collection } = createMocks();
+            collection.findOneAndUpdate.mockResolvedValue(null);
+
+            await new QueueService(db).claim(5, { names: ['send-email'] });
+
+            expect(collection.updateMany).toHaveBeenCalledWith(
+                {
+                    name: { $in: ['send-email'] },
+                    status: 'running',
+                    lockedUntil: { $lt: expect.any(Date) },
+                    $expr: { $gte: ['$attempts', '$maxAttempts'] },
+                },
+                {
+                    $set: expect.objectContaining({
+                        status: 'dead',
+                        dedupeKey: null,
+                        lastError: 'Lease expired on the last attempt',
+                    }),
+                },
+            );
+        });
+
+        it('should return false from retryDead for a malformed id', async () => {
+            const { db, collection } = createMocks();
+
+            await expect(new QueueService(db).retryDead('not-an-id')).resolves.toBe(false);
+            expect(collection.updateOne).not.toHaveBeenCalled();
+        });
+
+        it('should dead-letter a failed job when retry is off', async () => {
+            const { db, collection } = createMocks();
+            const job = createJob({ id: '65a1b2c3d4e5f6a7b8c9d0e1', attempts: 1 });
+
+            await expect(new QueueService(db).fail(job, new Error('bad input'), { retry: false })).resolves.toBe(true);
+
+            expect(collection.updateOne).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'running', attempts: 1 }),
+                {
+                    $set: expect.objectContaining({ status: 'dead', dedupeKey: null, lastError: 'bad input' }),
+                },
+            );
+        });
+    });
+
+    it('should reject connections other than PostgreSQL and MongoDB', async () => {
+        const db = { type: 'mysql' } as unknown as DatabaseService;
+
+        await expect(new QueueService(db).claim(1)).rejects.toThrow(
+            'QueueService supports PostgreSQL and MongoDB connections, got "mysql".',
+        );
+    });
+});
@@ -0,0 +1,545 @@
+// src/services/queue.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Knex } from 'knex';
+import mongoose from 'mongoose';
+import {
+    ClaimOptions,
+    EnqueueOptions,
+    FailOptions,
+    QueueJob,
+    QueueJobStatus,
+    QueueOptions,
+} from '../contracts/database.contracts';
+import { DatabaseService } from './database.service';
+
+/**
+ * Row layout of the PostgreSQL jobs table.
+ */
+interface JobRow {
+    id: string | number;
+    name: string;
+    payload: unknown;
+    status: QueueJobStatus;
+    priority: number;
+    run_at: Date;
+    attempts: number;
+    max_attempts: number;
+    dedupe_key: string | null;
+    last_error: string | null;
+    locked_until: Date | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * Document layout of the MongoDB jobs collection.
+ */
+interface JobDocument extends Omit<QueueJob, 'id'> {
+    _id: mongoose.Types.ObjectId;
+}
+
+/** Duplicate key error code of MongoDB */
+const DUPLICATE_KEY = 11000;
+
+/** `lastError` of a job dead-lettered because its worker never reported back on the last attempt */
+const LEASE_EXPIRED = 'Lease expired on the last attempt';
+
+/**
+ * Background job queue stored in a table managed by DatabaseKit.
+ *
+ * On PostgreSQL, workers claim jobs with `SELECT ... FOR UPDATE SKIP LOCKED`
+ * inside `PostgresAdapter.withTransaction()`, so concurrent workers never
+ * receive the same job and never wait for each other. On MongoDB, each job is
+ * leased with an atomic `findOneAndUpdate`.
+ *
+ * A claimed job belongs to its worker for `leaseMs`. Workers report the outcome
+ * with complete() or fail(); a job whose lease runs out (e.g. the worker crashed)
+ * is claimed again. Failed jobs are retried with exponential backoff, and after
+ * `maxAttempts` they are dead-lettered: kept with status "dead" until retryDead().
+ *
+ * The table (or collection and its indexes) is created on first use.
+ *
+ * @example
+ * ```typescript
+ * await queue.enqueue('send-email', { to: 'a@example.com' }, { dedupeKey: 'welcome:42' });
+ *
+ * // Worker loop
+ * for (const job of await queue.claim(10, { names: ['send-email'] })) {
+ *   try {
+ *     await sendEmail(job.payload);
+ *     await queue.complete(job);
+ *   } catch (error) {
+ *     await queue.fail(job, error);
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class QueueService {
+    private readonly logger = new Logger(QueueService.name);
+    private readonly options: Required<QueueOptions>;
+    private setupPromise?: Promise<void>;
+
+    constructor(
+        private readonly db: DatabaseService,
+        options: QueueOptions = {},
+    ) {
+        this.options = {
+            tableName: options.tableName ?? 'databasekit_jobs',
+            maxAttempts: options.maxAttempts ?? 5,
+            backoffMs: options.backoffMs ?? 1000,
+            maxBackoffMs: options.maxBackoffMs ?? 3600000,
+            leaseMs: options.leaseMs ?? 300000,
+        };
+    }
+
+    /**
+     * Creates the jobs table (PostgreSQL) or the collection's indexes (MongoDB) when missing.
+     * Runs once per service; every other method calls it first.
+     *
+     * @throws Error if the connection is neither PostgreSQL nor MongoDB
+     */
+    async setup(): Promise<void> {
+        if (!this.setupPromise) {
+            this.setupPromise = (this.isMongo() ? this.setupMongo() : this.setupPostgres()).catch((error) => {
+                // Let the next call try again
+                this.setupPromise = undefined;
+                throw error;
+            });
+        }
+        return this.setupPromise;
+    }
+
+    /**
+     * Adds a job to the queue.
+     * With a `dedupeKey`, a pending or running job of the same name and key is returned instead.
+     *
+     * @param name - Job name, used by workers to pick a handler
+     * @param payload - JSON-serializable job data
+     * @param options - Run time, priority, deduplication key and attempt limit
+     * @returns The stored job
+     */
+    async enqueue<P>(name: string, payload: P, options: EnqueueOptions = {}): Promise<QueueJob<P>> {
+        if (!name) {
+            throw new Error('enqueue needs a job name.');
+        }
+        const maxAttempts = options.maxAttempts ?? this.options.maxAttempts;
+        if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+            throw new Error('enqueue maxAttempts must be a positive integer.');
+        }
+
+        await this.setup();
+        const now = new Date();
+        const job: Omit<QueueJob<P>, 'id'> = {
+            name,
+            payload,
+            status: 'pending',
+            priority: options.priority ?? 0,
+            runAt: options.runAt ?? now,
+            attempts: 0,
+            maxAttempts,
+            dedupeKey: options.dedupeKey ?? null,
+            lastError: null,
+            lockedUntil: null,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        const stored = this.isMongo() ? await this.insertMongo(job) : await this.insertPostgres(job);
+        if (stored) return stored;
+
+        // The unfinished duplicate finished in the meantime, so there is room for a new job
+        return this.enqueue(name, payload, options);
+    }
+
+    /**
+     * Claims up to `batch` due jobs for this worker, highest priority first, then by run time.
+     * Each claimed job is marked running, its attempts are incremented, and it is leased for `leaseMs`.
+     * Running jobs whose lease has expired are claimed again, unless that was their last attempt:
+     * those are dead-lettered, as their worker most likely crashed on them every time.
+     *
+     * @param batch - Maximum number of jobs to claim
+     * @param options - Job names to claim
+     * @returns The claimed jobs, possibly none
+     */
+    async claim(batch: number, options: ClaimOptions = {}): Promise<QueueJob[]> {
+        if (!Number.isInteger(batch) || batch < 1) {
+            throw new Error('claim batch must be a positive integer.');
+        }
+
+        await this.setup();
+        return this.isMongo() ? this.claimMongo(batch, options) : this.claimPostgres(batch, options);
+    }
+
+    /**
+     * Marks a claimed job as completed.
+     *
+     * @param job - The job as returned by claim()
+     * @returns false if the lease was lost and the job belongs to another worker by now
+     */
+    async complete(job: QueueJob): Promise<boolean> {
+        await this.setup();
+        return this.finish(job, { status: 'completed', lockedUntil: null, dedupeKey: null });
+    }
+
+    /**
+     * Reports a failed attempt of a claimed job.
+     * The job is retried after `backoffMs * 2^(attempts - 1)` (at most `maxBackoffMs`), or
+     * dead-lettered once it has used up its attempts or `retry` is false.
+     *
+     * @param job - The job as returned by claim()
+     * @param error - The error that made the attempt fail, stored as `lastError`
+     * @param options - Set `retry: false` to dead-letter the job right away
+     * @returns false if the lease was lost and the job belongs to another worker by now
+     */
+    async fail(job: QueueJob, error: unknown, options: FailOptions = {}): Promise<boolean> {
+        await this.setup();
+        const lastError = error instanceof Error ? error.message : String(error);
+
+        if (options.retry === false || job.attempts >= job.maxAttempts) {
+            const failed = await this.finish(job, { status: 'dead', lockedUntil: null, dedupeKey: null, lastError });
+            if (failed) {
+                this.logger.warn(`Job ${job.id} (${job.name}) dead-lettered after ${job.attempts} attempt(s): ${lastError}`);
+            }
+            return failed;
+        }
+
+        const delay = Math.min(this.options.backoffMs * 2 ** (job.attempts - 1), this.options.maxBackoffMs);
+        return this.finish(job, {
+            status: 'pending',
+            runAt: new Date(Date.now() + delay),
+            lockedUntil: null,
+            lastError,
+        });
+    }
+
+    /**
+     * Lists dead-lettered jobs, most recently failed first.
+     *
+     * @param name - Only list jobs with this name
+     * @param limit - Maximum number of jobs (default: 100)
+     * @returns Dead jobs
+     */
+    async deadLetters(name?: string, limit = 100): Promise<QueueJob[]> {
+        await this.setup();
+
+        if (this.isMongo()) {
+            const docs = await this.collection()
+                .find({ status: 'dead', ...(name && { name }) })
+                .sort({ updatedAt: -1, _id: -1 })
+                .limit(limit)
+                .toArray();
+            return docs.map((doc) => this.fromDocument(doc));
+        }
+
+        const qb = this.getKnex()(this.options.tableName).select('*').where('status', 'dead');
+        if (name) qb.where('name', name);
+        const rows: JobRow[] = await qb.orderBy([{ column: 'updated_at', order: 'desc' }, { column: 'id', order: 'desc' }]).limit(limit);
+        return rows.map((row) => this.fromRow(row));
+    }
+
+    /**
+     * Puts a dead-lettered job back in the queue with fresh attempts, due now.
+     *
+     * @param id - Job id
+     * @returns false if there is no dead job with this id, or the id is malformed
+     */
+    async retryDead(id: string): Promise<boolean> {
+        await this.setup();
+        const now = new Date();
+
+        if (this.isMongo()) {
+            if (!mongoose.Types.ObjectId.isValid(id)) return false;
+            const result = await this.collection().updateOne(
+                { _id: new mongoose.Types.ObjectId(id), status: 'dead' },
+                { $set: { status: 'pending', attempts: 0, runAt: now, updatedAt: now } },
+            );
+            return result.modifiedCount === 1;
+        }
+
+        // Ids are bigint: anything else would make PostgreSQL reject the query
+        if (!/^\d+$/.test(id)) return false;
+        const updated = await this.getKnex()(this.options.tableName)
+            .where({ id, status: 'dead' })
+            .update({ status: 'pending', attempts: 0, run_at: now, updated_at: now });
+        return updated === 1;
+    }
+
+    private isMongo(): boolean {
+        if (this.db.type === 'mongo') return true;
+        if (this.db.type === 'postgres') return false;
+        throw new Error(`QueueService supports PostgreSQL and MongoDB connections, got "${this.db.type}".`);
+    }
+
+    /**
+     * Updates a job that is still running under the caller's claim.
+     * `attempts` identifies the claim: a worker whose lease expired holds a smaller count.
+     */
+    private async finish(job: QueueJob, changes: Partial<Omit<QueueJob, 'id'>>): Promise<boolean> {
+        const now = new Date();
+
+        if (this.isMongo()) {
+            const result = await this.collection().updateOne(
+                { _id: new mongoose.Types.ObjectId(job.id), status: 'running', attempts: job.attempts },
+                { $set: { ...changes, updatedAt: now } },
+            );
+            return result.modifiedCount === 1;
+        }
+
+        const updated = await this.getKnex()(this.options.tableName)
+            .where({ id: job.id, status: 'running', attempts: job.attempts })
+            .update({
+                status: changes.status,
+                ...(changes.runAt && { run_at: changes.runAt }),
+                ...('lastError' in changes && { last_error: changes.lastError }),
+                ...('dedupeKey' in changes && { dedupe_key: changes.dedupeKey }),
+                locked_until: null,
+                updated_at: now,
+            });
+        return updated === 1;
+    }
+
+    // -----------------------------
+    // PostgreSQL
+    // -----------------------------
+
+    private getKnex(): Knex {
+        // connect() is idempotent and returns the adapter's shared Knex instance
+        return this.db.getPostgresAdapter().connect();
+    }
+
+    /**
+     * Creates the jobs table under an advisory lock, so instances starting at once do not race.
+     * Finished jobs have no dedupe key, and NULLs never collide in the unique index.
+     */
+    private async setupPostgres(): Promise<void> {
+        const table = this.options.tableName;
+
+        await this.getKnex().transaction(async (trx) => {
+            await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [`databasekit:${table}`]);
+            if (await trx.schema.hasTable(table)) return;
+
+            await trx.schema.createTable(table, (t) => {
+                t.bigIncrements('id');
+                t.string('name').notNullable();
+                t.jsonb('payload');
+                t.string('status', 16).notNullable();
+                t.integer('priority').notNullable().defaultTo(0);
+                t.timestamp('run_at', { useTz: true }).notNullable();
+                t.integer('attempts').notNullable().defaultTo(0);
+                t.integer('max_attempts').notNullable();
+                t.string('dedupe_key');
+                t.text('last_error');
+                t.timestamp('locked_until', { useTz: true });
+                t.timestamp('created_at', { useTz: true }).notNullable();
+                t.timestamp('updated_at', { useTz: true }).notNullable();
+                t.unique(['name', 'dedupe_key']);
+                t.index(['status', 'run_at']);
+            });
+            this.logger.log(`Created job table "${table}"`);
+        });
+    }
+
+    private async insertPostgres<P>(job: Omit<QueueJob<P>, 'id'>): Promise<QueueJob<P> | null> {
+        const kx = this.getKnex();
+        const [row] = await kx(this.options.tableName)
+            .insert({
+                name: job.name,
+                // Stringified so arrays and primitives are stored as JSON too
+                payload: JSON.stringify(job.payload ?? null),
+                status: job.status,
+                priority: job.priority,
+                run_at: job.runAt,
+                attempts: job.attempts,
+                max_attempts: job.maxAttempts,
+                dedupe_key: job.dedupeKey,
+                created_at: job.createdAt,
+                updated_at: job.updatedAt,
+            })
+            .onConflict(['name', 'dedupe_key'])
+            .ignore()
+            .returning('*');
+        if (row) return this.fromRow(row);
+
+        const existing = await kx(this.options.tableName)
+            .select('*')
+            .where({ name: job.name, dedupe_key: job.dedupeKey })
+            .first();
+        return existing ? this.fromRow(existing) : null;
+    }
+
+    private async claimPostgres(batch: number, options: ClaimOptions): Promise<QueueJob[]> {
+        const table = this.options.tableName;
+
+        return this.db.getPostgresAdapter().withTransaction(async (ctx) => {
+            const trx = ctx.transaction as Knex.Transaction;
+            const now = new Date();
+
+            // An expired lease on the last attempt means the job keeps taking its worker down: dead-letter it.
+            // This runs before candidates are picked so exhausted jobs never take the slots of due ones.
+            const expired = trx(table)
+                .where('status', 'running')
+                .where('locked_until', '<', now)
+                .whereRaw('?? >= ??', ['attempts', 'max_attempts']);
+            if (options.names) expired.whereIn('name', options.names);
+            const deadLettered: number = await expired
+                .update({ status: 'dead', locked_until: null, dedupe_key: null, last_error: LEASE_EXPIRED, updated_at: now });
+            if (deadLettered) {
+                this.logger.warn(`Dead-lettered ${deadLettered} job(s) whose lease expired on the last attempt`);
+            }
+
+            // Rows locked by another worker's claim are skipped instead of waited for
+            const due = trx(table)
+                .select('id')
+                .where((qb) => {
+                    qb.where((q) => q.where('status', 'pending').where('run_at', '<=', now))
+                        .orWhere((q) => q
+                            .where('status', 'running')
+                            .where('locked_until', '<', now)
+                            .whereRaw('?? < ??', ['attempts', 'max_attempts']));
+                });
+            if (options.names) due.whereIn('name', options.names);
+            const ids: Array<Pick<JobRow, 'id'>> = await due
+                .orderBy([
+                    { column: 'priority', order: 'desc' },
+                    { column: 'run_at', order: 'asc' },
+                    { column: 'id', order: 'asc' },
+                ])
+                .limit(batch)
+                .forUpdate()
+                .skipLocked();
+            if (ids.length === 0) return [];
+
+            const rows: JobRow[] = await trx(table)
+                .whereIn('id', ids.map((row) => row.id))
+                .update({
+                    status: 'running',
+                    attempts: trx.raw('?? + 1', ['attempts']),
+                    locked_until: new Date(now.getTime() + this.options.leaseMs),
+                    updated_at: now,
+                })
+                .returning('*');
+
+            // RETURNING has no order, so restore the claim order
+            const order = ids.map((row) => String(row.id));
+            return rows
+                .map((row) => this.fromRow(row))
+                .sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+        });
+    }
+
+    private fromRow<P>(row: JobRow): QueueJob<P> {
+        return {
+            id: String(row.id),
+            name: row.name,
+            payload: row.payload as P,
+            status: row.status,
+            priority: row.priority,
+            runAt: row.run_at,
+            attempts: row.attempts,
+            maxAttempts: row.max_attempts,
+            dedupeKey: row.dedupe_key,
+            lastError: row.last_error,
+            lockedUntil: row.locked_until,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+
+    // -----------------------------
+    // MongoDB
+    // -----------------------------
+
+    private collection(): mongoose.mongo.Collection<JobDocument> {
+        return this.db.getMongoAdapter().getDb().collection<JobDocument>(this.options.tableName);
+    }
+
+    /**
+     * Creates the claim index and the dedupe index. Only string keys are unique,
+     * so completed and dead jobs, whose key is cleared, never collide.
+     */
+    private async setupMongo(): Promise<void> {
+        await this.db.getMongoAdapter().connect();
+        await this.collection().createIndexes([
+            { key: { status: 1, priority: -1, runAt: 1 } },
+            {
+                key: { name: 1, dedupeKey: 1 },
+                unique: true,
+                partialFilterExpression: { dedupeKey: { $type: 'string' } },
+            },
+        ]);
+    }
+
+    private async insertMongo<P>(job: Omit<QueueJob<P>, 'id'>): Promise<QueueJob<P> | null> {
+        const doc = { _id: new mongoose.Types.ObjectId(), ...job } as JobDocument;
+
+        try {
+            await this.collection().insertOne(doc);
+            return this.fromDocument(doc);
+        } catch (error) {
+            if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+        }
+
+        const existing = await this.collection().findOne({ name: job.name, dedupeKey: job.dedupeKey });
+        return existing ? this.fromDocument(existing) : null;
+    }
+
+    /**
+     * Leases due jobs one at a time. Each findOneAndUpdate picks and marks a job
+     * atomically, so two workers never lease the same one.
+     */
+    private async claimMongo(batch: number, options: ClaimOptions): Promise<QueueJob[]> {
+        const now = new Date();
+        const jobs: QueueJob[] = [];
+        const names = options.names && { name: { $in: options.names } };
+
+        // An expired lease on the last attempt means the job keeps taking its worker down: dead-letter it
+        const exhausted = await this.collection().updateMany(
+            {
+                ...names,
+                status: 'running',
+                lockedUntil: { $lt: now },
+                $expr: { $gte: ['$attempts', '$maxAttempts'] },
+            },
+            { $set: { status: 'dead', lockedUntil: null, dedupeKey: null, lastError: LEASE_EXPIRED, updatedAt: now } },
+        );
+        if (exhausted.modifiedCount) {
+            this.logger.warn(`Dead-lettered ${exhausted.modifiedCount} job(s) whose lease expired on the last attempt`);
+        }
+
+        while (jobs.length < batch) {
+            const doc = await this.collection().findOneAndUpdate(
+                {
+                    ...names,
+                    $or: [
+                        { status: 'pending', runAt: { $lte: now } },
+                        {
+                            status: 'running',
+                            lockedUntil: { $lt: now },
+                            $expr: { $lt: ['$attempts', '$maxAttempts'] },
+                        },
+                    ],
+                },
+                {
+                    $set: {
+                        status: 'running',
+                        lockedUntil: new Date(now.getTime() + this.options.leaseMs),
+                        updatedAt: now,
+                    },
+                    $inc: { attempts: 1 },
+                },
+                { sort: { priority: -1, runAt: 1, _id: 1 }, returnDocument: 'after' },
+            );
+            if (!doc) break;
+            jobs.push(this.fromDocument(doc));
+        }
+
+        return jobs;
+    }
+
+    private fromDocument<P>(doc: JobDocument): QueueJob<P> {
+        const { _id, ...job } = doc;
+        return { id: String(_id), ...job } as QueueJob<P>;
+    }
+}
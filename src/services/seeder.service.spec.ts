@@ -0,0 +1,155 @@
+// src/services/seeder.service.spec.ts
+
+import { SeederService } from './seeder.service';
+import { Repository } from '../contracts/database.contracts';
+
+describe('SeederService', () => {
+    interface TestUser {
+        id: number;
+        email: string;
+    }
+
+    const createRepo = (calls: string[], name: string) =>
+        ({
+            insertMany: jest.fn(async (rows: unknown[]) => {
+                calls.push(`insert:${name}`);
+                return rows;
+            }),
+            upsert: jest.fn(async (_filter: unknown, row: unknown) => {
+                calls.push(`upsert:${name}`);
+                return row;
+            }),
+            deleteMany: jest.fn(async () => {
+                calls.push(`truncate:${name}`);
+                return 3;
+            }),
+        }) as unknown as Repository<TestUser> & Record<'insertMany' | 'upsert' | 'deleteMany', jest.Mock>;
+
+    it('should run seeders after their dependencies', async () => {
+        const calls: string[] = [];
+        const service = new SeederService().register(
+            { name: 'orders', repository: createRepo(calls, 'orders'), data: [{ id: 1 }], dependsOn: ['users'] },
+            { name: 'users', repository: createRepo(calls, 'users'), data: [{ id: 1 }] },
+        );
+
+        const results = await service.seed();
+
+        expect(calls).toEqual(['insert:users', 'insert:orders']);
+        expect(results.map((r) => r.name)).toEqual(['users', 'orders']);
+    });
+
+    it('should upsert on upsertKeys so seeding is idempotent', async () => {
+        const calls: string[] = [];
+        const repository = createRepo(calls, 'users');
+        const service = new SeederService().register({
+            name: 'users',
+            repository,
+            data: async () => [{ id: 1, email: 'a@example.com' }, { id: 2, email: 'b@example.com' }],
+            upsertKeys: ['email'],
+        });
+
+        const [result] = await service.seed();
+
+        expect(repository.upsert).toHaveBeenCalledWith({ email: 'a@example.com' }, { id: 1, email: 'a@example.com' });
+        expect(repository.insertMany).not.toHaveBeenCalled();
+        expect(result).toEqual({ name: 'users', truncated: 0, inserted: 0, upserted: 2 });
+    });
+
+    it('should reject rows missing an upsert key', async () => {
+        const service = new SeederService().register({
+            name: 'users',
+            repository: createRepo([], 'users'),
+            data: [{ id: 1 }],
+            upsertKeys: ['email'],
+        });
+
+        await expect(service.seed()).rejects.toThrow('row without upsert key "email"');
+    });
+
+    it('should only run seeders matching the requested tags', async () => {
+        const calls: string[] = [];
+        const service = new SeederService().register(
+            { name: 'base', repository: createRepo(calls, 'base'), data: [{ id: 1 }] },
+            { name: 'demo', repository: createRepo(calls, 'demo'), data: [{ id: 1 }], tags: ['demo'] },
+            { name: 'test', repository: createRepo(calls, 'test'), data: [{ id: 1 }], tags: ['test'] },
+        );
+
+        await service.seed({ tags: ['demo'] });
+
+        expect(calls).toEqual(['insert:base', 'insert:demo']);
+    });
+
+    it('should truncate in reverse dependency order before seeding', async () => {
+        const calls: string[] = [];
+        const service = new SeederService().register(
+            { name: 'users', repository: createRepo(calls, 'users'), data: [{ id: 1 }], truncate: true },
+            {
+                name: 'orders',
+                repository: createRepo(calls, 'orders'),
+                data: [{ id: 1 }],
+                dependsOn: ['users'],
+                truncate: true,
+            },
+        );
+
+        const results = await service.seed();
+
+        expect(calls).toEqual(['truncate:orders', 'truncate:users', 'insert:users', 'insert:orders']);
+        expect(results[0].truncated).toBe(3);
+    });
+
+    it('should let the run override truncate', async () => {
+        const calls: string[] = [];
+        const service = new SeederService().register({
+            name: 'users',
+            repository: createRepo(calls, 'users'),
+            data: [],
+            truncate: true,
+        });
+
+        await service.seed({ truncate: false });
+
+        expect(calls).toEqual([]);
+    });
+
+    it('should refuse to truncate soft-delete repositories before deleting anything', async () => {
+        const calls: string[] = [];
+        const service = new SeederService().register(
+            { name: 'users', repository: createRepo(calls, 'users'), data: [], truncate: true },
+            {
+                name: 'orders',
+                repository: { ...createRepo(calls, 'orders'), softDelete: jest.fn() },
+                data: [],
+                dependsOn: ['users'],
+                truncate: true,
+            },
+        );
+
+        await expect(service.seed()).rejects.toThrow(
+            'Seeder "orders" cannot truncate a soft-delete repository. Use upsertKeys instead, or clear the table yourself.',
+        );
+        expect(calls).toEqual([]);
+        await expect(service.seed({ truncate: false })).resolves.toHaveLength(2);
+    });
+
+    it('should reject unknown dependencies, cycles and duplicate names', async () => {
+        const repository = createRepo([], 'x');
+
+        await expect(
+            new SeederService().register({ name: 'a', repository, data: [], dependsOn: ['missing'] }).seed(),
+        ).rejects.toThrow('depends on unknown seeder "missing"');
+
+        await expect(
+            new SeederService()
+                .register(
+                    { name: 'a', repository, data: [], dependsOn: ['b'] },
+                    { name: 'b', repository, data: [], dependsOn: ['a'] },
+                )
+                .seed(),
+        ).rejects.toThrow('Seeder dependency cycle: a -> b -> a');
+
+        expect(() =>
+            new SeederService().register({ name: 'a', repository, data: [] }, { name: 'a', repository, data: [] }),
+        ).toThrow('Seeder "a" is already registered.');
+    });
+});
@@ -0,0 +1,164 @@
+// src/services/seeder.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Seeder, SeedOptions, SeedResult } from '../contracts/database.contracts';
+
+/**
+ * Loads fixture sets into repositories.
+ *
+ * Seeders run in dependency order and only for the requested environment tags.
+ * Seeders with `upsertKeys` are idempotent and can be re-run safely.
+ *
+ * @example
+ * ```typescript
+ * seeder.register(
+ *   {
+ *     name: 'users',
+ *     repository: db.createPostgresRepository<User>({ table: 'users' }),
+ *     data: [{ email: 'admin@example.com', role: 'admin' }],
+ *     upsertKeys: ['email'],
+ *   },
+ *   {
+ *     name: 'demo-orders',
+ *     repository: db.createPostgresRepository<Order>({ table: 'orders' }),
+ *     data: () => buildDemoOrders(),
+ *     dependsOn: ['users'],
+ *     tags: ['demo'],
+ *     truncate: true,
+ *   },
+ * );
+ *
+ * await seeder.seed({ tags: ['demo'] });
+ * ```
+ */
+@Injectable()
+export class SeederService {
+    private readonly logger = new Logger(SeederService.name);
+    private readonly seeders = new Map<string, Seeder>();
+
+    /**
+     * Registers one or more seeders.
+     *
+     * @param seeders - Seeders to register
+     * @returns This service for chaining
+     * @throws Error if a seeder name is already registered
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    register(...seeders: Seeder<any>[]): this {
+        for (const seeder of seeders) {
+            if (this.seeders.has(seeder.name)) {
+                throw new Error(`Seeder "${seeder.name}" is already registered.`);
+            }
+            this.seeders.set(seeder.name, seeder);
+        }
+        return this;
+    }
+
+    /**
+     * Runs the registered seeders.
+     * Truncation happens first, in reverse dependency order, so dependent rows go before the rows they reference.
+     *
+     * @param options - Tag selection and truncate override
+     * @returns One result per executed seeder, in execution order
+     * @throws Error if a seeder would truncate a soft-delete repository, before anything is deleted
+     */
+    async seed(options: SeedOptions = {}): Promise<SeedResult[]> {
+        const ordered = this.resolveOrder().filter((seeder) => this.matchesTags(seeder, options.tags));
+        const truncating = ordered.filter((seeder) => options.truncate ?? seeder.truncate);
+        const truncated = new Map<string, number>();
+
+        // deleteMany only sets the soft delete field there, so old rows would stay behind and keep their unique keys
+        for (const seeder of truncating) {
+            if (seeder.repository.softDelete) {
+                throw new Error(
+                    `Seeder "${seeder.name}" cannot truncate a soft-delete repository. Use upsertKeys instead, or clear the table yourself.`,
+                );
+            }
+        }
+
+        for (const seeder of [...truncating].reverse()) {
+            truncated.set(seeder.name, await seeder.repository.deleteMany({}));
+        }
+
+        const results: SeedResult[] = [];
+        for (const seeder of ordered) {
+            const result: SeedResult = {
+                name: seeder.name,
+                truncated: truncated.get(seeder.name) ?? 0,
+                inserted: 0,
+                upserted: 0,
+            };
+            const rows = typeof seeder.data === 'function' ? await seeder.data() : seeder.data;
+
+            if (seeder.upsertKeys?.length) {
+                for (const row of rows) {
+                    await seeder.repository.upsert(this.pickKeys(seeder, row), row);
+                }
+                result.upserted = rows.length;
+            } else if (rows.length) {
+                const inserted = await seeder.repository.insertMany(rows);
+                result.inserted = inserted.length;
+            }
+
+            this.logger.log(
+                `Seeded "${seeder.name}": ${result.inserted} inserted, ${result.upserted} upserted` +
+                    (result.truncated ? `, ${result.truncated} truncated` : ''),
+            );
+            results.push(result);
+        }
+
+        return results;
+    }
+
+    private matchesTags(seeder: Seeder, tags?: string[]): boolean {
+        if (!tags || !seeder.tags?.length) return true;
+        return seeder.tags.some((tag) => tags.includes(tag));
+    }
+
+    private pickKeys(seeder: Seeder, row: unknown): Record<string, unknown> {
+        const filter: Record<string, unknown> = {};
+        for (const key of seeder.upsertKeys as string[]) {
+            const value = (row as Record<string, unknown>)[key];
+            if (value === undefined) {
+                throw new Error(`Seeder "${seeder.name}" has a row without upsert key "${key}".`);
+            }
+            filter[key] = value;
+        }
+        return filter;
+    }
+
+    /**
+     * Orders all registered seeders so each runs after its dependencies.
+     *
+     * @throws Error on unknown dependencies or dependency cycles
+     */
+    private resolveOrder(): Seeder[] {
+        const ordered: Seeder[] = [];
+        const state = new Map<string, 'visiting' | 'done'>();
+
+        const visit = (seeder: Seeder, path: string[]): void => {
+            const current = state.get(seeder.name);
+            if (current === 'done') return;
+            if (current === 'visiting') {
+                throw new Error(`Seeder dependency cycle: ${[...path, seeder.name].join(' -> ')}`);
+            }
+
+            state.set(seeder.name, 'visiting');
+            for (const dependency of seeder.dependsOn ?? []) {
+                const target = this.seeders.get(dependency);
+                if (!target) {
+                    throw new Error(`Seeder "${seeder.name}" depends on unknown seeder "${dependency}".`);
+                }
+                visit(target, [...path, seeder.name]);
+            }
+            state.set(seeder.name, 'done');
+            ordered.push(seeder);
+        };
+
+        for (const seeder of this.seeders.values()) {
+            visit(seeder, []);
+        }
+
+        return ordered;
+    }
+}
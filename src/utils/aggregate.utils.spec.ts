@@ -0,0 +1,91 @@
+// src/utils/aggregate.utils.spec.ts
+
+import { normalizeAggregateOptions, toMetricValue } from './aggregate.utils';
+
+describe('Aggregate Utils', () => {
+    describe('normalizeAggregateOptions', () => {
+        it('should resolve metrics and sort order', () => {
+            expect(
+                normalizeAggregateOptions(
+                    {
+                        groupBy: ['status'],
+                        metrics: { total: { sum: 'amount' }, n: { count: '*' } },
+                        having: { $or: [{ n: { gt: 1 } }, { status: 'vip' }] },
+                        sort: '-total,status',
+                        limit: 5,
+                    },
+                    ['status', 'amount'],
+                    'table "orders"',
+                ),
+            ).toEqual({
+                groupBy: ['status'],
+                metrics: [
+                    { name: 'total', fn: 'sum', field: 'amount' },
+                    { name: 'n', fn: 'count', field: '*' },
+                ],
+                having: { $or: [{ n: { gt: 1 } }, { status: 'vip' }] },
+                sort: [
+                    { field: 'total', direction: 'desc' },
+                    { field: 'status', direction: 'asc' },
+                ],
+                limit: 5,
+            });
+        });
+
+        it('should reject fields outside the whitelist', () => {
+            expect(() =>
+                normalizeAggregateOptions({ groupBy: ['secret'], metrics: { n: { count: '*' } } }, ['status'], 'table "orders"'),
+            ).toThrow('Field "secret" is not allowed for table "orders". Add it to columns[] in config.');
+            expect(() =>
+                normalizeAggregateOptions({ metrics: { n: { max: 'secret' } } }, ['status'], 'table "orders"'),
+            ).toThrow('Field "secret" is not allowed for table "orders".');
+        });
+
+        it('should reject malformed metrics', () => {
+            const normalize = (metrics: Record<string, unknown>) => () =>
+                normalizeAggregateOptions({ groupBy: ['status'], metrics } as never, [], 'table "orders"');
+
+            expect(normalize({})).toThrow('aggregate on table "orders" needs at least one metric.');
+            expect(normalize({ n: { median: 'amount' } })).toThrow(
+                'Metric "n" must use exactly one of count, sum, avg, min, max.',
+            );
+            expect(normalize({ n: { sum: 'a', avg: 'b' } })).toThrow('Metric "n" must use exactly one of');
+            expect(normalize({ n: { sum: '*' } })).toThrow('Metric "n" can only use "*" with count.');
+            expect(normalize({ 'n; drop': { count: '*' } })).toThrow('Metric name "n; drop" must be a plain identifier.');
+            expect(normalize({ status: { count: '*' } })).toThrow('Metric "status" has the same name as a groupBy field.');
+        });
+
+        it('should only allow groupBy fields and metrics in having and sort', () => {
+            const base = { groupBy: ['status'], metrics: { n: { count: '*' } } };
+
+            expect(() =>
+                normalizeAggregateOptions({ ...base, having: { $not: { amount: { gt: 1 } } } }, [], 'table "orders"'),
+            ).toThrow('having can only use groupBy fields and metrics, got "amount".');
+            expect(() => normalizeAggregateOptions({ ...base, having: { n: { gtt: 1 } } }, [], 'table "orders"')).toThrow(
+                'Unknown filter operator "gtt" on field "n" for aggregate on table "orders".',
+            );
+            expect(() => normalizeAggregateOptions({ ...base, sort: '-amount' }, [], 'table "orders"')).toThrow(
+                'Sort field "amount" must be a groupBy field or a metric.',
+            );
+            expect(() => normalizeAggregateOptions({ ...base, limit: 0 }, [], 'table "orders"')).toThrow(
+                'aggregate limit must be a positive integer.',
+            );
+        });
+    });
+
+    describe('toMetricValue', () => {
+        it('should convert counts, sums and averages to numbers', () => {
+            expect(toMetricValue({ name: 'n', fn: 'count', field: '*' }, '42')).toBe(42);
+            expect(toMetricValue({ name: 'n', fn: 'count', field: '*' }, null)).toBe(0);
+            expect(toMetricValue({ name: 'total', fn: 'sum', field: 'amount' }, '10.5')).toBe(10.5);
+            expect(toMetricValue({ name: 'avg', fn: 'avg', field: 'amount' }, null)).toBeNull();
+        });
+
+        it('should keep minimums and maximums as returned', () => {
+            const date = new Date();
+
+            expect(toMetricValue({ name: 'first', fn: 'min', field: 'createdAt' }, date)).toBe(date);
+            expect(toMetricValue({ name: 'top', fn: 'max', field: 'name' }, 'zed')).toBe('zed');
+        });
+    });
+});
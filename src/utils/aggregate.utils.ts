@@ -0,0 +1,159 @@
+// src/utils/aggregate.utils.ts
+
+import { AggregateFunction, AggregateOptions } from '../contracts/database.contracts';
+import { validateFilter } from './filter.utils';
+import { CursorSortField, parseSortString } from './pagination.utils';
+
+/**
+ * Utility functions for aggregate queries.
+ */
+
+/**
+ * Aggregate functions understood by every adapter.
+ */
+export const AGGREGATE_FUNCTIONS: readonly AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+/**
+ * A metric of an aggregate query, resolved from `{ name: { fn: field } }`.
+ */
+export interface AggregateMetricSpec {
+  /** Result name of the metric */
+  name: string;
+  /** Aggregate function */
+  fn: AggregateFunction;
+  /** Aggregated field, or '*' for `count` */
+  field: string;
+}
+
+/**
+ * Aggregate options checked and normalized for the adapters.
+ */
+export interface NormalizedAggregate {
+  groupBy: string[];
+  metrics: AggregateMetricSpec[];
+  having?: Record<string, unknown>;
+  sort: CursorSortField[];
+  limit?: number;
+}
+
+const METRIC_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Collects the field names used by a filter expression at any depth.
+ */
+function collectFilterFields(filter: Record<string, unknown>, fields: string[] = []): string[] {
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      (Array.isArray(value) ? value : []).forEach((sub) => collectFilterFields(sub, fields));
+    } else if (key === '$not') {
+      collectFilterFields(value as Record<string, unknown>, fields);
+    } else {
+      fields.push(key);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Validates aggregate options against the column whitelist and resolves
+ * metrics and sort order. The filter itself is validated by the adapters.
+ *
+ * @param options - Aggregate options passed to `Repository.aggregate()`
+ * @param columns - Allowed field names (empty allows every field)
+ * @param target - Describes the queried table/collection in error messages
+ * @returns Normalized groupBy fields, metrics, having, sort and limit
+ * @throws Error if a field is not allowed or a metric, having, sort or limit is invalid
+ *
+ * @example
+ * ```typescript
+ * normalizeAggregateOptions({ groupBy: ['status'], metrics: { n: { count: '*' } }, sort: '-n' }, [], 'table "orders"');
+ * // Returns: { groupBy: ['status'], metrics: [{ name: 'n', fn: 'count', field: '*' }], sort: [{ field: 'n', direction: 'desc' }] }
+ * ```
+ */
+export function normalizeAggregateOptions(
+  options: AggregateOptions<unknown>,
+  columns: string[],
+  target: string,
+): NormalizedAggregate {
+  const assertFieldAllowed = (field: string): void => {
+    if (columns.length && !columns.includes(field)) {
+      throw new Error(`Field "${field}" is not allowed for ${target}. Add it to columns[] in config.`);
+    }
+  };
+
+  const groupBy = options.groupBy ?? [];
+  groupBy.forEach(assertFieldAllowed);
+
+  const metrics = Object.entries(options.metrics ?? {}).map(([name, metric]): AggregateMetricSpec => {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Metric name "${name}" must be a plain identifier.`);
+    }
+    if (groupBy.includes(name)) {
+      throw new Error(`Metric "${name}" has the same name as a groupBy field.`);
+    }
+
+    const entries = Object.entries(metric ?? {});
+    const [fn, field] = entries[0] ?? [];
+    if (entries.length !== 1 || !AGGREGATE_FUNCTIONS.includes(fn as AggregateFunction) || typeof field !== 'string') {
+      throw new Error(`Metric "${name}" must use exactly one of ${AGGREGATE_FUNCTIONS.join(', ')}.`);
+    }
+    if (field === '*') {
+      if (fn !== 'count') throw new Error(`Metric "${name}" can only use "*" with count.`);
+    } else {
+      assertFieldAllowed(field);
+    }
+
+    return { name, fn: fn as AggregateFunction, field };
+  });
+
+  if (metrics.length === 0) {
+    throw new Error(`aggregate on ${target} needs at least one metric.`);
+  }
+
+  const outputs = [...groupBy, ...metrics.map((metric) => metric.name)];
+
+  if (options.having) {
+    for (const field of collectFilterFields(options.having)) {
+      if (!outputs.includes(field)) {
+        throw new Error(`having can only use groupBy fields and metrics, got "${field}".`);
+      }
+    }
+    validateFilter(options.having, outputs, { target: `aggregate on ${target}` });
+  }
+
+  const sortEntries: Array<[string, unknown]> = typeof options.sort === 'string'
+    ? Object.entries(parseSortString(options.sort))
+    : Object.entries(options.sort ?? {});
+  const sort = sortEntries.map(([field, dir]): CursorSortField => {
+    if (!outputs.includes(field)) {
+      throw new Error(`Sort field "${field}" must be a groupBy field or a metric.`);
+    }
+    return { field, direction: dir === -1 || String(dir).toLowerCase() === 'desc' ? 'desc' : 'asc' };
+  });
+
+  if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit < 1)) {
+    throw new Error('aggregate limit must be a positive integer.');
+  }
+
+  return {
+    groupBy,
+    metrics,
+    ...(options.having && { having: options.having }),
+    sort,
+    ...(options.limit !== undefined && { limit: options.limit }),
+  };
+}
+
+/**
+ * Converts a count, sum or average returned as a string (PostgreSQL bigint/numeric) to a number.
+ * Minimums and maximums keep the driver's value.
+ *
+ * @param metric - The metric the value belongs to
+ * @param value - Raw value from the driver
+ * @returns Normalized metric value
+ */
+export function toMetricValue(metric: AggregateMetricSpec, value: unknown): unknown {
+  if (metric.fn === 'min' || metric.fn === 'max') return value ?? null;
+  if (value === null || value === undefined) return metric.fn === 'count' ? 0 : null;
+  return Number(value);
+}
@@ -0,0 +1,84 @@
+// src/utils/batch.utils.spec.ts
+
+import { BatchProgress } from '../contracts/database.contracts';
+import { BatchRunner, runBatches } from './batch.utils';
+
+describe('Batch Utils', () => {
+    const ids = [1, 2, 3, 4, 5, 6, 7];
+
+    const createRunner = (run: BatchRunner<{ id: number }>['run'] = async () => undefined) => ({
+        fetch: jest.fn(async (after: string | number | undefined, limit: number) =>
+            ids.filter((id) => after === undefined || id > Number(after)).slice(0, limit).map((id) => ({ id }))),
+        keyOf: (row: { id: number }) => row.id,
+        run: jest.fn(run),
+    });
+
+    it('should walk all rows in keyset batches', async () => {
+        const runner = createRunner();
+
+        const result = await runBatches(3, {}, runner);
+
+        expect(runner.fetch.mock.calls).toEqual([[undefined, 3], [3, 3], [6, 3]]);
+        expect(runner.run.mock.calls.map(([rows, batch]) => [rows.map((row) => row.id), batch])).toEqual([
+            [[1, 2, 3], 0],
+            [[4, 5, 6], 1],
+            [[7], 2],
+        ]);
+        expect(result).toEqual({ batches: 3, processed: 7, checkpoint: 7 });
+    });
+
+    it('should resume after a checkpoint', async () => {
+        const runner = createRunner();
+
+        const result = await runBatches(4, { startAfter: 5 }, runner);
+
+        expect(runner.fetch).toHaveBeenCalledWith(5, 4);
+        expect(result).toEqual({ batches: 1, processed: 2, checkpoint: 7 });
+    });
+
+    it('should run batches concurrently but report progress in batch order', async () => {
+        const progress: BatchProgress[] = [];
+        let active = 0;
+        let maxActive = 0;
+        // The first batch finishes last
+        const runner = createRunner(async (_rows, batch) => {
+            active += 1;
+            maxActive = Math.max(maxActive, active);
+            await new Promise((resolve) => setTimeout(resolve, batch === 0 ? 20 : 1));
+            active -= 1;
+        });
+
+        await runBatches(2, { concurrency: 2, onProgress: (p) => { progress.push(p); } }, runner);
+
+        expect(maxActive).toBe(2);
+        expect(progress).toEqual([
+            { batches: 1, processed: 2, checkpoint: 2 },
+            { batches: 2, processed: 4, checkpoint: 4 },
+            { batches: 3, processed: 6, checkpoint: 6 },
+            { batches: 4, processed: 7, checkpoint: 7 },
+        ]);
+    });
+
+    it('should stop after a failed batch without moving the checkpoint past it', async () => {
+        const progress: BatchProgress[] = [];
+        const runner = createRunner(async (_rows, batch) => {
+            if (batch === 1) throw new Error('boom');
+        });
+
+        await expect(
+            runBatches(2, { onProgress: (p) => { progress.push(p); } }, runner),
+        ).rejects.toThrow('boom');
+
+        expect(runner.run).toHaveBeenCalledTimes(2);
+        expect(progress).toEqual([{ batches: 1, processed: 2, checkpoint: 2 }]);
+    });
+
+    it('should reject invalid batch sizes and concurrency', async () => {
+        await expect(runBatches(0, {}, createRunner())).rejects.toThrow(
+            'forEachBatch batchSize must be a positive integer.',
+        );
+        await expect(runBatches(10, { concurrency: 1.5 }, createRunner())).rejects.toThrow(
+            'forEachBatch concurrency must be a positive integer.',
+        );
+    });
+});
@@ -0,0 +1,105 @@
+// src/utils/batch.utils.ts
+
+import { BatchCheckpoint, BatchOptions, BatchResult } from '../contracts/database.contracts';
+
+/**
+ * Utility functions for batched iteration.
+ */
+
+/**
+ * Adapter callbacks for runBatches.
+ */
+export interface BatchRunner<T> {
+  /** Fetches up to `limit` matching rows with a primary key greater than `after`, in primary key order */
+  fetch: (after: BatchCheckpoint | undefined, limit: number) => Promise<T[]>;
+  /** Reads the primary key of a row */
+  keyOf: (row: T) => BatchCheckpoint;
+  /** Runs the handler for one batch, in a transaction when requested */
+  run: (rows: T[], batch: number) => Promise<void>;
+}
+
+/**
+ * Fetches batches with keyset iteration and runs up to `concurrency` handlers at a time.
+ * The next batch is fetched while earlier handlers run. Progress is reported in batch
+ * order, so a checkpoint never moves past a batch that is still running or has failed.
+ * After a handler fails, no new batch is started; running ones finish, then the error is thrown.
+ *
+ * @param batchSize - Rows per batch
+ * @param options - Concurrency, resume checkpoint and progress callback
+ * @param runner - Fetches batches, reads keys and runs the handler
+ * @returns Number of batches and rows handled, and the last checkpoint
+ * @throws Error if batchSize or concurrency is not a positive integer, or the first handler error
+ *
+ * @example
+ * ```typescript
+ * await runBatches(500, { concurrency: 4 }, {
+ *   fetch: (after, limit) => knex('users').where('id', '>', after ?? 0).orderBy('id').limit(limit),
+ *   keyOf: (row) => row.id,
+ *   run: async (rows) => reindex(rows),
+ * });
+ * ```
+ */
+export async function runBatches<T>(
+  batchSize: number,
+  options: BatchOptions,
+  runner: BatchRunner<T>,
+): Promise<BatchResult> {
+  const { concurrency = 1, startAfter, onProgress } = options;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('forEachBatch batchSize must be a positive integer.');
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('forEachBatch concurrency must be a positive integer.');
+  }
+
+  const result: BatchResult = { batches: 0, processed: 0, checkpoint: startAfter };
+  const finished = new Map<number, { size: number; checkpoint: BatchCheckpoint }>();
+  const running = new Set<Promise<void>>();
+  let reporting = Promise.resolve();
+  let failure: { error: unknown } | undefined;
+
+  // Moves the result forward over every finished batch that directly follows it
+  const report = async (): Promise<void> => {
+    for (let next = finished.get(result.batches); next; next = finished.get(result.batches)) {
+      finished.delete(result.batches);
+      result.batches += 1;
+      result.processed += next.size;
+      result.checkpoint = next.checkpoint;
+      await onProgress?.({ batches: result.batches, processed: result.processed, checkpoint: next.checkpoint });
+    }
+  };
+
+  try {
+    let after = startAfter;
+
+    for (let batch = 0; !failure; batch++) {
+      const rows = await runner.fetch(after, batchSize);
+      if (rows.length === 0) break;
+
+      const checkpoint = runner.keyOf(rows[rows.length - 1]);
+      after = checkpoint;
+
+      const task: Promise<void> = runner
+        .run(rows, batch)
+        .then(() => {
+          finished.set(batch, { size: rows.length, checkpoint });
+          reporting = reporting.then(report);
+          return reporting;
+        })
+        .catch((error: unknown) => {
+          failure ??= { error };
+        })
+        .finally(() => running.delete(task));
+      running.add(task);
+
+      if (rows.length < batchSize) break;
+      if (running.size >= concurrency) await Promise.race(running);
+    }
+  } finally {
+    await Promise.all(running);
+  }
+
+  if (failure) throw failure.error;
+  return result;
+}
@@ -0,0 +1,217 @@
+// src/utils/entity.utils.spec.ts
+
+import { Column, CreatedAt, Entity, PrimaryKey, SoftDelete, UpdatedAt } from '../middleware/entity.decorators';
+import { getEntityMetadata, mapEntityFields, toMongoRepositoryOptions, toPostgresEntityConfig } from './entity.utils';
+import { DatabaseService } from '../services/database.service';
+
+@Entity({ table: 'users', collection: 'users' })
+class User {
+    @PrimaryKey() id!: number;
+    @Column({ type: 'varchar' }) email!: string;
+    @Column({ name: 'display_name' }) displayName!: string;
+    @SoftDelete({ name: 'deleted_at' }) deletedAt?: Date | null;
+    @CreatedAt({ name: 'created_at' }) createdAt!: Date;
+    @UpdatedAt({ name: 'updated_at' }) updatedAt!: Date;
+}
+
+describe('Entity Utils', () => {
+    describe('getEntityMetadata', () => {
+        it('should read the table, columns and roles', () => {
+            expect(getEntityMetadata(User)).toEqual({
+                name: 'User',
+                table: 'users',
+                collection: 'users',
+                primaryKey: 'id',
+                columns: [
+                    { property: 'id', name: 'id', role: 'primaryKey' },
+                    { property: 'email', name: 'email', type: 'varchar' },
+                    { property: 'displayName', name: 'display_name' },
+                    { property: 'deletedAt', name: 'deleted_at', role: 'softDelete' },
+                    { property: 'createdAt', name: 'created_at', role: 'createdAt' },
+                    { property: 'updatedAt', name: 'updated_at', role: 'updatedAt' },
+                ],
+                softDeleteField: 'deleted_at',
+                createdAtField: 'created_at',
+                updatedAtField: 'updated_at',
+            });
+        });
+
+        it('should include parent columns without changing the parent', () => {
+            @Entity({ table: 'admins' })
+            class Admin extends User {
+                @Column() level!: number;
+            }
+
+            expect(getEntityMetadata(Admin).columns.map((column) => column.name)).toEqual([
+                'id', 'email', 'display_name', 'deleted_at', 'created_at', 'updated_at', 'level',
+            ]);
+            expect(getEntityMetadata(User).columns).toHaveLength(6);
+        });
+
+        it('should merge decorators stacked on one property', () => {
+            @Entity({ table: 'events' })
+            class Event {
+                @Column({ type: 'timestamptz' })
+                @CreatedAt({ name: 'created_at' })
+                createdAt!: Date;
+            }
+
+            expect(getEntityMetadata(Event).columns).toEqual([
+                { property: 'createdAt', name: 'created_at', type: 'timestamptz', role: 'createdAt' },
+            ]);
+        });
+
+        it('should reject undecorated classes and duplicate roles', () => {
+            class Plain {}
+
+            @Entity({ table: 'pairs' })
+            class Pair {
+                @PrimaryKey() left!: number;
+                @PrimaryKey() right!: number;
+            }
+
+            expect(() => getEntityMetadata(Plain)).toThrow('Class "Plain" is not decorated with @Entity().');
+            expect(() => getEntityMetadata(Pair)).toThrow(
+                'Entity "Pair" declares more than one @PrimaryKey() column.',
+            );
+        });
+    });
+
+    describe('toPostgresEntityConfig', () => {
+        it('should build the whitelist, primary key, soft delete and timestamps', () => {
+            expect(toPostgresEntityConfig(User, { conflictKeys: ['email'] })).toEqual({
+                table: 'users',
+                primaryKey: 'id',
+                columns: ['id', 'email', 'display_name', 'deleted_at', 'created_at', 'updated_at'],
+                fieldNames: {
+                    displayName: 'display_name',
+                    deletedAt: 'deleted_at',
+                    createdAt: 'created_at',
+                    updatedAt: 'updated_at',
+                },
+                softDelete: true,
+                softDeleteField: 'deleted_at',
+                timestamps: true,
+                createdAtField: 'created_at',
+                updatedAtField: 'updated_at',
+                conflictKeys: ['email'],
+            });
+        });
+
+        it('should require a table and both timestamp columns', () => {
+            @Entity({ collection: 'logs' })
+            class Log {
+                @Column() message!: string;
+            }
+
+            @Entity({ table: 'posts' })
+            class Post {
+                @CreatedAt() createdAt!: Date;
+            }
+
+            expect(() => toPostgresEntityConfig(Log)).toThrow(
+                'Entity "Log" has no table. Declare it with @Entity({ table }).',
+            );
+            expect(() => toPostgresEntityConfig(Post)).toThrow(
+                'Entity "Post" must declare both @CreatedAt() and @UpdatedAt(), or neither.',
+            );
+        });
+
+        it('should drive repositories', async () => {
+            @Entity({ table: 'accounts' })
+            class Account {
+                @PrimaryKey() id!: number;
+                @Column() email!: string;
+                @CreatedAt() createdAt!: Date;
+                @UpdatedAt() updatedAt!: Date;
+            }
+
+            const db = new DatabaseService({ type: 'memory' });
+            db.connect();
+            const accounts = db.createRepository<Account>(toPostgresEntityConfig(Account));
+
+            const created = await accounts.create({ email: 'ada@example.com' });
+
+            expect(created.createdAt).toBeInstanceOf(Date);
+            await expect(accounts.findAll({ password: 'x' } as never)).rejects.toThrow('is not allowed');
+
+            await db.disconnect();
+        });
+
+        it('should let repositories use property names for renamed columns', async () => {
+            const db = new DatabaseService({ type: 'memory' });
+            db.connect();
+            const config = toPostgresEntityConfig(User, { conflictKeys: ['email'] });
+            const users = db.createRepository<User>(config);
+            const stored = db.createRepository({ ...config, fieldNames: undefined });
+
+            const ada = await users.create({ email: 'ada@example.com', displayName: 'Ada' });
+            await users.create({ email: 'bob@example.com', displayName: 'Bob' });
+            await users.upsert({ email: 'bob@example.com' }, { displayName: 'Bobby' });
+
+            expect(ada).toMatchObject({ displayName: 'Ada', createdAt: expect.any(Date) });
+            expect(ada).not.toHaveProperty('display_name');
+            expect(await stored.findById(ada.id)).toMatchObject({ display_name: 'Ada' });
+            expect((await users.findAll({ displayName: { like: 'B%' } })).map((u) => u.displayName)).toEqual(['Bobby']);
+            expect((await users.findPage({ sort: '-displayName' })).data.map((u) => u.displayName)).toEqual([
+                'Bobby',
+                'Ada',
+            ]);
+            expect(await users.distinct('displayName', { $or: [{ displayName: 'Ada' }] })).toEqual(['Ada']);
+            expect(await users.aggregate({ groupBy: ['displayName'], metrics: { n: { count: '*' } }, sort: 'displayName' }))
+                .toEqual([{ displayName: 'Ada', n: 1 }, { displayName: 'Bobby', n: 1 }]);
+            expect(await users.findAll({ display_name: 'Ada' } as never)).toHaveLength(1);
+
+            await db.disconnect();
+        });
+    });
+
+    describe('mapEntityFields', () => {
+        it('should rename sorts, options and streamed rows, and wrap only once', async () => {
+            const repo = {
+                findCursor: jest.fn().mockResolvedValue({ data: [{ display_name: 'Ada' }] }),
+                bulkUpsert: jest.fn().mockResolvedValue([]),
+                stream: jest.fn(async function* () {
+                    yield { id: 1, display_name: 'Ada' };
+                }),
+            };
+            const mapped = mapEntityFields(repo as never, { displayName: 'display_name' });
+
+            const page = await mapped.findCursor({ filter: { displayName: 'Ada' }, sort: { displayName: 'desc' } });
+            await mapped.bulkUpsert([{ displayName: 'Ada' }], { conflictKeys: ['displayName'] });
+            const rows: unknown[] = [];
+            for await (const row of mapped.stream({}, { sort: '-displayName, id' })) {
+                rows.push(row);
+            }
+
+            expect(repo.findCursor).toHaveBeenCalledWith({
+                filter: { display_name: 'Ada' },
+                sort: { display_name: 'desc' },
+            });
+            expect(page.data).toEqual([{ displayName: 'Ada' }]);
+            expect(repo.bulkUpsert).toHaveBeenCalledWith([{ display_name: 'Ada' }], {
+                conflictKeys: ['display_name'],
+                updateColumns: undefined,
+            });
+            expect(repo.stream).toHaveBeenCalledWith({}, { sort: '-display_name,id' });
+            expect(rows).toEqual([{ id: 1, displayName: 'Ada' }]);
+            expect(mapEntityFields(mapped, { displayName: 'display_name' })).toBe(mapped);
+        });
+    });
+
+    describe('toMongoRepositoryOptions', () => {
+        it('should name the model after the class when given a schema', () => {
+            const schema = {};
+
+            expect(toMongoRepositoryOptions(User, { schema })).toMatchObject({
+                schema,
+                name: 'User',
+                collection: 'users',
+                softDelete: true,
+                timestamps: true,
+                columns: ['id', 'email', 'display_name', 'deleted_at', 'created_at', 'updated_at'],
+            });
+            expect(toMongoRepositoryOptions(User, { model: {} })).not.toHaveProperty('name');
+        });
+    });
+});
@@ -0,0 +1,334 @@
+// src/utils/entity.utils.ts
+
+import 'reflect-metadata';
+import { ENTITY_METADATA_KEYS } from '../config/database.constants';
+import {
+  AggregateMetric,
+  EntityClass,
+  EntityColumnMetadata,
+  EntityMetadata,
+  EntityOptions,
+  MongoRepositoryOptions,
+  PostgresEntityConfig,
+  Repository,
+} from '../contracts/database.contracts';
+
+/**
+ * Utility functions reading entity classes declared with the entity decorators,
+ * and mapping their property names onto stored column names.
+ */
+
+/**
+ * Repository fields shared by SQL and MongoDB configurations.
+ */
+type EntityConfigFields = Pick<
+  PostgresEntityConfig,
+  'columns' | 'fieldNames' | 'softDelete' | 'softDeleteField' | 'timestamps' | 'createdAtField' | 'updatedAtField'
+>;
+
+type SortInput = string | Record<string, 1 | -1 | 'asc' | 'desc'>;
+
+/**
+ * Returns the column carrying a role, making sure it is declared at most once.
+ */
+function findRoleColumn(
+  entity: string,
+  columns: EntityColumnMetadata[],
+  role: NonNullable<EntityColumnMetadata['role']>,
+  decorator: string,
+): string | undefined {
+  const matches = columns.filter((column) => column.role === role);
+
+  if (matches.length > 1) {
+    throw new Error(`Entity "${entity}" declares more than one ${decorator} column.`);
+  }
+
+  return matches[0]?.name;
+}
+
+/**
+ * Reads the metadata of a class decorated with @Entity().
+ * Columns declared on parent classes are included.
+ *
+ * @param target - The entity class
+ * @returns Table, collection and column metadata
+ * @throws Error if the class is not an entity or declares a role twice
+ */
+export function getEntityMetadata(target: EntityClass): EntityMetadata {
+  const options: EntityOptions | undefined = Reflect.getMetadata(ENTITY_METADATA_KEYS.ENTITY, target);
+  if (!options) {
+    throw new Error(`Class "${target.name}" is not decorated with @Entity().`);
+  }
+
+  const columns: EntityColumnMetadata[] = Reflect.getMetadata(ENTITY_METADATA_KEYS.COLUMNS, target) ?? [];
+  const primaryKey = findRoleColumn(target.name, columns, 'primaryKey', '@PrimaryKey()');
+  const softDeleteField = findRoleColumn(target.name, columns, 'softDelete', '@SoftDelete()');
+  const createdAtField = findRoleColumn(target.name, columns, 'createdAt', '@CreatedAt()');
+  const updatedAtField = findRoleColumn(target.name, columns, 'updatedAt', '@UpdatedAt()');
+
+  return {
+    name: target.name,
+    ...(options.table && { table: options.table }),
+    ...(options.collection && { collection: options.collection }),
+    ...(primaryKey && { primaryKey }),
+    columns: columns.map((column) => ({ ...column })),
+    ...(softDeleteField && { softDeleteField }),
+    ...(createdAtField && { createdAtField }),
+    ...(updatedAtField && { updatedAtField }),
+  };
+}
+
+/**
+ * Builds the whitelist, soft delete and timestamp settings from entity metadata.
+ */
+function toEntityConfigFields(metadata: EntityMetadata): EntityConfigFields {
+  const { name, columns, softDeleteField, createdAtField, updatedAtField } = metadata;
+
+  // Adapters write both timestamps whenever timestamps are enabled
+  if (Boolean(createdAtField) !== Boolean(updatedAtField)) {
+    throw new Error(`Entity "${name}" must declare both @CreatedAt() and @UpdatedAt(), or neither.`);
+  }
+
+  const renamed = columns.filter((column) => column.property !== column.name);
+
+  return {
+    ...(columns.length > 0 && { columns: columns.map((column) => column.name) }),
+    ...(renamed.length > 0 && {
+      fieldNames: Object.fromEntries(renamed.map((column) => [column.property, column.name])),
+    }),
+    ...(softDeleteField && { softDelete: true, softDeleteField }),
+    ...(createdAtField && updatedAtField && { timestamps: true, createdAtField, updatedAtField }),
+  };
+}
+
+/**
+ * Creates the configuration of a PostgreSQL, MySQL or SQLite repository from an entity class.
+ * The result can be passed to `createRepository()`, `forFeatureRepositories()` and `@InjectRepository()`.
+ *
+ * @param target - Entity class decorated with @Entity({ table })
+ * @param overrides - Settings the decorators do not cover (hooks, conflictKeys, defaultFilter...)
+ * @returns Table configuration
+ * @throws Error if the entity has no table
+ *
+ * @example
+ * ```typescript
+ * export const UserEntityConfig = toPostgresEntityConfig(User, { conflictKeys: ['email'] });
+ * ```
+ */
+export function toPostgresEntityConfig<T>(
+  target: EntityClass<T>,
+  overrides: Partial<PostgresEntityConfig<T>> = {},
+): PostgresEntityConfig<T> {
+  const metadata = getEntityMetadata(target);
+  const table = overrides.table ?? metadata.table;
+
+  if (!table) {
+    throw new Error(`Entity "${metadata.name}" has no table. Declare it with @Entity({ table }).`);
+  }
+
+  return {
+    table,
+    ...(metadata.primaryKey && { primaryKey: metadata.primaryKey }),
+    ...toEntityConfigFields(metadata),
+    ...overrides,
+  };
+}
+
+/**
+ * Creates MongoDB repository options from an entity class.
+ * The Mongoose model or schema still comes from the caller; with a schema,
+ * the model name defaults to the class name.
+ *
+ * @param target - Entity class decorated with @Entity()
+ * @param options - Model or schema, plus settings the decorators do not cover
+ * @returns Mongo repository options
+ *
+ * @example
+ * ```typescript
+ * export const UserRepositoryOptions = toMongoRepositoryOptions(User, { schema: UserSchema });
+ * ```
+ */
+export function toMongoRepositoryOptions<T>(
+  target: EntityClass<T>,
+  options: MongoRepositoryOptions<T> = {},
+): MongoRepositoryOptions<T> {
+  const metadata = getEntityMetadata(target);
+
+  return {
+    ...(!options.model && { name: metadata.name }),
+    ...(metadata.collection && { collection: metadata.collection }),
+    ...toEntityConfigFields(metadata),
+    ...options,
+  };
+}
+
+const mappedRepositories = new WeakSet<Repository<unknown>>();
+
+/**
+ * Wraps a repository so callers use entity property names while the adapter sees stored column names.
+ * Filters, sorts, written data, conflict keys, selected and aggregated fields are renamed on the way in;
+ * returned rows are renamed back. Fields without an entry in `fieldNames` pass through unchanged.
+ * Adapters apply it when the repository config has `fieldNames`; wrapping twice is a no-op.
+ *
+ * @param repo - Repository working with stored column names
+ * @param fieldNames - Stored column name of each renamed property, keyed by property name
+ * @returns Repository working with property names
+ *
+ * @example
+ * ```typescript
+ * const users = mapEntityFields(repo, { displayName: 'display_name' });
+ * await users.findAll({ displayName: 'Ada' }); // WHERE display_name = 'Ada'
+ * ```
+ */
+export function mapEntityFields<T>(repo: Repository<T>, fieldNames: Record<string, string>): Repository<T> {
+  if (mappedRepositories.has(repo as Repository<unknown>)) {
+    return repo;
+  }
+
+  const propertyNames = Object.fromEntries(Object.entries(fieldNames).map(([property, stored]) => [stored, property]));
+  const toStored = (field: string): string => fieldNames[field] ?? field;
+
+  const renameKeys = <D>(data: D, rename: (field: string) => string): D => {
+    if (!data || typeof data !== 'object' || Array.isArray(data) || data instanceof Date) {
+      return data;
+    }
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [rename(key), value])) as D;
+  };
+
+  const toRow = <R>(row: R): R => renameKeys(row, (field) => propertyNames[field] ?? field);
+  const toData = <D>(data: D): D => renameKeys(data, toStored);
+
+  // Logical and native operators ($and, $or, $not, $nor...) hold nested filters
+  const toFilter = <F>(filter: F): F => {
+    if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+      return filter;
+    }
+    return Object.fromEntries(
+      Object.entries(filter).map(([key, value]) => {
+        if (!key.startsWith('$')) return [toStored(key), value];
+        return [key, Array.isArray(value) ? value.map(toFilter) : toFilter(value)];
+      }),
+    ) as F;
+  };
+
+  const toSort = (sort: SortInput | undefined): SortInput | undefined => {
+    if (typeof sort !== 'string') return renameKeys(sort, toStored);
+    return sort
+      .split(',')
+      .map((part) => part.trim())
+      .map((part) => (part.startsWith('-') ? `-${toStored(part.slice(1))}` : toStored(part)))
+      .join(',');
+  };
+
+  const toFields = (fields: string[] | undefined): string[] | undefined => fields?.map(toStored);
+
+  const toMetric = (metric: AggregateMetric): AggregateMetric => {
+    const [[fn, field]] = Object.entries(metric);
+    return { [fn]: field === '*' ? field : toStored(field) } as AggregateMetric;
+  };
+
+  const mapped: Repository<T> = {
+    create: async (data, options) => toRow(await repo.create(toData(data), options)),
+    findById: async (id, options) => toRow(await repo.findById(id, options)),
+    findOne: async (filter, options) => toRow(await repo.findOne(toFilter(filter), options)),
+    findAll: async (filter, options) => (await repo.findAll(toFilter(filter), options)).map(toRow),
+
+    async findPage(options = {}) {
+      const page = await repo.findPage({ ...options, filter: toFilter(options.filter), sort: toSort(options.sort) });
+      return { ...page, data: page.data.map(toRow) };
+    },
+
+    async findCursor(options = {}) {
+      const page = await repo.findCursor({ ...options, filter: toFilter(options.filter), sort: toSort(options.sort) });
+      return { ...page, data: page.data.map(toRow) };
+    },
+
+    stream(filter, options = {}) {
+      const rows = repo.stream(toFilter(filter), { ...options, sort: toSort(options.sort) });
+      return (async function* () {
+        for await (const row of rows) {
+          yield toRow(row);
+        }
+      })();
+    },
+
+    forEachBatch: (filter, batchSize, handler, options) =>
+      repo.forEachBatch(
+        toFilter(filter),
+        batchSize,
+        (rows, context) =>
+          handler(rows.map(toRow), { ...context, repository: mapEntityFields(context.repository, fieldNames) }),
+        options,
+      ),
+
+    updateById: async (id, update, options) => toRow(await repo.updateById(id, toData(update), options)),
+    deleteById: (id, options) => repo.deleteById(id, options),
+    count: (filter, options) => repo.count(toFilter(filter), options),
+    exists: (filter, options) => repo.exists(toFilter(filter), options),
+    insertMany: async (data, options) => (await repo.insertMany(data.map(toData), options)).map(toRow),
+    updateMany: (filter, update, options) => repo.updateMany(toFilter(filter), toData(update), options),
+    deleteMany: (filter, options) => repo.deleteMany(toFilter(filter), options),
+
+    upsert: async (filter, data, options = {}) =>
+      toRow(
+        await repo.upsert(toFilter(filter), toData(data), {
+          ...options,
+          conflictKeys: toFields(options.conflictKeys),
+          updateColumns: toFields(options.updateColumns),
+        }),
+      ),
+
+    bulkUpsert: async (rows, options = {}) =>
+      (
+        await repo.bulkUpsert(rows.map(toData), {
+          ...options,
+          conflictKeys: toFields(options.conflictKeys),
+          updateColumns: toFields(options.updateColumns),
+        })
+      ).map(toRow),
+
+    distinct: (field, filter, options) =>
+      repo.distinct(toStored(field as string) as typeof field, toFilter(filter), options),
+
+    select: async (filter, fields, options) =>
+      (
+        await repo.select(toFilter(filter), fields.map((field) => toStored(field as string)) as typeof fields, options)
+      ).map(toRow),
+
+    async aggregate(options) {
+      const metrics = Object.fromEntries(
+        Object.entries(options.metrics).map(([name, metric]) => [name, toMetric(metric)]),
+      ) as typeof options.metrics;
+      const rows = await repo.aggregate({
+        ...options,
+        groupBy: toFields(options.groupBy) as typeof options.groupBy,
+        metrics,
+        having: toFilter(options.having),
+        sort: toSort(options.sort),
+      });
+      return rows.map(toRow);
+    },
+  };
+
+  if (repo.softDelete) {
+    mapped.softDelete = (id, options) => repo.softDelete!(id, options);
+  }
+  if (repo.softDeleteMany) {
+    mapped.softDeleteMany = (filter, options) => repo.softDeleteMany!(toFilter(filter), options);
+  }
+  if (repo.restore) {
+    mapped.restore = async (id, options) => toRow(await repo.restore!(id, options));
+  }
+  if (repo.restoreMany) {
+    mapped.restoreMany = (filter, options) => repo.restoreMany!(toFilter(filter), options);
+  }
+  if (repo.findAllWithDeleted) {
+    mapped.findAllWithDeleted = async (filter) => (await repo.findAllWithDeleted!(toFilter(filter))).map(toRow);
+  }
+  if (repo.findDeleted) {
+    mapped.findDeleted = async (filter) => (await repo.findDeleted!(toFilter(filter))).map(toRow);
+  }
+
+  mappedRepositories.add(mapped as Repository<unknown>);
+  return mapped;
+}
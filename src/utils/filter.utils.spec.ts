@@ -0,0 +1,192 @@
+// src/utils/filter.utils.spec.ts
+
+import {
+    isOperatorObject,
+    validateFilter,
+    mergeFilters,
+    toMongoFilter,
+    compareValues,
+    matchesFilter,
+} from './filter.utils';
+
+describe('Filter Utils', () => {
+    describe('isOperatorObject', () => {
+        it('should detect operator objects', () => {
+            expect(isOperatorObject({ gte: 1 })).toBe(true);
+            expect(isOperatorObject({ isNull: true })).toBe(true);
+        });
+
+        it('should treat plain values as equality', () => {
+            expect(isOperatorObject('active')).toBe(false);
+            expect(isOperatorObject(null)).toBe(false);
+            expect(isOperatorObject([1, 2])).toBe(false);
+            expect(isOperatorObject(new Date())).toBe(false);
+            expect(isOperatorObject({ city: 'Paris' })).toBe(false);
+        });
+    });
+
+    describe('validateFilter', () => {
+        it('should accept valid expressions', () => {
+            expect(() =>
+                validateFilter(
+                    {
+                        status: 'active',
+                        age: { gte: 18 },
+                        $or: [{ role: 'admin' }, { $not: { status: { in: ['banned'] } } }],
+                    },
+                    ['status', 'age', 'role'],
+                ),
+            ).not.toThrow();
+        });
+
+        it('should reject fields outside the whitelist at any depth', () => {
+            expect(() =>
+                validateFilter({ $and: [{ $not: { secret: 1 } }] }, ['status'], { target: 'table "users"' }),
+            ).toThrow('Field "secret" is not allowed for table "users". Add it to columns[] in config.');
+        });
+
+        it('should reject unknown operators', () => {
+            expect(() => validateFilter({ age: { gtt: 1 } })).toThrow('Unknown filter operator "gtt" on field "age".');
+            expect(() => validateFilter({ age: {} })).toThrow('Empty operator object on field "age".');
+            expect(() => validateFilter({ $nor: [] })).toThrow('Unknown logical operator "$nor".');
+        });
+
+        it('should reject malformed groups', () => {
+            expect(() => validateFilter({ $or: [] })).toThrow('"$or" must be a non-empty array');
+            expect(() => validateFilter({ $and: [{}] })).toThrow('"$and" sub-expressions must be non-empty objects.');
+            expect(() => validateFilter({ $not: 'x' })).toThrow('"$not" sub-expressions must be non-empty objects.');
+        });
+
+        it('should let native operators through when allowed', () => {
+            expect(() =>
+                validateFilter({ name: { $regex: '^J' }, $text: { $search: 'j' } }, [], { allowNativeOperators: true }),
+            ).not.toThrow();
+        });
+
+        it('should keep checking fields and portable operators when native operators are allowed', () => {
+            const native = { allowNativeOperators: true };
+
+            expect(() => validateFilter({ $nor: [{ secret: 1 }] }, ['status'], native)).toThrow(
+                'Field "secret" is not allowed. Add it to columns[] in config.',
+            );
+            expect(() => validateFilter({ $where: 'this.secret' }, ['status'], native)).toThrow(
+                '"$where" cannot be used when columns[] is configured.',
+            );
+            expect(() => validateFilter({ $expr: { $gt: ['$a', '$b'] } }, ['a'], native)).toThrow(
+                '"$expr" cannot be used when columns[] is configured.',
+            );
+            expect(() => validateFilter({ $expr: { $gt: ['$a', '$b'] } }, [], native)).not.toThrow();
+            expect(() => validateFilter({ age: { gtee: 5 } }, [], native)).toThrow(
+                'Unknown filter operator "gtee" on field "age".',
+            );
+            expect(() => validateFilter({ age: { gte: 5, $mod: [2, 0] } }, [], native)).not.toThrow();
+        });
+
+        it('should reject bare embedded documents and accept them through eq', () => {
+            const native = { allowNativeOperators: true };
+
+            expect(() => validateFilter({ address: { city: 'X' } }, [], native)).toThrow(
+                'Unknown filter operator "city" on field "address".',
+            );
+            expect(() => validateFilter({ address: { eq: { city: 'X' } } }, [], native)).not.toThrow();
+            expect(toMongoFilter({ address: { eq: { city: 'X' } } })).toEqual({ address: { $eq: { city: 'X' } } });
+        });
+    });
+
+    describe('mergeFilters', () => {
+        it('should let later filters override plain field conditions', () => {
+            expect(mergeFilters({ a: 1, b: 2 }, { b: 3 })).toEqual({ a: 1, b: 3 });
+        });
+
+        it('should accumulate clashing logical groups under $and', () => {
+            expect(
+                mergeFilters(
+                    { tenant: 1, $or: [{ a: 1 }, { b: 1 }] },
+                    { $and: [{ c: 1 }] },
+                    { $or: [{ d: 1 }, { e: 1 }], $not: { f: 1 } },
+                ),
+            ).toEqual({
+                tenant: 1,
+                $or: [{ a: 1 }, { b: 1 }],
+                $not: { f: 1 },
+                $and: [{ c: 1 }, { $or: [{ d: 1 }, { e: 1 }] }],
+            });
+        });
+    });
+
+    describe('toMongoFilter', () => {
+        it('should translate field operators', () => {
+            expect(
+                toMongoFilter({
+                    a: { eq: 1, ne: 2, gt: 3, gte: 4, lt: 5, lte: 6 },
+                    b: { in: [1], nin: [2] },
+                    c: { isNull: true },
+                    d: { isNotNull: true },
+                }),
+            ).toEqual({
+                a: { $eq: 1, $ne: 2, $gt: 3, $gte: 4, $lt: 5, $lte: 6 },
+                b: { $in: [1], $nin: [2] },
+                c: { $eq: null },
+                d: { $ne: null },
+            });
+        });
+
+        it('should translate like patterns into anchored case-insensitive regexes', () => {
+            const { name } = toMongoFilter({ name: { like: 'j_hn%(x)' } }) as { name: { $regex: RegExp } };
+
+            expect(name.$regex).toEqual(/^j.hn.*\(x\)$/i);
+            expect(name.$regex.test('JOHN Smith (x)')).toBe(true);
+        });
+
+        it('should translate logical groups recursively', () => {
+            expect(
+                toMongoFilter({
+                    $and: [{ a: { gt: 1 } }],
+                    $or: [{ b: 1 }, { c: { lt: 2 } }],
+                    $not: { d: { in: [3] } },
+                }),
+            ).toEqual({
+                $and: [{ a: { $gt: 1 } }],
+                $or: [{ b: 1 }, { c: { $lt: 2 } }],
+                $nor: [{ d: { $in: [3] } }],
+            });
+        });
+
+        it('should keep plain values, embedded documents and native operators', () => {
+            const date = new Date();
+            const filter = { a: date, b: { city: 'Paris' }, c: { $exists: true }, $nor: [{ d: 1 }] };
+
+            expect(toMongoFilter(filter)).toEqual(filter);
+        });
+    });
+
+    describe('compareValues', () => {
+        it('should order dates by time and nulls first', () => {
+            expect(compareValues(new Date(1), new Date(2))).toBeLessThan(0);
+            expect(compareValues(null, 0)).toBeLessThan(0);
+            expect(compareValues(undefined, null)).toBe(0);
+            expect(compareValues('b', 'a')).toBeGreaterThan(0);
+        });
+    });
+
+    describe('matchesFilter', () => {
+        const row = { name: 'John Smith', age: 30, city: null, joinedAt: new Date('2024-01-01') };
+
+        it('should match equality, operators and dates', () => {
+            expect(matchesFilter(row, { age: 30, city: null })).toBe(true);
+            expect(matchesFilter(row, { joinedAt: new Date('2024-01-01') })).toBe(true);
+            expect(matchesFilter(row, { age: { gt: 18, lte: 30 }, name: { like: 'john%' } })).toBe(true);
+            expect(matchesFilter(row, { age: { nin: [30] } })).toBe(false);
+        });
+
+        it('should never match null with range operators', () => {
+            expect(matchesFilter(row, { city: { gte: 'A' } })).toBe(false);
+            expect(matchesFilter(row, { city: { isNull: true }, missing: { isNull: true } })).toBe(true);
+        });
+
+        it('should evaluate logical groups', () => {
+            expect(matchesFilter(row, { $or: [{ age: 1 }, { age: 30 }] })).toBe(true);
+            expect(matchesFilter(row, { $and: [{ age: 30 }, { $not: { name: 'John Smith' } }] })).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,346 @@
+// src/utils/filter.utils.ts
+
+/**
+ * Utility functions for the portable filter expression language.
+ */
+
+/**
+ * Field operators understood by every adapter.
+ */
+export const FILTER_OPERATORS = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'nin',
+  'like',
+  'isNull',
+  'isNotNull',
+] as const;
+
+/**
+ * Logical operators combining sub-expressions.
+ */
+export const LOGICAL_OPERATORS = ['$and', '$or', '$not'] as const;
+
+/**
+ * Options for filter validation.
+ */
+export interface ValidateFilterOptions {
+  /** Allow native `$`-prefixed operators to pass through (MongoDB) */
+  allowNativeOperators?: boolean;
+  /** Describes the queried table/collection in error messages */
+  target?: string;
+}
+
+const MONGO_COMPARISON_OPERATORS: Record<string, string> = {
+  eq: '$eq',
+  ne: '$ne',
+  gt: '$gt',
+  gte: '$gte',
+  lt: '$lt',
+  lte: '$lte',
+  in: '$in',
+  nin: '$nin',
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function isFilterOperator(key: string): boolean {
+  return (FILTER_OPERATORS as readonly string[]).includes(key);
+}
+
+/**
+ * Checks whether a field condition is an operator object (e.g. `{ gte: 18 }`)
+ * rather than a plain value compared for equality.
+ *
+ * @param value - The field condition
+ * @returns True if the value is a plain object using at least one field operator
+ */
+export function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return isPlainObject(value) && Object.keys(value).some(isFilterOperator);
+}
+
+/**
+ * Validates a filter expression: field names against the column whitelist,
+ * operator names, and the shape of logical groups.
+ *
+ * @param filter - The filter expression to validate
+ * @param columns - Allowed field names (empty allows every field)
+ * @param options - Validation options
+ * @throws Error if the filter uses an unknown operator, a malformed group or a disallowed field
+ */
+export function validateFilter(
+  filter: Record<string, unknown>,
+  columns: string[] = [],
+  options: ValidateFilterOptions = {},
+): void {
+  const { allowNativeOperators = false, target } = options;
+  const location = target ? ` for ${target}` : '';
+
+  const validateGroup = (operator: string, value: unknown): void => {
+    const subs = operator === '$not' ? [value] : value;
+    if (operator !== '$not' && (!Array.isArray(subs) || subs.length === 0)) {
+      throw new Error(`"${operator}" must be a non-empty array of filter expressions.`);
+    }
+    for (const sub of subs as unknown[]) {
+      if (!isPlainObject(sub) || Object.keys(sub).length === 0) {
+        throw new Error(`"${operator}" sub-expressions must be non-empty objects.`);
+      }
+      validateFilter(sub, columns, options);
+    }
+  };
+
+  if (!isPlainObject(filter)) {
+    throw new Error('Filter must be a plain object.');
+  }
+
+  for (const [key, value] of Object.entries(filter)) {
+    if ((LOGICAL_OPERATORS as readonly string[]).includes(key)) {
+      validateGroup(key, value);
+      continue;
+    }
+
+    if (key.startsWith('$')) {
+      if (!allowNativeOperators) {
+        throw new Error(`Unknown logical operator "${key}"${location}.`);
+      }
+      if (key === '$nor') {
+        validateGroup(key, value);
+      } else if ((key === '$where' || key === '$expr') && columns.length) {
+        // Both can read any field, so they would get around the whitelist
+        throw new Error(`"${key}" cannot be used when columns[] is configured${location}.`);
+      }
+      continue;
+    }
+
+    if (columns.length && !columns.includes(key)) {
+      throw new Error(`Field "${key}" is not allowed${location}. Add it to columns[] in config.`);
+    }
+
+    if (!isPlainObject(value)) continue;
+
+    if (Object.keys(value).length === 0) {
+      throw new Error(`Empty operator object on field "${key}"${location}.`);
+    }
+
+    // Native operators may sit next to portable ones; any other key is a typo, not an embedded document
+    for (const op of Object.keys(value)) {
+      if (allowNativeOperators && op.startsWith('$')) continue;
+      if (!isFilterOperator(op)) {
+        throw new Error(`Unknown filter operator "${op}" on field "${key}"${location}.`);
+      }
+    }
+  }
+}
+
+/**
+ * Combines filters with AND semantics.
+ * Later filters override plain field conditions, but logical groups are
+ * accumulated so a caller-supplied `$or`/`$not` never replaces a default one.
+ *
+ * @param filters - Filters to combine, in increasing precedence
+ * @returns A single filter expression
+ */
+export function mergeFilters(...filters: Record<string, unknown>[]): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  const groups: Record<string, unknown>[] = [];
+
+  for (const filter of filters) {
+    for (const [key, value] of Object.entries(filter)) {
+      if (key === '$and' && Array.isArray(value)) {
+        groups.push(...(value as Record<string, unknown>[]));
+      } else if ((key === '$or' || key === '$not') && key in merged) {
+        groups.push({ [key]: value });
+      } else {
+        merged[key] = value;
+      }
+    }
+  }
+
+  if (groups.length) {
+    merged.$and = groups;
+  }
+
+  return merged;
+}
+
+/**
+ * Converts a SQL LIKE pattern into an anchored, case-insensitive RegExp.
+ *
+ * @param pattern - LIKE pattern using `%` and `_` wildcards
+ * @returns Equivalent regular expression
+ */
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((ch) => {
+      if (ch === '%') return '.*';
+      if (ch === '_') return '.';
+      return ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Translates a field operator object into MongoDB query operators.
+ * Native `$`-prefixed operators are kept as-is.
+ */
+function toMongoCondition(ops: Record<string, unknown>): Record<string, unknown> {
+  const condition: Record<string, unknown> = {};
+
+  for (const [op, value] of Object.entries(ops)) {
+    if (value === undefined) continue;
+
+    if (Object.prototype.hasOwnProperty.call(MONGO_COMPARISON_OPERATORS, op)) {
+      condition[MONGO_COMPARISON_OPERATORS[op]] = value;
+    } else if (op === 'like') {
+      condition.$regex = likeToRegExp(String(value));
+    } else if (op === 'isNull') {
+      if (value === true) condition.$eq = null;
+    } else if (op === 'isNotNull') {
+      if (value === true) condition.$ne = null;
+    } else {
+      condition[op] = value;
+    }
+  }
+
+  return condition;
+}
+
+/**
+ * Translates a filter expression into a MongoDB query filter.
+ * Plain values and native operators pass through unchanged. Embedded documents are
+ * compared with `eq` (a bare object on a field is an operator object, see `validateFilter`).
+ *
+ * @param filter - The filter expression
+ * @returns MongoDB query filter
+ */
+export function toMongoFilter(filter: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      result[key] = (value as Record<string, unknown>[]).map(toMongoFilter);
+    } else if (key === '$not') {
+      // MongoDB has no top-level $not, a single-element $nor is equivalent
+      const existing = (result.$nor as unknown[]) ?? [];
+      result.$nor = [...existing, toMongoFilter(value as Record<string, unknown>)];
+    } else if (key === '$nor' && Array.isArray(value)) {
+      const existing = (result.$nor as unknown[]) ?? [];
+      result.$nor = [...value, ...existing];
+    } else if (isOperatorObject(value)) {
+      result[key] = toMongoCondition(value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+function isNil(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function toComparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Compares two field values the way the in-memory store orders them.
+ * Dates compare by time; null and undefined sort before every other value.
+ *
+ * @param a - Left value
+ * @param b - Right value
+ * @returns Negative, zero or positive like Array.prototype.sort comparators
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const left = toComparable(a);
+  const right = toComparable(b);
+
+  if (isNil(left) || isNil(right)) {
+    return isNil(left) ? (isNil(right) ? 0 : -1) : 1;
+  }
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (isNil(a) || isNil(b)) return isNil(a) && isNil(b);
+  if (a instanceof Date || b instanceof Date) return compareValues(a, b) === 0;
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return a === b;
+}
+
+function matchesCondition(value: unknown, ops: Record<string, unknown>): boolean {
+  // Range operators never match null, mirroring SQL comparison semantics
+  const inRange = (expected: unknown, test: (order: number) => boolean): boolean =>
+    !isNil(value) && !isNil(expected) && test(compareValues(value, expected));
+
+  return Object.entries(ops).every(([op, expected]) => {
+    if (expected === undefined) return true;
+
+    switch (op) {
+      case 'eq':
+        return valuesEqual(value, expected);
+      case 'ne':
+        return !valuesEqual(value, expected);
+      case 'gt':
+        return inRange(expected, (order) => order > 0);
+      case 'gte':
+        return inRange(expected, (order) => order >= 0);
+      case 'lt':
+        return inRange(expected, (order) => order < 0);
+      case 'lte':
+        return inRange(expected, (order) => order <= 0);
+      case 'in':
+        return (expected as unknown[]).some((candidate) => valuesEqual(value, candidate));
+      case 'nin':
+        return !(expected as unknown[]).some((candidate) => valuesEqual(value, candidate));
+      case 'like':
+        return !isNil(value) && likeToRegExp(String(expected)).test(String(value));
+      case 'isNull':
+        return expected !== true || isNil(value);
+      case 'isNotNull':
+        return expected !== true || !isNil(value);
+      default:
+        throw new Error(`Unknown filter operator "${op}".`);
+    }
+  });
+}
+
+/**
+ * Evaluates a filter expression against a single row.
+ * Used by the in-memory adapter; expects a filter already checked by validateFilter.
+ *
+ * @param row - The row to test
+ * @param filter - The filter expression
+ * @returns True if the row satisfies every condition
+ */
+export function matchesFilter(row: Record<string, unknown>, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([key, value]) => {
+    if (key === '$and') {
+      return (value as Record<string, unknown>[]).every((sub) => matchesFilter(row, sub));
+    }
+    if (key === '$or') {
+      return (value as Record<string, unknown>[]).some((sub) => matchesFilter(row, sub));
+    }
+    if (key === '$not') {
+      return !matchesFilter(row, value as Record<string, unknown>);
+    }
+    if (isOperatorObject(value)) {
+      return matchesCondition(row[key], value);
+    }
+    return valuesEqual(row[key], value);
+  });
+}
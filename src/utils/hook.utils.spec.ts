@@ -0,0 +1,74 @@
+// src/utils/hook.utils.spec.ts
+
+import { createHookRunner, createTimestamper } from './hook.utils';
+
+describe('Hook Utils', () => {
+    describe('createHookRunner', () => {
+        it('should pass data through when no hooks are set', async () => {
+            const runner = createHookRunner<{ name: string }>();
+
+            await expect(runner.runBeforeCreate({ name: 'A' })).resolves.toEqual({ name: 'A' });
+            await expect(runner.runBeforeUpdate({ name: 'B' }, 'upsert')).resolves.toEqual({ name: 'B' });
+            await expect(runner.runAfterSoftDelete(true)).resolves.toBeUndefined();
+            expect(runner.hasDeleteHooks).toBe(false);
+            expect(runner.hasSoftDeleteHooks).toBe(false);
+            expect(runner.hasRestoreHooks).toBe(false);
+        });
+
+        it('should use the data returned by before hooks, falling back to the input', async () => {
+            const beforeCreate = jest.fn(() => ({ name: 'changed' }));
+            const beforeUpdate = jest.fn(() => undefined as never);
+            const runner = createHookRunner<{ name: string }>({ beforeCreate, beforeUpdate });
+
+            await expect(runner.runBeforeCreate({ name: 'A' }, true)).resolves.toEqual({ name: 'changed' });
+            await expect(runner.runBeforeUpdate({ name: 'B' }, 'upsert')).resolves.toEqual({ name: 'B' });
+            expect(beforeCreate).toHaveBeenCalledWith({ data: { name: 'A' }, operation: 'create', isBulk: true });
+            expect(beforeUpdate).toHaveBeenCalledWith({ data: { name: 'B' }, operation: 'upsert', isBulk: false });
+        });
+
+        it('should run soft delete hooks around the delete hooks', async () => {
+            const calls: string[] = [];
+            const runner = createHookRunner({
+                beforeDelete: () => { calls.push('beforeDelete'); },
+                beforeSoftDelete: () => { calls.push('beforeSoftDelete'); },
+                afterSoftDelete: () => { calls.push('afterSoftDelete'); },
+                afterDelete: () => { calls.push('afterDelete'); },
+            });
+
+            await runner.runBeforeSoftDelete(1);
+            await runner.runAfterSoftDelete(true);
+
+            expect(calls).toEqual(['beforeDelete', 'beforeSoftDelete', 'afterSoftDelete', 'afterDelete']);
+        });
+
+        it('should report which bulk operations need per-entity ids', () => {
+            expect(createHookRunner({ afterDelete: jest.fn() })).toMatchObject({
+                hasDeleteHooks: true,
+                hasSoftDeleteHooks: true,
+                hasRestoreHooks: false,
+            });
+            expect(createHookRunner({ afterSoftDelete: jest.fn(), beforeRestore: jest.fn() })).toMatchObject({
+                hasDeleteHooks: false,
+                hasSoftDeleteHooks: true,
+                hasRestoreHooks: true,
+            });
+        });
+    });
+
+    describe('createTimestamper', () => {
+        it('should set the configured fields when enabled', () => {
+            const { addCreatedAt, addUpdatedAt } = createTimestamper(true, 'created_at', 'updated_at');
+
+            expect(addCreatedAt({ id: 1 })).toEqual({ id: 1, created_at: expect.any(Date) });
+            expect(addUpdatedAt({ id: 1 })).toEqual({ id: 1, updated_at: expect.any(Date) });
+        });
+
+        it('should return the data unchanged when disabled', () => {
+            const { addCreatedAt, addUpdatedAt } = createTimestamper(false, 'createdAt', 'updatedAt');
+            const data = { id: 1 };
+
+            expect(addCreatedAt(data)).toBe(data);
+            expect(addUpdatedAt(data)).toBe(data);
+        });
+    });
+});
@@ -0,0 +1,149 @@
+// src/utils/hook.utils.ts
+
+import { RepositoryHooks } from '../contracts/database.contracts';
+
+/**
+ * Utility functions shared by the adapters for lifecycle hooks and timestamps.
+ */
+
+/**
+ * Runs the configured repository hooks. A runner does nothing when its hook is not set.
+ */
+export interface HookRunner<T> {
+  /** Runs beforeCreate and returns the data it produced, or the input when it returned nothing */
+  runBeforeCreate: (data: Partial<T>, isBulk?: boolean) => Promise<Partial<T>>;
+  runAfterCreate: (entity: T) => Promise<void>;
+  /** Runs beforeUpdate and returns the data it produced, or the input when it returned nothing */
+  runBeforeUpdate: (data: Partial<T>, operation?: 'update' | 'upsert', isBulk?: boolean) => Promise<Partial<T>>;
+  runAfterUpdate: (entity: T | null) => Promise<void>;
+  runBeforeDelete: (id: string | number) => Promise<void>;
+  runAfterDelete: (success: boolean) => Promise<void>;
+  /** Runs beforeDelete, then beforeSoftDelete */
+  runBeforeSoftDelete: (id: string | number) => Promise<void>;
+  /** Runs afterSoftDelete, then afterDelete */
+  runAfterSoftDelete: (success: boolean) => Promise<void>;
+  runBeforeRestore: (id: string | number) => Promise<void>;
+  runAfterRestore: (entity: T | null) => Promise<void>;
+  /** Whether bulk hard deletes must resolve the matched ids to fire per-entity hooks */
+  hasDeleteHooks: boolean;
+  /** Whether bulk soft deletes must resolve the matched ids to fire per-entity hooks */
+  hasSoftDeleteHooks: boolean;
+  /** Whether bulk restores must resolve the matched ids to fire per-entity hooks */
+  hasRestoreHooks: boolean;
+}
+
+/**
+ * Creates the hook runners for a repository.
+ *
+ * @param hooks - Hooks from the repository config
+ * @returns Runners for every lifecycle event
+ *
+ * @example
+ * ```typescript
+ * const { runBeforeCreate, runAfterCreate } = createHookRunner(cfg.hooks);
+ * const data = await runBeforeCreate(input);
+ * ```
+ */
+export function createHookRunner<T>(hooks?: RepositoryHooks<T>): HookRunner<T> {
+  const runBeforeDelete = async (id: string | number): Promise<void> => {
+    if (hooks?.beforeDelete) {
+      await hooks.beforeDelete(id);
+    }
+  };
+
+  const runAfterDelete = async (success: boolean): Promise<void> => {
+    if (hooks?.afterDelete) {
+      await hooks.afterDelete(success);
+    }
+  };
+
+  const hasDeleteHooks = !!(hooks?.beforeDelete || hooks?.afterDelete);
+
+  return {
+    async runBeforeCreate(data, isBulk = false) {
+      if (hooks?.beforeCreate) {
+        const result = await hooks.beforeCreate({ data, operation: 'create', isBulk });
+        return result ?? data;
+      }
+      return data;
+    },
+
+    async runAfterCreate(entity) {
+      if (hooks?.afterCreate) {
+        await hooks.afterCreate(entity);
+      }
+    },
+
+    async runBeforeUpdate(data, operation = 'update', isBulk = false) {
+      if (hooks?.beforeUpdate) {
+        const result = await hooks.beforeUpdate({ data, operation, isBulk });
+        return result ?? data;
+      }
+      return data;
+    },
+
+    async runAfterUpdate(entity) {
+      if (hooks?.afterUpdate) {
+        await hooks.afterUpdate(entity);
+      }
+    },
+
+    runBeforeDelete,
+    runAfterDelete,
+
+    async runBeforeSoftDelete(id) {
+      await runBeforeDelete(id);
+      if (hooks?.beforeSoftDelete) {
+        await hooks.beforeSoftDelete(id);
+      }
+    },
+
+    async runAfterSoftDelete(success) {
+      if (hooks?.afterSoftDelete) {
+        await hooks.afterSoftDelete(success);
+      }
+      await runAfterDelete(success);
+    },
+
+    async runBeforeRestore(id) {
+      if (hooks?.beforeRestore) {
+        await hooks.beforeRestore(id);
+      }
+    },
+
+    async runAfterRestore(entity) {
+      if (hooks?.afterRestore) {
+        await hooks.afterRestore(entity);
+      }
+    },
+
+    hasDeleteHooks,
+    hasSoftDeleteHooks: hasDeleteHooks || !!(hooks?.beforeSoftDelete || hooks?.afterSoftDelete),
+    hasRestoreHooks: !!(hooks?.beforeRestore || hooks?.afterRestore),
+  };
+}
+
+/**
+ * Stamps rows with creation and update times.
+ */
+export interface Timestamper {
+  /** Sets the createdAt field when timestamps are enabled */
+  addCreatedAt: <D extends Record<string, unknown>>(data: D) => D;
+  /** Sets the updatedAt field when timestamps are enabled */
+  addUpdatedAt: <D extends Record<string, unknown>>(data: D) => D;
+}
+
+/**
+ * Creates the timestamp helpers for a repository.
+ *
+ * @param enabled - Whether the repository has timestamps
+ * @param createdAtField - Field set on insert
+ * @param updatedAtField - Field set on every write
+ * @returns Helpers that return a copy of the data with the field set, or the data unchanged when disabled
+ */
+export function createTimestamper(enabled: boolean, createdAtField: string, updatedAtField: string): Timestamper {
+  return {
+    addCreatedAt: (data) => (enabled ? { ...data, [createdAtField]: new Date() } : data),
+    addUpdatedAt: (data) => (enabled ? { ...data, [updatedAtField]: new Date() } : data),
+  };
+}
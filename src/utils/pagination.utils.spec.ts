@@ -6,6 +6,10 @@ import {
     createPageResult,
     parseSortString,
     calculateOffset,
+    normalizeCursorSort,
+    encodeCursor,
+    decodeCursor,
+    createCursorPageResult,
 } from './pagination.utils';
 
 describe('Pagination Utils', () => {
@@ -140,4 +144,83 @@ describe('Pagination Utils', () => {
             expect(calculateOffset(-1, 10)).toBe(0);
         });
     });
+
+    describe('normalizeCursorSort', () => {
+        it('should default to primary key ascending', () => {
+            expect(normalizeCursorSort(undefined, 'id')).toEqual([{ field: 'id', direction: 'asc' }]);
+        });
+
+        it('should append primary key with the last sort direction', () => {
+            expect(normalizeCursorSort('-createdAt', 'id')).toEqual([
+                { field: 'createdAt', direction: 'desc' },
+                { field: 'id', direction: 'desc' },
+            ]);
+        });
+
+        it('should accept sort objects', () => {
+            expect(normalizeCursorSort({ name: 1, age: 'desc' }, '_id')).toEqual([
+                { field: 'name', direction: 'asc' },
+                { field: 'age', direction: 'desc' },
+                { field: '_id', direction: 'desc' },
+            ]);
+        });
+
+        it('should not duplicate the primary key', () => {
+            expect(normalizeCursorSort({ id: -1 }, 'id')).toEqual([{ field: 'id', direction: 'desc' }]);
+        });
+    });
+
+    describe('encodeCursor / decodeCursor', () => {
+        const fields = normalizeCursorSort('-createdAt', 'id');
+
+        it('should round-trip sort values including dates', () => {
+            const createdAt = new Date('2026-01-01T00:00:00.000Z');
+            const cursor = encodeCursor({ id: 7, createdAt, name: 'ignored' }, fields);
+
+            expect(typeof cursor).toBe('string');
+            expect(decodeCursor(cursor, fields)).toEqual({ id: 7, createdAt });
+        });
+
+        it('should throw on malformed cursor', () => {
+            expect(() => decodeCursor('not-a-cursor', fields)).toThrow('Invalid cursor');
+        });
+
+        it('should throw when cursor does not match the sort', () => {
+            const cursor = encodeCursor({ id: 7 }, [{ field: 'id', direction: 'asc' }]);
+            expect(() => decodeCursor(cursor, fields)).toThrow('missing value for "createdAt"');
+        });
+    });
+
+    describe('createCursorPageResult', () => {
+        const fields = normalizeCursorSort(undefined, 'id');
+
+        it('should detect next page from the extra row', () => {
+            const result = createCursorPageResult([{ id: 1 }, { id: 2 }, { id: 3 }], 2, fields);
+
+            expect(result.data).toEqual([{ id: 1 }, { id: 2 }]);
+            expect(result.hasNext).toBe(true);
+            expect(result.hasPrev).toBe(false);
+            expect(decodeCursor(result.nextCursor!, fields)).toEqual({ id: 2 });
+            expect(result.prevCursor).toBeNull();
+            expect(result.total).toBeUndefined();
+        });
+
+        it('should mark previous page when paging forward from a cursor', () => {
+            const result = createCursorPageResult([{ id: 3 }], 2, fields, 'after', 3);
+
+            expect(result.hasNext).toBe(false);
+            expect(result.hasPrev).toBe(true);
+            expect(result.nextCursor).toBeNull();
+            expect(decodeCursor(result.prevCursor!, fields)).toEqual({ id: 3 });
+            expect(result.total).toBe(3);
+        });
+
+        it('should restore order when paging backwards', () => {
+            const result = createCursorPageResult([{ id: 4 }, { id: 3 }, { id: 2 }], 2, fields, 'before');
+
+            expect(result.data).toEqual([{ id: 3 }, { id: 4 }]);
+            expect(result.hasNext).toBe(true);
+            expect(result.hasPrev).toBe(true);
+        });
+    });
 });
@@ -1,6 +1,12 @@
 // src/utils/pagination.utils.ts
 
-import { PageOptions, PageResult, DATABASE_KIT_CONSTANTS } from '../contracts/database.contracts';
+import {
+  PageOptions,
+  PageResult,
+  FindOptions,
+  CursorPageResult,
+  DATABASE_KIT_CONSTANTS,
+} from '../contracts/database.contracts';
 
 /**
  * Utility functions for pagination operations.
@@ -14,7 +20,7 @@ import { PageOptions, PageResult, DATABASE_KIT_CONSTANTS } from '../contracts/da
  */
 export function normalizePaginationOptions<T = Record<string, unknown>>(
   options: PageOptions<T> = {},
-): Required<PageOptions<T>> {
+): Required<Omit<PageOptions<T>, keyof FindOptions>> & FindOptions {
   const { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } = DATABASE_KIT_CONSTANTS;
 
   let page = options.page ?? 1;
@@ -32,6 +38,10 @@ export function normalizePaginationOptions<T = Record<string, unknown>>(
     page,
     limit,
     sort: options.sort ?? {},
+    ...(options.consistency && { consistency: options.consistency }),
+    ...(options.readPreference && { readPreference: options.readPreference }),
+    ...(options.readConcern && { readConcern: options.readConcern }),
+    ...(options.include && { include: options.include }),
   };
 }
 
@@ -70,7 +80,7 @@ export function createPageResult<T>(
   limit: number,
   total: number,
 ): PageResult<T> {
-  const pages = Math.max(1, Math.ceil(total / limit));
+  const pages = Math.max(1, Math.ceil((total || 0) / (limit || 1)));
 
   return {
     data,
@@ -126,3 +136,148 @@ export function parseSortString(
 export function calculateOffset(page: number, limit: number): number {
   return Math.max(0, (page - 1) * limit);
 }
+
+/**
+ * A single column of a keyset (cursor) sort order.
+ */
+export interface CursorSortField {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Normalizes a sort specification into an ordered list of keyset columns.
+ * The primary key is appended as a tiebreaker so every position is unique.
+ *
+ * @param sort - Sort string (e.g. "-createdAt,name") or object
+ * @param primaryKey - Primary key column used as tiebreaker
+ * @returns Ordered sort columns ending with the primary key
+ *
+ * @example
+ * ```typescript
+ * normalizeCursorSort('-createdAt', 'id');
+ * // Returns: [{ field: 'createdAt', direction: 'desc' }, { field: 'id', direction: 'desc' }]
+ * ```
+ */
+export function normalizeCursorSort(
+  sort: string | Record<string, unknown> | undefined,
+  primaryKey: string,
+): CursorSortField[] {
+  const entries: Array<[string, unknown]> = typeof sort === 'string'
+    ? Object.entries(parseSortString(sort))
+    : Object.entries(sort ?? {});
+
+  const fields: CursorSortField[] = entries.map(([field, dir]) => ({
+    field,
+    direction: dir === -1 || String(dir).toLowerCase() === 'desc' ? 'desc' : 'asc',
+  }));
+
+  if (!fields.some((f) => f.field === primaryKey)) {
+    // Tiebreaker follows the last sort direction so the index order stays monotonic
+    const direction = fields.length ? fields[fields.length - 1].direction : 'asc';
+    fields.push({ field: primaryKey, direction });
+  }
+
+  return fields;
+}
+
+/**
+ * Encodes the sort column values of a row into an opaque cursor string.
+ *
+ * @param row - The row at the cursor position
+ * @param fields - Keyset sort columns
+ * @returns Base64url encoded cursor
+ */
+export function encodeCursor(
+  row: Record<string, unknown>,
+  fields: CursorSortField[],
+): string {
+  const values: Record<string, unknown> = {};
+
+  for (const { field } of fields) {
+    // A missing value is stored as null, which sorts before every other value
+    const value = row[field] ?? null;
+    values[field] = value instanceof Date ? { $date: value.toISOString() } : value;
+  }
+
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Decodes an opaque cursor string back into sort column values.
+ *
+ * @param cursor - Cursor produced by encodeCursor
+ * @param fields - Keyset sort columns the cursor must contain
+ * @returns Sort column values keyed by field name
+ * @throws Error if the cursor is malformed or does not match the sort
+ */
+export function decodeCursor(
+  cursor: string,
+  fields: CursorSortField[],
+): Record<string, unknown> {
+  let values: Record<string, unknown>;
+
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor: unable to decode');
+  }
+
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    throw new Error('Invalid cursor: unable to decode');
+  }
+
+  for (const { field } of fields) {
+    if (!(field in values)) {
+      throw new Error(`Invalid cursor: missing value for "${field}". Was it created with a different sort?`);
+    }
+
+    const value = values[field] as { $date?: string } | null;
+    if (value && typeof value === 'object' && typeof value.$date === 'string') {
+      values[field] = new Date(value.$date);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Creates a cursor page result from rows fetched with `limit + 1`.
+ * The extra row, if present, only signals that another page exists.
+ *
+ * @param rows - Rows in query order (reversed order when paging backwards)
+ * @param limit - Items per page
+ * @param fields - Keyset sort columns
+ * @param direction - Which cursor was used, if any
+ * @param total - Optional total count
+ * @returns Complete cursor page result
+ */
+export function createCursorPageResult<T>(
+  rows: T[],
+  limit: number,
+  fields: CursorSortField[],
+  direction?: 'after' | 'before',
+  total?: number,
+): CursorPageResult<T> {
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit);
+
+  // Backward pages are fetched in reverse sort order
+  if (direction === 'before') data.reverse();
+
+  const hasNext = direction === 'before' ? true : hasMore;
+  const hasPrev = direction === 'before' ? hasMore : direction === 'after';
+
+  const first = data[0] as Record<string, unknown> | undefined;
+  const last = data[data.length - 1] as Record<string, unknown> | undefined;
+
+  return {
+    data,
+    limit,
+    nextCursor: hasNext && last ? encodeCursor(last, fields) : null,
+    prevCursor: hasPrev && first ? encodeCursor(first, fields) : null,
+    hasNext,
+    hasPrev,
+    ...(total !== undefined ? { total } : {}),
+  };
+}
@@ -0,0 +1,136 @@
+// src/utils/relation.utils.spec.ts
+
+import { attachRelations, AttachRelationsOptions, relationColumns } from './relation.utils';
+
+describe('Relation Utils', () => {
+    const tables: Record<string, Record<string, unknown>[]> = {
+        users: [
+            { id: 1, name: 'Ada' },
+            { id: 2, name: 'Linus' },
+        ],
+        comments: [
+            { id: 10, post_id: 1 },
+            { id: 11, post_id: 1 },
+            { id: 12, post_id: 3 },
+        ],
+        post_tags: [
+            { post_id: 1, tag_id: 'a' },
+            { post_id: 1, tag_id: 'b' },
+            { post_id: 2, tag_id: 'a' },
+        ],
+        tags: [
+            { code: 'a', label: 'news' },
+            { code: 'b', label: 'tech' },
+        ],
+    };
+
+    const createOptions = (): AttachRelationsOptions & { load: jest.Mock } => ({
+        relations: {
+            author: { type: 'belongsTo', target: 'users', foreignKey: 'author_id' },
+            comments: { type: 'hasMany', target: 'comments', foreignKey: 'post_id' },
+            tags: {
+                type: 'manyToMany',
+                target: 'tags',
+                through: 'post_tags',
+                foreignKey: 'post_id',
+                otherKey: 'tag_id',
+                targetKey: 'code',
+            },
+        },
+        primaryKey: 'id',
+        defaultTargetKey: 'id',
+        target: 'table "posts"',
+        load: jest.fn(async (source: string, field: string, values: unknown[]) =>
+            tables[source].filter((row) => values.map(String).includes(String(row[field])))),
+    });
+
+    const posts = () => [
+        { id: 1, author_id: 1 },
+        { id: 2, author_id: '1' },
+        { id: 3, author_id: null },
+    ];
+
+    it('should attach belongsTo rows with one query for distinct keys', async () => {
+        const options = createOptions();
+
+        const rows = await attachRelations(posts(), ['author'], options);
+
+        expect(options.load).toHaveBeenCalledTimes(1);
+        expect(options.load).toHaveBeenCalledWith('users', 'id', [1], {});
+        expect(rows.map((row) => (row as Record<string, unknown>).author)).toEqual([
+            { id: 1, name: 'Ada' },
+            { id: 1, name: 'Ada' },
+            null,
+        ]);
+    });
+
+    it('should attach hasMany rows as arrays', async () => {
+        const rows = await attachRelations(posts(), ['comments'], createOptions());
+
+        expect(rows.map((row) => (row as Record<string, unknown>).comments)).toEqual([
+            [{ id: 10, post_id: 1 }, { id: 11, post_id: 1 }],
+            [],
+            [{ id: 12, post_id: 3 }],
+        ]);
+    });
+
+    it('should attach manyToMany rows through the join table with two queries', async () => {
+        const options = createOptions();
+
+        const rows = await attachRelations(posts(), ['tags'], options);
+
+        expect(options.load.mock.calls).toEqual([
+            ['post_tags', 'post_id', [1, 2, 3]],
+            ['tags', 'code', ['a', 'b'], {}],
+        ]);
+        expect(rows.map((row) => (row as Record<string, unknown>).tags)).toEqual([
+            [{ code: 'a', label: 'news' }, { code: 'b', label: 'tech' }],
+            [{ code: 'a', label: 'news' }],
+            [],
+        ]);
+    });
+
+    it('should pass the target columns and soft delete field to the loader, not for join rows', async () => {
+        const options = createOptions();
+        options.relations = {
+            author: {
+                type: 'belongsTo',
+                target: 'users',
+                foreignKey: 'author_id',
+                columns: ['name'],
+                softDeleteField: 'deleted_at',
+            },
+            tags: { ...(options.relations?.tags as object), columns: ['label'] } as never,
+        };
+
+        await attachRelations(posts(), ['author', 'tags'], options);
+
+        expect(options.load.mock.calls).toEqual([
+            ['users', 'id', [1], { columns: ['name'], softDeleteField: 'deleted_at' }],
+            ['post_tags', 'post_id', [1, 2, 3]],
+            ['tags', 'code', ['a', 'b'], { columns: ['label'] }],
+        ]);
+    });
+
+    it('should always select the match key with the target columns', () => {
+        expect(relationColumns('id', { columns: ['name'] })).toEqual(['name', 'id']);
+        expect(relationColumns('id', { columns: ['id', 'name'] })).toEqual(['id', 'name']);
+        expect(relationColumns('id', {})).toBeUndefined();
+        expect(relationColumns('id')).toBeUndefined();
+    });
+
+    it('should skip queries without rows or keys', async () => {
+        const options = createOptions();
+
+        await attachRelations([], ['author'], options);
+        await attachRelations([{ id: 4, author_id: null }], ['author'], options);
+
+        expect(options.load).not.toHaveBeenCalled();
+    });
+
+    it('should reject relations that are not declared', async () => {
+        await expect(attachRelations([], ['editor'], createOptions())).rejects.toThrow(
+            'Unknown relation "editor" for table "posts". Declare it in relations in config.',
+        );
+    });
+});
@@ -0,0 +1,190 @@
+// src/utils/relation.utils.ts
+
+import { RelationDefinition, RelationTargetOptions } from '../contracts/database.contracts';
+
+/**
+ * Utility functions for loading declared relations.
+ */
+
+type Row = Record<string, unknown>;
+
+/**
+ * Fetches every row of a table/collection whose `field` is one of `values`,
+ * in a single query (`WHERE field IN (...)` or `{ field: { $in: [...] } }`).
+ * For relation targets, `scope` limits the returned fields (always keeping `field`)
+ * and leaves out soft-deleted rows; join rows are loaded without it.
+ */
+export type RelationLoader = (
+  source: string,
+  field: string,
+  values: unknown[],
+  scope?: RelationTargetOptions,
+) => Promise<Row[]>;
+
+/**
+ * Returns the fields a relation loader selects: the scope's columns plus the match key,
+ * or undefined to select every field.
+ *
+ * @param field - Field the rows are matched on
+ * @param scope - Columns and soft delete field of the relation target
+ * @returns Fields to select, or undefined for all
+ */
+export function relationColumns(field: string, scope?: RelationTargetOptions): string[] | undefined {
+  if (!scope?.columns?.length) return undefined;
+  return scope.columns.includes(field) ? scope.columns : [...scope.columns, field];
+}
+
+/**
+ * Picks the relation target options out of a relation definition.
+ */
+function targetScope(relation: RelationDefinition): RelationTargetOptions {
+  return { columns: relation.columns, softDeleteField: relation.softDeleteField };
+}
+
+/**
+ * Options for attachRelations.
+ */
+export interface AttachRelationsOptions {
+  /** Relations declared on the repository */
+  relations?: Record<string, RelationDefinition>;
+  /** Primary key of the repository's rows, the default source key */
+  primaryKey: string;
+  /** Default target key ("id", or "_id" on MongoDB) */
+  defaultTargetKey: string;
+  /** Describes the queried table/collection in error messages */
+  target: string;
+  /** Runs the batch queries */
+  load: RelationLoader;
+}
+
+/**
+ * Returns the distinct non-null values of a field, keyed by their string form
+ * so numbers, numeric strings and ObjectIds compare by value.
+ */
+function distinctValues(rows: Row[], field: string): unknown[] {
+  const values = new Map<string, unknown>();
+
+  for (const row of rows) {
+    const value = row[field];
+    if (value === null || value === undefined || values.has(String(value))) continue;
+    values.set(String(value), value);
+  }
+
+  return [...values.values()];
+}
+
+/**
+ * Groups rows by the string form of a field.
+ */
+function groupBy(rows: Row[], field: string): Map<string, Row[]> {
+  const groups = new Map<string, Row[]>();
+
+  for (const row of rows) {
+    const key = String(row[field]);
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+
+  return groups;
+}
+
+/**
+ * Loads one relation for all rows and attaches it under `name`.
+ */
+async function attachRelation(
+  rows: Row[],
+  name: string,
+  relation: RelationDefinition,
+  options: AttachRelationsOptions,
+): Promise<void> {
+  const { load, primaryKey, defaultTargetKey } = options;
+
+  if (relation.type === 'belongsTo') {
+    const targetKey = relation.targetKey ?? defaultTargetKey;
+    const keys = distinctValues(rows, relation.foreignKey);
+    const related = keys.length ? await load(relation.target, targetKey, keys, targetScope(relation)) : [];
+    const byKey = new Map(related.map((row) => [String(row[targetKey]), row]));
+
+    for (const row of rows) {
+      const key = row[relation.foreignKey];
+      row[name] = key === null || key === undefined ? null : byKey.get(String(key)) ?? null;
+    }
+    return;
+  }
+
+  const sourceKey = relation.sourceKey ?? primaryKey;
+  const keys = distinctValues(rows, sourceKey);
+
+  if (relation.type === 'hasMany') {
+    const related = keys.length
+      ? await load(relation.target, relation.foreignKey, keys, targetScope(relation))
+      : [];
+    const groups = groupBy(related, relation.foreignKey);
+
+    for (const row of rows) {
+      row[name] = groups.get(String(row[sourceKey])) ?? [];
+    }
+    return;
+  }
+
+  // manyToMany: one query for the join rows, one for the targets they point to
+  const targetKey = relation.targetKey ?? defaultTargetKey;
+  const links = keys.length ? await load(relation.through, relation.foreignKey, keys) : [];
+  const targetIds = distinctValues(links, relation.otherKey);
+  const related = targetIds.length ? await load(relation.target, targetKey, targetIds, targetScope(relation)) : [];
+  const byKey = new Map(related.map((row) => [String(row[targetKey]), row]));
+  const linksBySource = groupBy(links, relation.foreignKey);
+
+  for (const row of rows) {
+    row[name] = (linksBySource.get(String(row[sourceKey])) ?? [])
+      .map((link) => byKey.get(String(link[relation.otherKey])))
+      .filter((target): target is Row => !!target);
+  }
+}
+
+/**
+ * Loads the requested relations and attaches them to the rows in place.
+ * Each relation costs one query (two for manyToMany), whatever the number of rows.
+ * belongsTo attaches the related row or null; hasMany and manyToMany attach arrays.
+ *
+ * @param rows - Rows returned by the repository
+ * @param include - Names of the relations to load
+ * @param options - Declared relations, key defaults and the batch loader
+ * @returns The same rows, with the relations attached
+ * @throws Error if a name is not a declared relation
+ *
+ * @example
+ * ```typescript
+ * await attachRelations(posts, ['author'], {
+ *   relations: { author: { type: 'belongsTo', target: 'users', foreignKey: 'author_id' } },
+ *   primaryKey: 'id',
+ *   defaultTargetKey: 'id',
+ *   target: 'table "posts"',
+ *   load: (table, field, values) => knex(table).select('*').whereIn(field, values),
+ * });
+ * ```
+ */
+export async function attachRelations<T>(
+  rows: T[],
+  include: string[] | undefined,
+  options: AttachRelationsOptions,
+): Promise<T[]> {
+  if (!include?.length) return rows;
+
+  const relations = include.map((name): [string, RelationDefinition] => {
+    const relation = options.relations?.[name];
+    if (!relation) {
+      throw new Error(`Unknown relation "${name}" for ${options.target}. Declare it in relations in config.`);
+    }
+    return [name, relation];
+  });
+
+  if (rows.length === 0) return rows;
+
+  for (const [name, relation] of relations) {
+    await attachRelation(rows as Row[], name, relation, options);
+  }
+
+  return rows;
+}